@@ -7,32 +7,59 @@ import { Header } from './components/Header';
 import { PromptInput } from './components/PromptInput';
 import { CodeDisplay } from './components/CodeDisplay';
 import { LivePreview, LivePreviewHandle } from './components/LivePreview';
-import { generateWebApp, File, Suggestion, generateSuggestions, discussCode, GenerationResult, initializeAi } from './services/geminiService';
+import { generateWebAppStream, File, Suggestion, generateSuggestions, discussCode, createEditPromptFromDiscussion, createAnnotatedEditPrompt, createElementEditPrompt, fixRuntimeErrors, GenerationOptions } from './services/geminiService';
+import { SelectedElement } from './services/elementContext';
+import { applyVisualEdits, mergeVisualEdit, VisualEdit, VisualEditProperty, VisualEditTarget } from './services/visualEdits';
+import { configureProvider, isProviderConfigured, ProviderSettings, readProviderSettings, toUserMetadata } from './services/llmProvider';
 import { FullScreenIcon } from './components/icons/FullScreenIcon';
 import { WelcomeScreen, WizardPrefillData } from './components/WelcomeScreen';
 import { ProjectsSidebar } from './components/ProjectsSidebar';
 import { HistorySidebar } from './components/HistorySidebar';
-import { DeviceSelector, DeviceType } from './components/DeviceSelector';
+import { VersionDiffModal } from './components/VersionDiffModal';
+import { DeviceSelector } from './components/DeviceSelector';
+import { DeviceFrames } from './components/DeviceFrames';
+import { createViewport, DEFAULT_COMPARED_DEVICE_IDS, DEFAULT_VIEWPORT, DEVICE_PRESETS, getViewportSize, PreviewViewport } from './services/devices';
 import { DeleteConfirmationModal } from './components/DeleteConfirmationModal';
 import { MenuIcon } from './components/icons/MenuIcon';
 import { CursorClickIcon } from './components/icons/CursorClickIcon';
+import { PenToolIcon } from './components/icons/PenToolIcon';
+import { PencilIcon } from './components/icons/PencilIcon';
+import { AnnotationCanvas, AnnotationCanvasHandle } from './components/AnnotationCanvas';
+import { Annotation, AnnotationTool, ANNOTATION_SIZES } from './services/annotations';
+import { detectProjectTarget, ProjectTarget } from './services/projectTargets';
+import { applyDesignTokens, detectProjectStyling, ProjectStyling } from './services/projectStyling';
+import { addAssets, createAssetPrompt, getUniqueAssetPath, isAssetPath } from './services/assets';
+import { readUploadedFile } from './services/binaryFiles';
+import { AssetPanel } from './components/AssetPanel';
+import { AnnotationToolbar } from './components/AnnotationToolbar';
+import { StyleInspector } from './components/StyleInspector';
+import { CompileErrors } from './components/CompileErrors';
+import type { PreviewCompileError } from './services/previewTransforms';
 import { LoadingOverlay } from './components/LoadingOverlay';
-import { ProjectWizard } from './components/ProjectWizard';
+import { GenerationStatusView } from './components/GenerationStatusView';
+import { ProjectSetup, ProjectWizard } from './components/ProjectWizard';
 import { DiscussionView } from './components/DiscussionView';
 import { ReloadIcon } from './components/icons/ReloadIcon';
-import { supabase } from './services/supabaseClient';
+import { supabase, isBackendEnabled, getLocalSession, updateLocalUserMetadata } from './services/supabaseClient';
+import { createProjectStore, ProjectStore, SyncStatus } from './services/projectStore';
 import { AuthScreen } from './components/AuthScreen';
 import { AlertTriangleIcon } from './components/icons/AlertTriangleIcon';
 import { XIcon } from './components/icons/XIcon';
 import { SettingsModal } from './components/SettingsModal';
+import { readProjectZip } from './services/projectArchive';
+import { addVersion, canRedo as canRedoHistory, canUndo as canUndoHistory, checkoutVersion, createCodeHistory, getHead, redo, undo } from './services/historyTree';
+import { PreviewConsoleEntry } from './services/previewConsole';
+import { PreviewConsole } from './components/PreviewConsole';
+import { TerminalIcon } from './components/icons/TerminalIcon';
 
-type ActiveTab = 'preview' | 'code';
-type SelectedElement = { selector: string; html: string };
+type ActiveTab = 'preview' | 'code' | 'assets';
 
 export interface HistoryEntry {
     files: File[];
     prompt: string;
     timestamp: number;
+    // The version this one was made from; null for the first version. See services/historyTree.ts.
+    parentIndex?: number | null;
 }
 
 export interface Project {
@@ -42,8 +69,16 @@ export interface Project {
     codeHistory: {
         history: HistoryEntry[];
         currentIndex: number;
+        // For versions with several children, the one redo returns to, i.e. the branch that was last used.
+        activeChildren?: { [index: number]: number };
     };
     discussionHistory?: Array<{ role: 'user' | 'model'; content: string }>;
+    // Notes drawn over the preview, by the index of the version they were drawn on.
+    annotations?: { [versionIndex: number]: Annotation[] };
+    // The stack the project is generated and previewed as; 'vanilla' if not set.
+    target?: ProjectTarget;
+    // How the project is styled; plain CSS if not set.
+    styling?: ProjectStyling;
     // Supabase fields
     userId: string;
     createdAt: string;
@@ -53,10 +88,22 @@ export interface GenerationStatus {
     stage: 'idle' | 'thinking' | 'editing' | 'applying' | 'reloading';
     message: string;
     plan?: string;
-    filesBeingEdited?: { current: number; total: number };
+    filesBeingEdited?: { current: number };
     timer: number;
 }
 
+// Shared by versions without annotations, so the annotation canvas does not redraw on every render.
+const NO_ANNOTATIONS: Annotation[] = [];
+
+// The oldest console entries are dropped beyond this, so a noisy preview cannot grow the list without bound.
+const MAX_CONSOLE_ENTRIES = 500;
+
+// "Fix with AI" stops after this many rounds, even if the preview still reports errors.
+const MAX_FIX_ATTEMPTS = 3;
+// After a fix, how long to wait for the preview to load and report errors before checking the console.
+const PREVIEW_LOAD_TIMEOUT_MS = 10000;
+const PREVIEW_SETTLE_MS = 2500;
+
 const LOGO_URL = "https://styles.redditmedia.com/t5_2qh32/styles/communityIcon_4ke1237b6a841.png";
 
 const App: React.FC = () => {
@@ -69,113 +116,180 @@ const App: React.FC = () => {
     const [isProjectsSidebarOpen, setProjectsSidebarOpen] = useState<boolean>(false);
     const [isSidebarHovered, setSidebarHovered] = useState<boolean>(false);
     const [isHistorySidebarOpen, setHistorySidebarOpen] = useState<boolean>(false);
-    const [previewDevice, setPreviewDevice] = useState<DeviceType>('current');
+    const [versionComparison, setVersionComparison] = useState<{ baseIndex: number; compareIndex: number } | null>(null);
+    const [previewViewport, setPreviewViewport] = useState<PreviewViewport>(DEFAULT_VIEWPORT);
+    const [isZoomToFit, setIsZoomToFit] = useState<boolean>(true);
+    // Shows a preview for each of `comparedDeviceIds` side by side instead of the one interactive preview.
+    const [isComparingDevices, setIsComparingDevices] = useState<boolean>(false);
+    const [comparedDeviceIds, setComparedDeviceIds] = useState<string[]>(DEFAULT_COMPARED_DEVICE_IDS);
     const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
     const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
     const [isGeneratingSuggestions, setIsGeneratingSuggestions] = useState<boolean>(false);
     const [isSelectionModeActive, setIsSelectionModeActive] = useState<boolean>(false);
-    const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
+    const [selectedElements, setSelectedElements] = useState<SelectedElement[]>([]);
     const [isDiscussModeActive, setIsDiscussModeActive] = useState<boolean>(false);
+    const [isAnnotationModeActive, setIsAnnotationModeActive] = useState<boolean>(false);
+    const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('pen');
+    const [annotationColor, setAnnotationColor] = useState<string>('#EF4444');
+    const [annotationSize, setAnnotationSize] = useState<number>(ANNOTATION_SIZES[1]);
+    const [selectedAnnotation, setSelectedAnnotation] = useState<Annotation | null>(null);
+    const [isVisualEditActive, setIsVisualEditActive] = useState<boolean>(false);
+    // Files of the current version that the preview could not compile (TypeScript, Sass, Less, Markdown).
+    const [compileErrors, setCompileErrors] = useState<PreviewCompileError[]>([]);
+    const [visualEditTarget, setVisualEditTarget] = useState<VisualEditTarget | null>(null);
+    // Changes shown in the preview but not yet saved; they are saved together as one version.
+    const [pendingVisualEdits, setPendingVisualEdits] = useState<VisualEdit[]>([]);
     const [aiTargetFiles, setAiTargetFiles] = useState<File[] | undefined>(undefined);
+    // The question being answered and the answer streamed so far, until it is saved to the discussion.
+    const [pendingDiscussion, setPendingDiscussion] = useState<{ question: string; answer: string } | null>(null);
+    // A file to show in the code view, e.g. one mentioned in a discussion answer. A new object asks again for the same file.
+    const [fileToOpen, setFileToOpen] = useState<{ path: string; startLine?: number; endLine?: number } | null>(null);
     const [wizardData, setWizardData] = useState<{ name: string; prompt: string; prefill?: WizardPrefillData } | null>(null);
+    // The project the wizard is generating; it is only saved once its files are complete.
+    const [projectBeingCreated, setProjectBeingCreated] = useState<{ name: string } & Pick<ProjectSetup, 'target' | 'styling'> | null>(null);
     const [initialProjectsLoaded, setInitialProjectsLoaded] = useState<boolean>(false);
+    const [projectStore, setProjectStore] = useState<ProjectStore | null>(null);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'synced', pendingCount: 0, conflicts: [] });
     
     const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
     const [isApiKeyRequired, setIsApiKeyRequired] = useState(false);
-    const [isSavingApiKey, setIsSavingApiKey] = useState(false);
+    const [isSavingSettings, setIsSavingSettings] = useState(false);
     const [pendingAction, setPendingAction] = useState<(() => Promise<void>) | null>(null);
     
+    const [consoleEntries, setConsoleEntries] = useState<PreviewConsoleEntry[]>([]);
+    const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+    // Read by the "Fix with AI" loop, which needs the latest values between awaits.
+    const consoleEntriesRef = useRef<PreviewConsoleEntry[]>([]);
+    const previewLoadCountRef = useRef(0);
+    const activeProjectRef = useRef<Project | undefined>(undefined);
+    
     const [isDragging, setIsDragging] = useState(false);
     const [leftPanelWidth, setLeftPanelWidth] = useState(25);
     const mainRef = useRef<HTMLDivElement>(null);
     const previewContainerRef = useRef<HTMLDivElement>(null);
     const livePreviewRef = useRef<LivePreviewHandle>(null);
+    const annotationCanvasRef = useRef<AnnotationCanvasHandle>(null);
     
     const [generationStatus, setGenerationStatus] = useState<GenerationStatus>({ stage: 'idle', message: '', timer: 0 });
     const timerIntervalRef = useRef<number | null>(null);
     
     // Auth and Data Loading Effect
     useEffect(() => {
-        supabase.auth.getSession().then(({ data: { session } }) => {
+        const handleInitialSession = (session: Session | null) => {
             setSession(session);
-            const metadata = session?.user?.user_metadata;
-            const apiKey = metadata?.gemini_api_key;
-            initializeAi(apiKey);
-            if (session && !metadata?.has_seen_api_key_prompt) {
+            if (session && !session.user.user_metadata?.has_seen_api_key_prompt) {
                 setIsSettingsModalOpen(true);
                 setIsApiKeyRequired(false); // It's skippable on first login
             }
             setIsLoading(false);
-        });
+        };
+
+        if (!isBackendEnabled) {
+            handleInitialSession(getLocalSession());
+            return;
+        }
+
+        supabase.auth.getSession().then(({ data: { session } }) => handleInitialSession(session));
 
         const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
             setSession(session);
-            const apiKey = session?.user?.user_metadata?.gemini_api_key;
-            initializeAi(apiKey);
         });
 
         return () => subscription.unsubscribe();
     }, []);
     
+    const userId = session?.user.id;
+
     useEffect(() => {
+        if (!userId) {
+            // If user logs out, clear projects and state
+            setProjectStore(null);
+            setProjects([]);
+            setActiveProjectId(null);
+            setIsLoading(false);
+            setInitialProjectsLoaded(false);
+            return;
+        }
+
+        const store = createProjectStore(userId);
+        const unsubscribe = store.subscribe(setSyncStatus);
+        setProjectStore(store);
+        let isCancelled = false;
+
+        const showProjects = (loadedProjects: Project[]) => {
+            if (isCancelled) return;
+            setProjects(loadedProjects);
+            const damaged = store.getDamagedProjects();
+            if (damaged.length > 0) {
+                setError(`Some projects could not be opened because their files are missing from this browser's storage: ${damaged.map(p => p.name).join(', ')}.`);
+            }
+            if (loadedProjects.length > 0 && !activeProjectId && !initialProjectsLoaded) {
+                setActiveProjectId(prev => prev ?? loadedProjects[0].id);
+            }
+        };
+
         const fetchProjects = async () => {
-            if (session) {
-                setIsLoading(true);
-                const { data, error } = await supabase
-                    .from('projects')
-                    .select('*')
-                    .order('created_at', { ascending: false });
-
-                if (error) {
-                    console.error('Error fetching projects:', error.message, error);
-                    let detailedError = `An unexpected error occurred. (Details: ${error.message})`;
-                    if (error.code === 'PGRST301' || error.message.includes("relation \"public.projects\" does not exist")) {
-                        detailedError = "It looks like the 'projects' table is missing from your Supabase database. Please run the setup SQL provided in the documentation to create it.";
-                    }
-                    setError(`Could not load your projects. ${detailedError}`);
-                } else {
-                    // Map snake_case to camelCase
-                    const fetchedProjects = data.map(p => ({
-                        id: p.id,
-                        name: p.name,
-                        initialPrompt: p.initial_prompt,
-                        codeHistory: p.code_history,
-                        discussionHistory: p.discussion_history,
-                        userId: p.user_id,
-                        createdAt: p.created_at,
-                    }));
-                    setProjects(fetchedProjects);
-                    if (fetchedProjects.length > 0 && !activeProjectId && !initialProjectsLoaded) {
-                        setActiveProjectId(fetchedProjects[0].id);
-                    }
-                    setInitialProjectsLoaded(true);
-                }
+            setIsLoading(true);
+            // Projects stored in this browser are shown straight away; the server's copy is merged in afterwards.
+            const localProjects = await store.load();
+            showProjects(localProjects);
+            if (localProjects.length > 0) {
                 setIsLoading(false);
-            } else {
-                // If user logs out, clear projects and state
-                setProjects([]);
-                setActiveProjectId(null);
+            }
+
+            try {
+                showProjects(await store.pull());
+            } catch (error: any) {
+                console.error('Error fetching projects:', error.message, error);
+                let detailedError = `An unexpected error occurred. (Details: ${error.message})`;
+                if (error.code === 'PGRST301' || error.message?.includes("relation \"public.projects\" does not exist")) {
+                    detailedError = "It looks like the 'projects' table is missing from your Supabase database. Please run the setup SQL provided in the documentation to create it.";
+                }
+                if (!isCancelled) {
+                    setError(localProjects.length > 0
+                        ? `Could not reach the server, showing the projects saved in this browser. ${detailedError}`
+                        : `Could not load your projects. ${detailedError}`);
+                }
+            }
+            if (!isCancelled) {
+                setInitialProjectsLoaded(true);
                 setIsLoading(false);
-                setInitialProjectsLoaded(false);
             }
         };
 
         fetchProjects();
-    }, [session]);
+
+        return () => {
+            isCancelled = true;
+            unsubscribe();
+            store.dispose();
+        };
+    }, [userId]);
 
 
     const activeProject = useMemo(() => {
         return projects.find(p => p.id === activeProjectId);
     }, [projects, activeProjectId]);
+    activeProjectRef.current = activeProject;
+    consoleEntriesRef.current = consoleEntries;
     
+    const providerSettings = useMemo(() => readProviderSettings(session?.user?.user_metadata), [session]);
+    const isAiConfigured = isProviderConfigured(providerSettings);
+
+    useEffect(() => {
+        configureProvider(session ? providerSettings : null);
+    }, [session, providerSettings]);
+
     const currentFiles = activeProject?.codeHistory.history[activeProject.codeHistory.currentIndex]?.files || [];
+    const currentAnnotations = activeProject?.annotations?.[activeProject.codeHistory.currentIndex] ?? NO_ANNOTATIONS;
     const isEditing = !!currentFiles && currentFiles.length > 0;
-    const canUndo = (activeProject?.codeHistory.currentIndex ?? 0) > 0;
-    const canRedo = activeProject ? activeProject.codeHistory.currentIndex < activeProject.codeHistory.history.length - 1 : false;
+    const currentFilePaths = useMemo(() => currentFiles.map(f => f.path), [currentFiles]);
+    const canUndo = activeProject ? canUndoHistory(activeProject.codeHistory) : false;
+    const canRedo = activeProject ? canRedoHistory(activeProject.codeHistory) : false;
     
     useEffect(() => {
         const fetchSuggestions = async () => {
-            if (activeProject && currentFiles.length > 0 && session?.user?.user_metadata?.gemini_api_key) {
+            if (activeProject && currentFiles.length > 0 && isAiConfigured) {
                 setIsGeneratingSuggestions(true);
                 setSuggestions([]);
                 try {
@@ -192,26 +306,11 @@ const App: React.FC = () => {
         };
     
         fetchSuggestions();
-    }, [activeProject, activeProject?.codeHistory.currentIndex, session]);
+    }, [activeProject, activeProject?.codeHistory.currentIndex, isAiConfigured]);
     
+    // Effect to trigger a pending action after the AI settings have been successfully saved and the session has been updated.
     useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            if (event.data && event.data.type === 'elementSelected') {
-                const { selector, html } = event.data.payload;
-                setSelectedElement({ selector, html });
-                setIsSelectionModeActive(false); 
-            }
-        };
-
-        window.addEventListener('message', handleMessage);
-        return () => {
-            window.removeEventListener('message', handleMessage);
-        };
-    }, []);
-
-    // Effect to trigger a pending action after the API key has been successfully saved and the session has been updated.
-    useEffect(() => {
-        if (pendingAction && session?.user?.user_metadata?.gemini_api_key) {
+        if (pendingAction && isAiConfigured) {
             const runAction = async () => {
                 setIsSettingsModalOpen(false);
                 await pendingAction();
@@ -219,68 +318,147 @@ const App: React.FC = () => {
             }
             runAction();
         }
-    }, [session, pendingAction]);
+    }, [isAiConfigured, pendingAction]);
+
 
+    const handleConsoleEntry = useCallback((entry: PreviewConsoleEntry) => {
+        setConsoleEntries(prev => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+    }, []);
 
-    const handleToggleSelectionMode = () => setIsSelectionModeActive(prev => !prev);
+    const handleElementsSelected = useCallback((elements: SelectedElement[], isDone: boolean) => {
+        setSelectedElements(elements);
+        if (isDone) setIsSelectionModeActive(false);
+    }, []);
+
+    const handlePreviewPageLoad = useCallback(() => {
+        previewLoadCountRef.current++;
+        consoleEntriesRef.current = [];
+        setConsoleEntries([]);
+    }, []);
+
+    const consoleErrorCount = consoleEntries.filter(e => e.level === 'error').length;
+
+    // Selecting, annotating and editing work on a single preview.
+    const handleComparingDevicesChange = (isComparing: boolean) => {
+        if (isComparing) {
+            setIsSelectionModeActive(false);
+            closeAnnotationMode();
+            closeVisualEditMode();
+        }
+        setIsComparingDevices(isComparing);
+    };
+
+    const handleToggleSelectionMode = () => {
+        setIsSelectionModeActive(prev => !prev);
+        setIsComparingDevices(false);
+        closeAnnotationMode();
+        closeVisualEditMode();
+    };
+
+    const closeAnnotationMode = () => {
+        setIsAnnotationModeActive(false);
+        setSelectedAnnotation(null);
+    };
+
+    const handleToggleAnnotationMode = () => {
+        if (isAnnotationModeActive) {
+            closeAnnotationMode();
+        } else {
+            setIsSelectionModeActive(false);
+            setIsComparingDevices(false);
+            closeVisualEditMode();
+            setIsAnnotationModeActive(true);
+        }
+    };
+
+    // Annotations belong to the version they were drawn on and stay with it when newer versions are made.
+    const handleAnnotationsChange = (annotations: Annotation[]) => {
+        if (!activeProject) return;
+        const projectId = activeProject.id;
+        const versionIndex = activeProject.codeHistory.currentIndex;
+        setProjects(prevProjects => prevProjects.map(p => p.id === projectId
+            ? { ...p, annotations: { ...p.annotations, [versionIndex]: annotations } }
+            : p));
+        persistChange(store => store.setAnnotations(projectId, versionIndex, annotations));
+    };
+
+    // Shows the selected annotation's style in the palette, so picking another colour or size restyles it.
+    const handleAnnotationSelectionChange = (annotation: Annotation | null) => {
+        setSelectedAnnotation(annotation);
+        if (annotation) {
+            setAnnotationColor(annotation.color);
+            setAnnotationSize(annotation.size);
+        }
+    };
+
+    // The preview as it looks now with the annotations drawn over it, as an image attachment.
+    const captureAnnotatedPreview = async (): Promise<globalThis.File | null> => {
+        let background: HTMLCanvasElement | null = null;
+        try {
+            background = await livePreviewRef.current?.capture() ?? null;
+        } catch (e) {
+            // Send the annotations on their own rather than nothing.
+            console.error("Failed to capture the preview:", e);
+        }
+        const image = await annotationCanvasRef.current?.exportImage(background);
+        return image ? new globalThis.File([image], 'annotated-preview.png', { type: 'image/png' }) : null;
+    };
     
     const handleStartWizard = (name: string, prompt: string, prefill?: WizardPrefillData) => setWizardData({ name, prompt, prefill });
 
     const handleCancelWizard = () => setWizardData(null);
     
     const checkApiKey = useCallback((action: () => Promise<void>): boolean => {
-        const apiKey = session?.user?.user_metadata?.gemini_api_key;
-        if (!apiKey) {
+        if (!isAiConfigured) {
             setIsApiKeyRequired(true);
             setPendingAction(() => action); // Store the action
             setIsSettingsModalOpen(true);
             return false;
         }
         return true;
-    }, [session]);
+    }, [isAiConfigured]);
 
-    const handleCreateProject = useCallback(async (name: string, finalPrompt: string) => {
-        if (!session) return;
+    const handleCreateProject = useCallback(async (name: string, finalPrompt: string, { target, styling, designTokens }: ProjectSetup) => {
+        if (!session || !projectStore) return;
 
         const action = async () => {
-            setIsLoading(true);
             setError(null);
-            setActiveTab('preview');
-            
+            setProjectBeingCreated({ name, target, styling });
+
+            if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+            timerIntervalRef.current = window.setInterval(() => setGenerationStatus(prev => ({ ...prev, timer: prev.timer + 1 })), 1000);
+
             try {
-                const result = await generateWebApp(finalPrompt);
-                const newEntry: HistoryEntry = { files: result.files, prompt: finalPrompt, timestamp: Date.now() };
-                
-                const newProjectData = {
+                setGenerationStatus({ stage: 'thinking', message: 'Thinking...', timer: 0 });
+                // The plan and each file are shown as they stream in, as for edits.
+                const result = await generateWebAppStream(finalPrompt, undefined, [], { ...createStreamCallbacks(), target, styling });
+                if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+                setGenerationStatus(prev => ({ ...prev, stage: 'applying', message: 'Creating project...' }));
+
+                const files = designTokens ? applyDesignTokens(result.files, designTokens, target) : result.files;
+                const newEntry: HistoryEntry = { files, prompt: finalPrompt, timestamp: Date.now() };
+
+                const newProject = await projectStore!.create({
                     name,
-                    initial_prompt: finalPrompt,
-                    code_history: { history: [newEntry], currentIndex: 0 },
-                    discussion_history: [],
-                    user_id: session.user.id
-                };
-
-                const { data, error } = await supabase.from('projects').insert(newProjectData).select().single();
-
-                if (error) throw error;
-                
-                const newProject: Project = {
-                    id: data.id,
-                    name: data.name,
-                    initialPrompt: data.initial_prompt,
-                    codeHistory: data.code_history,
-                    discussionHistory: data.discussion_history,
-                    userId: data.user_id,
-                    createdAt: data.created_at,
-                };
+                    initialPrompt: finalPrompt,
+                    codeHistory: createCodeHistory(newEntry),
+                    discussionHistory: [],
+                    target,
+                    styling,
+                });
 
                 setProjects(prev => [newProject, ...prev]);
                 setActiveProjectId(newProject.id);
                 setProjectsSidebarOpen(false);
+                setActiveTab('preview');
             } catch (e: any) {
                 console.error(e);
                 setError(`Failed to create project: ${e.message}`);
             } finally {
-                setIsLoading(false);
+                if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+                setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
+                setAiTargetFiles(undefined);
+                setProjectBeingCreated(null);
                 setWizardData(null);
             }
         };
@@ -288,130 +466,137 @@ const App: React.FC = () => {
         if (checkApiKey(action)) {
             await action();
         }
-    }, [session, checkApiKey]);
+    }, [session, projectStore, checkApiKey]);
     
-    const updateProjectInDb = async (project: Project) => {
-        const { id, ...updateData } = project;
-        const dbPayload = {
-            name: updateData.name,
-            initial_prompt: updateData.initialPrompt,
-            code_history: updateData.codeHistory,
-            discussion_history: updateData.discussionHistory,
-        };
-        const { error } = await supabase.from('projects').update(dbPayload).eq('id', id);
-        if (error) {
-            console.error('Error updating project:', error);
-            setError('Failed to save changes. Please check your connection.');
+    // Saves locally; the store uploads the change in the background and reports progress through syncStatus.
+    const persistChange = async (change: (store: ProjectStore) => Promise<void>) => {
+        if (!projectStore) return;
+        try {
+            await change(projectStore);
+        } catch (e) {
+            console.error('Error updating project:', e);
+            setError('Failed to save changes in this browser. Your storage may be full.');
         }
     };
 
-    const handleFileAnimationStart = useCallback((path: string, index: number, total: number) => {
-        setGenerationStatus(prev => ({
-            ...prev,
-            stage: 'editing',
-            message: `Editing ${path}`,
-            filesBeingEdited: { current: index, total: total }
-        }));
-    }, []);
+    // Adds a version to a project's history and makes it current.
+    const commitVersion = async (project: Project, entry: HistoryEntry) => {
+        const codeHistory = addVersion(project.codeHistory, entry);
+        setProjects(prevProjects => prevProjects.map(p => p.id === project.id ? { ...p, codeHistory } : p));
+        await persistChange(store => store.appendVersion(project.id, codeHistory.history[codeHistory.currentIndex]));
+    };
 
-    // FIX: Updated `handleAnimationComplete` to accept `animatedFiles` as an argument.
-    // This makes the data flow more explicit and avoids potential stale state issues.
-    const handleAnimationComplete = useCallback((animatedFiles: File[]) => {
-        if (!activeProject || !animatedFiles) return;
-
-        const runAsync = async () => {
-            setGenerationStatus(prev => ({ ...prev, stage: 'applying', message: 'Applying changes...' }));
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            const lastPrompt = activeProject.codeHistory.history[activeProject.codeHistory.currentIndex]?.prompt || "AI edit";
-            const newEntry: HistoryEntry = { files: animatedFiles, prompt: lastPrompt, timestamp: Date.now() };
-    
-            const updatedProject = { ...activeProject };
-            const newHistory = updatedProject.codeHistory.history.slice(0, updatedProject.codeHistory.currentIndex + 1);
-            newHistory.push(newEntry);
-            updatedProject.codeHistory = {
-                history: newHistory,
-                currentIndex: newHistory.length - 1,
-            };
-    
-            setProjects(prevProjects => prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p));
-            await updateProjectInDb(updatedProject);
-            
-            setSelectedElement(null);
-            setAiTargetFiles(undefined);
-    
-            setGenerationStatus(prev => ({ ...prev, stage: 'reloading', message: 'Reloading preview...' }));
-            await new Promise(resolve => setTimeout(resolve, 500));
-            setActiveTab('preview');
-            livePreviewRef.current?.reload();
-            
-            await new Promise(resolve => setTimeout(resolve, 500));
-            setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
+    const applyGeneratedFiles = useCallback(async (generatedFiles: File[], prompt: string) => {
+        // Read through the ref, since this may run several times in a row without a re-render in between.
+        const activeProject = activeProjectRef.current;
+        if (!activeProject) return;
+
+        setGenerationStatus(prev => ({ ...prev, stage: 'applying', message: 'Applying changes...' }));
+        await new Promise(resolve => setTimeout(resolve, 500));
+
+        await commitVersion(activeProject, { files: generatedFiles, prompt, timestamp: Date.now() });
+
+        setSelectedElements([]);
+        setAiTargetFiles(undefined);
+
+        setGenerationStatus(prev => ({ ...prev, stage: 'reloading', message: 'Reloading preview...' }));
+        await new Promise(resolve => setTimeout(resolve, 500));
+        setActiveTab('preview');
+        livePreviewRef.current?.reload();
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+        setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
+    }, [projectStore]);
+
+    // Shows the plan and each file in the editor as they stream in.
+    const createStreamCallbacks = (): GenerationOptions => {
+        const streamedFiles: File[] = [];
+        return {
+            onPlan: (plan) => {
+                if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+                setGenerationStatus(prev => ({
+                    ...prev,
+                    stage: 'editing',
+                    message: 'Preparing to edit files...',
+                    plan,
+                    filesBeingEdited: { current: 0 },
+                }));
+                setActiveTab('code');
+                setAiTargetFiles([]);
+            },
+            onFile: (file) => {
+                streamedFiles.push(file);
+                setAiTargetFiles([...streamedFiles]);
+                setGenerationStatus(prev => ({
+                    ...prev,
+                    stage: 'editing',
+                    message: `Wrote ${file.path}`,
+                    filesBeingEdited: { current: streamedFiles.length },
+                }));
+            },
         };
+    };
 
-        runAsync();
-    }, [activeProject]);
+    // Asks about the project as the next turn of its discussion; the answer streams into the discussion view.
+    const handleDiscuss = useCallback(async (prompt: string) => {
+        if (generationStatus.stage !== 'idle' || !prompt || !activeProject) return;
 
-    const handleGenerate = useCallback(async (prompt: string, attachments: globalThis.File[] = []) => {
+        const action = async () => {
+            setError(null);
+            setGenerationStatus({ stage: 'thinking', message: 'Thinking...', timer: 0 });
+            setPendingDiscussion({ question: prompt, answer: '' });
+            try {
+                const answer = await discussCode(prompt, currentFiles, activeProject.discussionHistory || [], text => {
+                    setPendingDiscussion({ question: prompt, answer: text });
+                });
+                const messages = [
+                    { role: 'user' as const, content: prompt },
+                    { role: 'model' as const, content: answer },
+                ];
+
+                setProjects(prevProjects => prevProjects.map(p => p.id === activeProject.id
+                    ? { ...p, discussionHistory: [...(p.discussionHistory || []), ...messages] }
+                    : p));
+                await persistChange(store => store.appendMessages(activeProject.id, messages));
+            } catch (e: any) {
+                console.error(e);
+                setError(`Failed to get a response: ${e.message}`);
+            } finally {
+                setPendingDiscussion(null);
+                setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
+            }
+        };
+
+        if (checkApiKey(action)) {
+            await action();
+        }
+    }, [generationStatus.stage, activeProject, currentFiles, checkApiKey]);
+
+    // `historyPrompt` is what the version is labelled with in the history, when it differs from the prompt sent.
+    // `assets` are added to the project before the AI sees it, so it can use them by path; `assetPaths` maps the attachments they came from to them.
+    const handleEdit = useCallback(async (prompt: string, attachments: globalThis.File[] = [], historyPrompt: string = prompt, assets: File[] = [], assetPaths?: Map<globalThis.File, string>) => {
         if (generationStatus.stage !== 'idle' || !prompt || !activeProject) return;
 
         const action = async () => {
             setError(null);
 
-            if (isDiscussModeActive) {
-                setGenerationStatus({ stage: 'thinking', message: 'Thinking...', timer: 0 });
-                try {
-                    const answer = await discussCode(prompt, currentFiles);
-                    const userMessage = { role: 'user' as const, content: prompt };
-                    const modelMessage = { role: 'model' as const, content: answer };
-
-                    const updatedProject = { ...activeProject };
-                    const newDiscussionHistory = [...(updatedProject.discussionHistory || []), userMessage, modelMessage];
-                    updatedProject.discussionHistory = newDiscussionHistory;
-
-                    setProjects(prevProjects => prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p));
-                    await updateProjectInDb(updatedProject);
-                } catch (e: any) {
-                    console.error(e);
-                    setError(`Failed to get a response: ${e.message}`);
-                } finally {
-                    setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
-                }
-                return;
-            }
-            
             if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
             timerIntervalRef.current = window.setInterval(() => setGenerationStatus(prev => ({ ...prev, timer: prev.timer + 1 })), 1000);
 
             try {
                 setGenerationStatus({ stage: 'thinking', message: 'Thinking...', timer: 0 });
 
-                let finalPrompt = prompt;
-                if (selectedElement) {
-                    finalPrompt = `The user has selected a specific element on the page to modify.
-- CSS Selector: \`${selectedElement.selector}\`
-- Element HTML: \`\`\`html\n${selectedElement.html}\n\`\`\`
-
-With this context, apply the following change: "${prompt}"`;
-                }
+                const elementPrompt = selectedElements.length > 0 ? createElementEditPrompt(prompt, selectedElements) : prompt;
+                const finalPrompt = elementPrompt + createAssetPrompt(assets.map(asset => asset.path));
+                const baseFiles = addAssets(currentFiles, assets);
 
-                const result: GenerationResult = await generateWebApp(finalPrompt, isEditing ? currentFiles : undefined, attachments);
+                // Files arrive one at a time from the stream; the editor shows each as soon as it is complete.
+                const result = await generateWebAppStream(finalPrompt, baseFiles.length > 0 ? baseFiles : undefined, attachments, { ...createStreamCallbacks(), target: activeProject.target, styling: activeProject.styling, assetPaths });
                 if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
-                
-                setGenerationStatus(prev => ({
-                    ...prev,
-                    stage: 'editing',
-                    message: 'Preparing to edit files...',
-                    plan: result.plan,
-                    timer: prev.timer,
-                    filesBeingEdited: { current: 0, total: result.files.length }
-                }));
-                
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                
-                setActiveTab('code');
-                setAiTargetFiles(result.files);
 
+                // The new assets are kept even if the AI left them out of a full rewrite.
+                const missingAssets = assets.filter(asset => !result.files.some(file => file.path === asset.path));
+                await applyGeneratedFiles([...result.files, ...missingAssets], historyPrompt);
             } catch (e: any) {
                 console.error(e);
                 setError(`Failed to generate: ${e.message}`);
@@ -424,111 +609,257 @@ With this context, apply the following change: "${prompt}"`;
         if (checkApiKey(action)) {
             await action();
         }
-    }, [generationStatus.stage, activeProject, currentFiles, isEditing, selectedElement, isDiscussModeActive, checkApiKey]);
+    }, [generationStatus.stage, activeProject, currentFiles, selectedElements, checkApiKey, applyGeneratedFiles]);
+
+    /**
+     * Attached images, fonts and media become project assets the AI refers to by path. Images are also still sent
+     * as images, since they may be there as a reference (a screenshot or mockup) as much as to be used.
+     */
+    const readAttachedAssets = async (attachments: globalThis.File[]): Promise<{ assets: File[]; assetPaths: Map<globalThis.File, string>; sentAttachments: globalThis.File[] }> => {
+        const assets: File[] = [];
+        const assetPaths = new Map<globalThis.File, string>();
+        for (const attachment of attachments.filter(a => isAssetPath(a.name))) {
+            const asset = await readUploadedFile(getUniqueAssetPath(attachment.name, [...currentFiles, ...assets]), attachment);
+            assets.push(asset);
+            assetPaths.set(attachment, asset.path);
+        }
+        const sentAttachments = attachments.filter(a => !isAssetPath(a.name) || a.type.startsWith('image/'));
+        return { assets, assetPaths, sentAttachments };
+    };
+
+    const handleGenerate = async (prompt: string, attachments: globalThis.File[] = []) => {
+        if (isDiscussModeActive) return handleDiscuss(prompt);
+        if (generationStatus.stage !== 'idle') return;
+        const { assets, assetPaths, sentAttachments } = await readAttachedAssets(attachments);
+        if (isAnnotationModeActive && currentAnnotations.length > 0) {
+            const sketch = await captureAnnotatedPreview();
+            if (sketch) {
+                closeAnnotationMode();
+                return handleEdit(createAnnotatedEditPrompt(prompt, sketch.name), [...sentAttachments, sketch], prompt, assets, assetPaths);
+            }
+        }
+        return handleEdit(prompt, sentAttachments, prompt, assets, assetPaths);
+    };
+
+    // Applies what a discussion answer concluded, using the question it answered for context.
+    const handleTurnIntoEdit = (messageIndex: number) => {
+        const discussion = activeProject?.discussionHistory || [];
+        const answer = discussion[messageIndex];
+        const question = discussion.slice(0, messageIndex).reverse().find(message => message.role === 'user');
+        if (!answer || answer.role !== 'model') return;
+
+        const label = question ? question.content : answer.content;
+        setIsDiscussModeActive(false);
+        handleEdit(
+            createEditPromptFromDiscussion(question?.content || '', answer.content),
+            [],
+            `From discussion: ${label.length > 80 ? `${label.slice(0, 80)}...` : label}`,
+        );
+    };
+
+    const handleOpenFile = (path: string, startLine?: number, endLine?: number) => {
+        setActiveTab('code');
+        setFileToOpen({ path, startLine, endLine });
+    };
+
+    // Resolves once the preview has loaded again since `loadCount` and has had time to report errors.
+    const waitForPreviewToSettle = async (loadCount: number) => {
+        const deadline = Date.now() + PREVIEW_LOAD_TIMEOUT_MS;
+        while (previewLoadCountRef.current <= loadCount && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        await new Promise(resolve => setTimeout(resolve, PREVIEW_SETTLE_MS));
+    };
+
+    // Sends the preview's errors to the AI, applies the fix as a new version and repeats until the console is clean.
+    const handleFixErrors = useCallback(async () => {
+        if (generationStatus.stage !== 'idle' || !activeProject) return;
+
+        const action = async () => {
+            setError(null);
+            setIsConsoleOpen(true);
+
+            try {
+                for (let attempt = 1; attempt <= MAX_FIX_ATTEMPTS; attempt++) {
+                    const errors = consoleEntriesRef.current.filter(e => e.level === 'error');
+                    const project = activeProjectRef.current;
+                    if (errors.length === 0 || !project) return;
+                    const files = project.codeHistory.history[project.codeHistory.currentIndex]?.files || [];
+
+                    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+                    timerIntervalRef.current = window.setInterval(() => setGenerationStatus(prev => ({ ...prev, timer: prev.timer + 1 })), 1000);
+                    setGenerationStatus({ stage: 'thinking', message: `Fixing errors (attempt ${attempt} of ${MAX_FIX_ATTEMPTS})...`, timer: 0 });
 
-    const handleFilesChange = useCallback(async (newFiles: File[]) => {
+                    const result = await fixRuntimeErrors(errors, files, { ...createStreamCallbacks(), target: project.target, styling: project.styling });
+                    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+
+                    const loadCount = previewLoadCountRef.current;
+                    const firstError = errors[0].message.split('\n')[0];
+                    await applyGeneratedFiles(result.files, `Fix with AI: ${firstError.length > 80 ? `${firstError.slice(0, 80)}...` : firstError}`);
+
+                    setGenerationStatus({ stage: 'reloading', message: 'Checking the preview for errors...', timer: 0 });
+                    await waitForPreviewToSettle(loadCount);
+                }
+
+                if (consoleEntriesRef.current.some(e => e.level === 'error')) {
+                    setError(`Some errors remain after ${MAX_FIX_ATTEMPTS} attempts to fix them. Check the console for details.`);
+                }
+            } catch (e: any) {
+                console.error(e);
+                setError(`Failed to fix errors: ${e.message}`);
+                setAiTargetFiles(undefined);
+            } finally {
+                if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+                setGenerationStatus({ stage: 'idle', message: '', timer: 0 });
+            }
+        };
+
+        if (checkApiKey(action)) {
+            await action();
+        }
+    }, [generationStatus.stage, activeProject, checkApiKey, applyGeneratedFiles]);
+
+    const handleFilesChange = useCallback(async (newFiles: File[], description: string = "Manual code edit") => {
         if (!activeProject) return;
         
-        const updatedProject = { ...activeProject };
-        const newHistory = updatedProject.codeHistory.history.slice(0, updatedProject.codeHistory.currentIndex + 1);
-        const newEntry: HistoryEntry = {
+        await commitVersion(activeProject, {
             files: newFiles,
-            prompt: "Manual code edit",
+            prompt: description,
             timestamp: Date.now()
-        };
-        newHistory.push(newEntry);
-        updatedProject.codeHistory = {
-            history: newHistory,
-            currentIndex: newHistory.length - 1,
-        };
-        setProjects(prevProjects => prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p));
-        await updateProjectInDb(updatedProject);
+        });
     }, [activeProject]);
 
-    const handleRestoreVersion = useCallback(async (indexToRestore: number) => {
-        if (!activeProject) return;
-        const versionToRestore = activeProject.codeHistory.history[indexToRestore];
-        if (!versionToRestore) return;
+    const handleVisualEdit = useCallback((edit: VisualEdit) => {
+        setPendingVisualEdits(prev => mergeVisualEdit(prev, edit));
+    }, []);
+
+    // The style is shown in the preview straight away and written to the files when the edits are saved.
+    const handleVisualEditStyle = (property: VisualEditProperty, value: string) => {
+        if (!visualEditTarget) return;
+        livePreviewRef.current?.setVisualEditStyle(property, value);
+        handleVisualEdit({ source: visualEditTarget.source, styles: { [property]: value } });
+    };
 
-        const newEntry: HistoryEntry = {
-            files: versionToRestore.files,
-            prompt: `Restored from version created at ${new Date(versionToRestore.timestamp).toLocaleTimeString()}`,
+    const saveVisualEdits = async () => {
+        if (!activeProject || pendingVisualEdits.length === 0) return;
+        const files = applyVisualEdits(currentFiles, pendingVisualEdits);
+        setPendingVisualEdits([]);
+        setVisualEditTarget(null);
+        await commitVersion(activeProject, {
+            files,
+            prompt: "Manual edit in the preview",
             timestamp: Date.now()
-        };
-        
-        const updatedProject = { ...activeProject };
-        const newHistory = updatedProject.codeHistory.history.slice(0, updatedProject.codeHistory.currentIndex + 1);
-        newHistory.push(newEntry);
-        updatedProject.codeHistory = { history: newHistory, currentIndex: newHistory.length - 1 };
-
-        setProjects(prevProjects => prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p));
-        await updateProjectInDb(updatedProject);
-        setHistorySidebarOpen(false);
-    }, [activeProject]);
-    
-    const updateCurrentIndex = async (newIndex: number) => {
+        });
+    };
+
+    const discardVisualEdits = () => {
+        setPendingVisualEdits([]);
+        setVisualEditTarget(null);
+        livePreviewRef.current?.reload();
+    };
+
+    const closeVisualEditMode = () => {
+        if (!isVisualEditActive) return;
+        saveVisualEdits();
+        setIsVisualEditActive(false);
+        setVisualEditTarget(null);
+    };
+
+    const handleToggleVisualEdit = () => {
+        if (isVisualEditActive) {
+            closeVisualEditMode();
+        } else {
+            setIsSelectionModeActive(false);
+            setIsComparingDevices(false);
+            closeAnnotationMode();
+            setIsVisualEditActive(true);
+        }
+    };
+
+    // Pending edits refer to elements of the version they were made on, and the preview reloads without them.
+    useEffect(() => {
+        setPendingVisualEdits([]);
+        setVisualEditTarget(null);
+    }, [activeProject?.id, activeProject?.codeHistory.currentIndex]);
+
+    // The preview is unmounted on the code tab, so edits made in it are saved on the way out.
+    useEffect(() => {
+        if (activeTab !== 'preview') closeVisualEditMode();
+    }, [activeTab]);
+
+    // Undo, redo and switching versions leave the versions as they are, so only the head is saved.
+    const moveHead = async (codeHistory: Project['codeHistory']) => {
         if (!activeProject) return;
-        const updatedProject = { ...activeProject, codeHistory: { ...activeProject.codeHistory, currentIndex: newIndex } };
-        setProjects(prevProjects => prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p));
-        await updateProjectInDb(updatedProject);
+        setProjects(prevProjects => prevProjects.map(p => p.id === activeProject.id ? { ...p, codeHistory } : p));
+        await persistChange(store => store.moveHead(activeProject.id, getHead(codeHistory)));
     };
 
+    // Versions are never discarded, so switching to one keeps every other branch available.
+    const handleSwitchVersion = useCallback(async (index: number) => {
+        if (!activeProject || index === activeProject.codeHistory.currentIndex) return;
+        await moveHead(checkoutVersion(activeProject.codeHistory, index));
+    }, [activeProject]);
+
+    // Saves a partial revert from the diff viewer as a new version, and keeps comparing against it if the current version was shown.
+    const handleRevertFromVersion = useCallback(async (files: File[], description: string) => {
+        if (!activeProject) return;
+        const newIndex = activeProject.codeHistory.history.length;
+        setVersionComparison(prev => prev && prev.compareIndex === activeProject.codeHistory.currentIndex
+            ? { ...prev, compareIndex: newIndex }
+            : prev);
+        await commitVersion(activeProject, { files, prompt: description, timestamp: Date.now() });
+    }, [activeProject]);
+
     const handleUndo = useCallback(() => {
-        if (canUndo && activeProject) updateCurrentIndex(activeProject.codeHistory.currentIndex - 1);
+        if (canUndo && activeProject) moveHead(undo(activeProject.codeHistory));
     }, [canUndo, activeProject]);
 
     const handleRedo = useCallback(() => {
-        if (canRedo && activeProject) updateCurrentIndex(activeProject.codeHistory.currentIndex + 1);
+        if (canRedo && activeProject) moveHead(redo(activeProject.codeHistory));
     }, [canRedo, activeProject]);
 
     const handleSelectProject = (projectId: string) => {
         setActiveProjectId(projectId);
         setProjectsSidebarOpen(false);
         setSidebarHovered(false);
-        setSelectedElement(null);
+        setSelectedElements([]);
         setIsSelectionModeActive(false);
         setIsDiscussModeActive(false);
+        setVersionComparison(null);
+        setFileToOpen(null);
+        closeAnnotationMode();
     };
 
     const handleCreateNewApp = () => setActiveProjectId(null);
 
     const handleRenameProject = useCallback(async (projectId: string, newName: string) => {
-        const { error } = await supabase.from('projects').update({ name: newName }).eq('id', projectId);
-        if (error) {
-            console.error("Error renaming project:", error);
-            setError(`Failed to rename project: ${error.message}`);
-        } else {
+        const project = projects.find(p => p.id === projectId);
+        if (!project || !projectStore) return;
+        try {
+            await projectStore.rename(projectId, newName);
             setProjects(prevProjects => prevProjects.map(p => p.id === projectId ? { ...p, name: newName } : p));
+        } catch (e: any) {
+            console.error("Error renaming project:", e);
+            setError(`Failed to rename project: ${e.message}`);
         }
-    }, []);
+    }, [projects, projectStore]);
 
     const handleCloneProject = useCallback(async (projectId: string) => {
-        if (!session) return;
+        if (!projectStore) return;
         const projectToClone = projects.find(p => p.id === projectId);
         if (!projectToClone) return;
 
         setIsLoading(true);
         try {
             const newName = `${projectToClone.name} (Copy)`;
-            const newProjectData = {
+            const newProject = await projectStore.create({
                 name: newName,
-                initial_prompt: projectToClone.initialPrompt,
-                code_history: projectToClone.codeHistory,
-                discussion_history: projectToClone.discussionHistory || [],
-                user_id: session.user.id
-            };
-            const { data, error } = await supabase.from('projects').insert(newProjectData).select().single();
-            if (error) throw error;
-
-            const newProject: Project = {
-                id: data.id,
-                name: data.name,
-                initialPrompt: data.initial_prompt,
-                codeHistory: data.code_history,
-                discussionHistory: data.discussion_history,
-                userId: data.user_id,
-                createdAt: data.created_at,
-            };
+                initialPrompt: projectToClone.initialPrompt,
+                codeHistory: projectToClone.codeHistory,
+                discussionHistory: projectToClone.discussionHistory || [],
+                target: projectToClone.target,
+                styling: projectToClone.styling,
+            });
             setProjects(prev => [newProject, ...prev]);
             setActiveProjectId(newProject.id);
         } catch (e: any) {
@@ -536,29 +867,82 @@ With this context, apply the following change: "${prompt}"`;
         } finally {
             setIsLoading(false);
         }
-    }, [projects, session]);
+    }, [projects, projectStore]);
+
+    const handleImportProject = useCallback(async (zipFile: globalThis.File) => {
+        if (!projectStore) return;
+
+        setIsLoading(true);
+        try {
+            const files = await readProjectZip(zipFile);
+            if (files.length === 0) {
+                throw new Error('The ZIP file does not contain any files.');
+            }
+
+            const name = zipFile.name.replace(/\.zip$/i, '') || 'Imported Project';
+            const prompt = `Imported from ${zipFile.name}`;
+            const newEntry: HistoryEntry = { files, prompt, timestamp: Date.now() };
+            const newProject = await projectStore.create({
+                name,
+                initialPrompt: prompt,
+                codeHistory: createCodeHistory(newEntry),
+                discussionHistory: [],
+                target: detectProjectTarget(files),
+                styling: detectProjectStyling(files),
+            });
+            setProjects(prev => [newProject, ...prev]);
+            setActiveProjectId(newProject.id);
+            setProjectsSidebarOpen(false);
+        } catch (e: any) {
+            console.error(e);
+            setError(`Failed to import project: ${e.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [projectStore]);
 
     const handleDeleteProject = useCallback(async () => {
-        if (!projectToDelete || !session) return;
+        if (!projectToDelete || !projectStore) return;
         const projectToDeleteId = projectToDelete.id;
 
         setIsLoading(true);
-        const { error } = await supabase.from('projects').delete().eq('id', projectToDeleteId);
-        
-        if (error) {
-            console.error('Error deleting project:', error);
-            setError('Failed to delete project.');
-        } else {
+        try {
+            await projectStore.remove(projectToDeleteId);
             const remainingProjects = projects.filter(p => p.id !== projectToDeleteId);
             setProjects(remainingProjects);
             if (activeProjectId === projectToDeleteId) {
                 setActiveProjectId(remainingProjects.length > 0 ? remainingProjects[0].id : null);
             }
+        } catch (e) {
+            console.error('Error deleting project:', e);
+            setError('Failed to delete project.');
         }
         setProjectToDelete(null);
         setIsLoading(false);
 
-    }, [projectToDelete, activeProjectId, projects, session]);
+    }, [projectToDelete, activeProjectId, projects, projectStore]);
+
+    const handleResolveConflict = useCallback(async (projectId: string, keep: 'local' | 'remote') => {
+        if (!projectStore) return;
+        try {
+            const resolvedProject = await projectStore.resolveConflict(projectId, keep);
+            if (resolvedProject) {
+                setProjects(prevProjects => prevProjects.map(p => p.id === projectId ? resolvedProject : p));
+            }
+        } catch (e: any) {
+            console.error('Error resolving sync conflict:', e);
+            setError(`Failed to resolve the sync conflict: ${e.message}`);
+        }
+    }, [projectStore]);
+
+    // Without a backend, user metadata lives in localStorage and the session is updated by hand.
+    const updateUserMetadata = async (data: Record<string, any>) => {
+        if (!isBackendEnabled) {
+            setSession(updateLocalUserMetadata(data));
+            return { error: null };
+        }
+        return supabase.auth.updateUser({ data });
+    };
     
     const startDragging = useCallback((e: React.MouseEvent) => {
         e.preventDefault();
@@ -598,24 +982,24 @@ With this context, apply the following change: "${prompt}"`;
         };
     }, [isDragging, onDrag, stopDragging]);
 
-    const handleSaveApiKey = async (apiKey: string) => {
+    const handleSaveSettings = async (settings: ProviderSettings) => {
         if (!session) return;
-        setIsSavingApiKey(true);
+        setIsSavingSettings(true);
         
-        const { error } = await supabase.auth.updateUser({
-            data: { 
-                gemini_api_key: apiKey,
-                has_seen_api_key_prompt: true 
-            }
+        const { error } = await updateUserMetadata({
+            ...toUserMetadata(settings),
+            has_seen_api_key_prompt: true 
         });
     
         if (error) {
-            setError(`Failed to save API key: ${error.message}`);
+            setError(`Failed to save settings: ${error.message}`);
             // If save fails, clear pending action so user isn't stuck
             setPendingAction(null);
+        } else if (!pendingAction) {
+            setIsSettingsModalOpen(false);
         }
         // On success, the onAuthStateChange listener and the useEffect for pendingAction will handle the next steps.
-        setIsSavingApiKey(false);
+        setIsSavingSettings(false);
     };
 
     const handleCloseSettingsModal = async (skipped: boolean) => {
@@ -624,9 +1008,7 @@ With this context, apply the following change: "${prompt}"`;
         setPendingAction(null);
         // If the user explicitly skips the initial prompt, mark it as seen.
         if (skipped && session && !session.user.user_metadata.has_seen_api_key_prompt) {
-            await supabase.auth.updateUser({
-                data: { has_seen_api_key_prompt: true }
-            });
+            await updateUserMetadata({ has_seen_api_key_prompt: true });
              // onAuthStateChange will trigger session update.
         }
     };
@@ -645,13 +1027,41 @@ With this context, apply the following change: "${prompt}"`;
         <SettingsModal
             isOpen={isSettingsModalOpen}
             onClose={handleCloseSettingsModal}
-            onSave={handleSaveApiKey}
-            currentApiKey={session?.user?.user_metadata?.gemini_api_key || null}
+            onSave={handleSaveSettings}
+            currentSettings={providerSettings}
             isSkippable={!isApiKeyRequired}
-            isLoading={isSavingApiKey}
+            isLoading={isSavingSettings}
         />
     );
 
+    if (projectBeingCreated) {
+        return (
+            <div className="flex h-screen bg-gray-100 dark:bg-zinc-900 overflow-hidden">
+                <div className="w-96 flex-shrink-0 flex flex-col border-r border-gray-200 dark:border-zinc-700">
+                    <h2 className="flex-shrink-0 p-4 lg:p-6 text-lg font-semibold text-gray-900 dark:text-zinc-100 truncate">Creating {projectBeingCreated.name}</h2>
+                    <div className="flex-grow min-h-0">
+                        <GenerationStatusView status={generationStatus} />
+                    </div>
+                </div>
+                <div className="flex-grow min-w-0 flex flex-col">
+                    <CodeDisplay
+                        files={[]}
+                        projectName={projectBeingCreated.name}
+                        target={projectBeingCreated.target}
+                        styling={projectBeingCreated.styling}
+                        onFilesChange={() => {}}
+                        onUndo={() => {}}
+                        onRedo={() => {}}
+                        canUndo={false}
+                        canRedo={false}
+                        aiTargetFiles={aiTargetFiles}
+                        fileToOpen={null}
+                    />
+                </div>
+            </div>
+        );
+    }
+
     if (wizardData) {
         return (
             <>
@@ -690,6 +1100,39 @@ With this context, apply the following change: "${prompt}"`;
         return <LoadingOverlay isVisible={true} />;
     }
 
+    const previewSize = getViewportSize(previewViewport);
+    const comparedDevices = DEVICE_PRESETS.filter(device => comparedDeviceIds.includes(device.id));
+    const previewPane = (
+        <div className="w-full h-full bg-white relative">
+            <LivePreview
+                ref={livePreviewRef}
+                files={currentFiles}
+                target={activeProject.target}
+                styling={activeProject.styling}
+                isSelectionModeActive={isSelectionModeActive}
+                isVisualEditActive={isVisualEditActive}
+                onConsoleEntry={handleConsoleEntry}
+                onElementsSelected={handleElementsSelected}
+                onPageLoad={handlePreviewPageLoad}
+                onVisualEditSelect={setVisualEditTarget}
+                onVisualEdit={handleVisualEdit}
+                onCompileErrors={setCompileErrors}
+            />
+            {isAnnotationModeActive && (
+                <AnnotationCanvas
+                    key={`${activeProject.id}:${activeProject.codeHistory.currentIndex}`}
+                    ref={annotationCanvasRef}
+                    annotations={currentAnnotations}
+                    onChange={handleAnnotationsChange}
+                    tool={annotationTool}
+                    color={annotationColor}
+                    size={annotationSize}
+                    onSelectionChange={handleAnnotationSelectionChange}
+                />
+            )}
+        </div>
+    );
+
     return (
         <div className="flex h-screen flex-col bg-gray-100 dark:bg-zinc-900 overflow-hidden relative">
             {renderSettingsModal()}
@@ -702,6 +1145,9 @@ With this context, apply the following change: "${prompt}"`;
                 onSetProjectToDelete={() => setProjectToDelete(activeProject)}
                 onOpenSettings={() => { setIsApiKeyRequired(false); setIsSettingsModalOpen(true); }}
                 userEmail={session.user.email}
+                syncStatus={syncStatus}
+                onRetrySync={() => projectStore?.sync()}
+                onResolveConflict={handleResolveConflict}
             />
             <main className="flex flex-grow overflow-hidden relative">
                 <ProjectsSidebar
@@ -714,6 +1160,7 @@ With this context, apply the following change: "${prompt}"`;
                     onRenameProject={handleRenameProject}
                     onSetProjectToDelete={setProjectToDelete}
                     onCloneProject={handleCloneProject}
+                    onImportProject={handleImportProject}
                     onMouseLeave={() => isSidebarHovered && setProjectsSidebarOpen(false)}
                 />
                 <div ref={mainRef} className="flex flex-grow overflow-hidden">
@@ -727,11 +1174,16 @@ With this context, apply the following change: "${prompt}"`;
                             suggestions={suggestions}
                             isGeneratingSuggestions={isGeneratingSuggestions}
                             onDismissSuggestions={() => setSuggestions([])}
-                            selectedElement={selectedElement}
-                            onClearSelection={() => setSelectedElement(null)}
+                            selectedElements={selectedElements}
+                            onClearSelection={() => setSelectedElements([])}
                             isDiscussModeActive={isDiscussModeActive}
                             onToggleDiscussMode={() => setIsDiscussModeActive(prev => !prev)}
                             discussionHistory={activeProject.discussionHistory || []}
+                            pendingDiscussion={pendingDiscussion}
+                            onTurnIntoEdit={handleTurnIntoEdit}
+                            annotationCount={isAnnotationModeActive ? currentAnnotations.length : 0}
+                            filePaths={currentFilePaths}
+                            onOpenFile={handleOpenFile}
                             generationStatus={generationStatus}
                         />
                     </div>
@@ -744,34 +1196,133 @@ With this context, apply the following change: "${prompt}"`;
                              <div className="flex items-center gap-1">
                                 <button onClick={() => setActiveTab('preview')} className={`px-3 py-1 text-sm font-medium rounded-md ${activeTab === 'preview' ? 'bg-white dark:bg-zinc-700' : 'hover:bg-gray-300 dark:hover:bg-zinc-700/50'}`}>Preview</button>
                                 <button onClick={() => setActiveTab('code')} className={`px-3 py-1 text-sm font-medium rounded-md ${activeTab === 'code' ? 'bg-white dark:bg-zinc-700' : 'hover:bg-gray-300 dark:hover:bg-zinc-700/50'}`}>Code</button>
+                                <button onClick={() => setActiveTab('assets')} className={`px-3 py-1 text-sm font-medium rounded-md ${activeTab === 'assets' ? 'bg-white dark:bg-zinc-700' : 'hover:bg-gray-300 dark:hover:bg-zinc-700/50'}`}>Assets</button>
                             </div>
                             <div className="flex items-center gap-2">
+                                <button onClick={() => setIsConsoleOpen(prev => !prev)} className={`relative p-1.5 rounded-md ${isConsoleOpen ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100' : 'text-gray-500 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 hover:bg-gray-300 dark:hover:bg-zinc-700'}`} aria-label="Toggle console">
+                                    <TerminalIcon className="w-4 h-4" />
+                                    {consoleErrorCount > 0 && (
+                                        <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">{consoleErrorCount > 99 ? '99+' : consoleErrorCount}</span>
+                                    )}
+                                </button>
                                 <button onClick={() => livePreviewRef.current?.reload()} className="p-1.5 text-gray-500 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 rounded-md hover:bg-gray-300 dark:hover:bg-zinc-700" aria-label="Reload preview"><ReloadIcon className="w-4 h-4" /></button>
-                                <DeviceSelector selectedDevice={previewDevice} onSelectDevice={setPreviewDevice} />
+                                <DeviceSelector
+                                    viewport={previewViewport}
+                                    onViewportChange={setPreviewViewport}
+                                    isZoomToFit={isZoomToFit}
+                                    onZoomToFitChange={setIsZoomToFit}
+                                    isComparing={isComparingDevices}
+                                    onComparingChange={handleComparingDevicesChange}
+                                    comparedDeviceIds={comparedDeviceIds}
+                                    onComparedDeviceIdsChange={setComparedDeviceIds}
+                                />
                                 <button onClick={handleToggleSelectionMode} className={`flex items-center gap-1.5 p-1.5 text-sm rounded-md ${isSelectionModeActive ? 'bg-blue-600 text-white' : 'text-gray-500 dark:text-zinc-400 hover:bg-gray-300 dark:hover:bg-zinc-700'}`} aria-label="Select element"><CursorClickIcon className="w-4 h-4" /></button>
+                                <button onClick={handleToggleAnnotationMode} className={`flex items-center gap-1.5 p-1.5 text-sm rounded-md ${isAnnotationModeActive ? 'bg-blue-600 text-white' : 'text-gray-500 dark:text-zinc-400 hover:bg-gray-300 dark:hover:bg-zinc-700'}`} aria-label="Annotate preview" title="Draw and add notes on the preview">
+                                    <PenToolIcon className="w-4 h-4" />
+                                    {!isAnnotationModeActive && currentAnnotations.length > 0 && (
+                                        <span className="min-w-[1rem] h-4 px-1 rounded-full bg-blue-600 text-white text-[10px] leading-4 text-center" title="Annotations on this version">{currentAnnotations.length}</span>
+                                    )}
+                                </button>
+                                <button onClick={handleToggleVisualEdit} className={`flex items-center gap-1.5 p-1.5 text-sm rounded-md ${isVisualEditActive ? 'bg-blue-600 text-white' : 'text-gray-500 dark:text-zinc-400 hover:bg-gray-300 dark:hover:bg-zinc-700'}`} aria-label="Edit visually" title="Edit text and styles directly in the preview">
+                                    <PencilIcon className="w-4 h-4" />
+                                </button>
                                 <button onClick={() => previewContainerRef.current?.requestFullscreen()} className="p-1.5 text-gray-500 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 rounded-md hover:bg-gray-300 dark:hover:bg-zinc-700" aria-label="Fullscreen preview"><FullScreenIcon className="w-4 h-4" /></button>
                             </div>
                         </div>
 
-                        <div className="flex-grow overflow-hidden bg-white dark:bg-zinc-900">
+                        <div className="flex-grow overflow-hidden bg-white dark:bg-zinc-900 flex flex-col">
                             {activeTab === 'code' && (
                                 <CodeDisplay 
                                     files={currentFiles}
+                                    projectName={activeProject.name}
+                                    target={activeProject.target}
+                                    styling={activeProject.styling}
                                     onFilesChange={handleFilesChange}
                                     onUndo={handleUndo}
                                     onRedo={handleRedo}
                                     canUndo={canUndo}
                                     canRedo={canRedo}
                                     aiTargetFiles={aiTargetFiles}
-                                    onAnimationStart={handleFileAnimationStart}
-                                    onAnimationComplete={handleAnimationComplete}
+                                    fileToOpen={fileToOpen}
+                                />
+                            )}
+                            {activeTab === 'assets' && (
+                                <AssetPanel
+                                    files={currentFiles}
+                                    onFilesChange={handleFilesChange}
+                                    onOpenFile={handleOpenFile}
+                                    isReadOnly={generationStatus.stage !== 'idle'}
                                 />
                             )}
                             {activeTab === 'preview' && (
-                                <div ref={previewContainerRef} className={`mx-auto h-full transition-all duration-300 ${previewDevice === 'mobile' ? 'w-[375px]' : previewDevice === 'tablet' ? 'w-[768px]' : 'w-full'} bg-white shadow-lg`}>
-                                    <LivePreview ref={livePreviewRef} files={currentFiles} isSelectionModeActive={isSelectionModeActive} />
+                                <div ref={previewContainerRef} className="flex-grow min-h-0 relative bg-white dark:bg-zinc-900">
+                                    {isComparingDevices ? (
+                                        <DeviceFrames
+                                            isZoomToFit={isZoomToFit}
+                                            frames={comparedDevices.map((device, index) => {
+                                                const size = getViewportSize(createViewport(device, previewViewport.isRotated))!;
+                                                return {
+                                                    key: device.id,
+                                                    label: `${device.name} · ${size.width}×${size.height}`,
+                                                    ...size,
+                                                    // The first preview stands in for the others wherever the app talks to "the" preview.
+                                                    content: (
+                                                        <LivePreview
+                                                            ref={index === 0 ? livePreviewRef : undefined}
+                                                            files={currentFiles}
+                                                            target={activeProject.target}
+                                                            styling={activeProject.styling}
+                                                            isSelectionModeActive={false}
+                                                            onConsoleEntry={index === 0 ? handleConsoleEntry : undefined}
+                                                            onPageLoad={index === 0 ? handlePreviewPageLoad : undefined}
+                                                            onCompileErrors={index === 0 ? setCompileErrors : undefined}
+                                                        />
+                                                    ),
+                                                };
+                                            })}
+                                        />
+                                    ) : previewSize ? (
+                                        <DeviceFrames isZoomToFit={isZoomToFit} frames={[{ key: 'device', ...previewSize, content: previewPane }]} />
+                                    ) : (
+                                        previewPane
+                                    )}
+                                    {compileErrors.length > 0 && <CompileErrors errors={compileErrors} onOpenFile={handleOpenFile} />}
+                                    {isVisualEditActive && (
+                                        <StyleInspector
+                                            target={visualEditTarget}
+                                            pendingCount={pendingVisualEdits.length}
+                                            onStyleChange={handleVisualEditStyle}
+                                            onSave={saveVisualEdits}
+                                            onDiscard={discardVisualEdits}
+                                            onClose={closeVisualEditMode}
+                                        />
+                                    )}
+                                    {isAnnotationModeActive && (
+                                        <AnnotationToolbar
+                                            tool={annotationTool}
+                                            color={annotationColor}
+                                            size={annotationSize}
+                                            hasSelection={!!selectedAnnotation}
+                                            onClose={closeAnnotationMode}
+                                            onUndo={() => annotationCanvasRef.current?.undo()}
+                                            onClear={() => annotationCanvasRef.current?.clear()}
+                                            onDeleteSelected={() => annotationCanvasRef.current?.deleteSelected()}
+                                            onToolSelect={setAnnotationTool}
+                                            onColorSelect={setAnnotationColor}
+                                            onSizeSelect={setAnnotationSize}
+                                        />
+                                    )}
                                 </div>
                             )}
+                            {activeTab === 'preview' && isConsoleOpen && (
+                                <PreviewConsole
+                                    entries={consoleEntries}
+                                    onClear={() => setConsoleEntries([])}
+                                    onClose={() => setIsConsoleOpen(false)}
+                                    onFixErrors={handleFixErrors}
+                                    isFixing={generationStatus.stage !== 'idle'}
+                                />
+                            )}
                         </div>
                     </div>
                 </div>
@@ -779,11 +1330,21 @@ With this context, apply the following change: "${prompt}"`;
                 <HistorySidebar
                     isOpen={isHistorySidebarOpen}
                     onClose={() => setHistorySidebarOpen(false)}
-                    history={activeProject.codeHistory.history}
-                    currentIndex={activeProject.codeHistory.currentIndex}
-                    onRestore={handleRestoreVersion}
+                    codeHistory={activeProject.codeHistory}
+                    onSwitchVersion={handleSwitchVersion}
+                    onCompareVersions={(baseIndex, compareIndex) => setVersionComparison({ baseIndex, compareIndex })}
                 />
 
+                {versionComparison && (
+                    <VersionDiffModal
+                        codeHistory={activeProject.codeHistory}
+                        baseIndex={versionComparison.baseIndex}
+                        compareIndex={versionComparison.compareIndex}
+                        onClose={() => setVersionComparison(null)}
+                        onRevert={handleRevertFromVersion}
+                    />
+                )}
+
                 {projectToDelete && (
                     <DeleteConfirmationModal
                         isOpen={!!projectToDelete}
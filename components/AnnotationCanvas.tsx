@@ -1,48 +1,155 @@
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
-
-export type AnnotationTool = 'pen' | 'text' | 'move';
-type Point = { x: number; y: number };
-
-interface Path {
-    type: 'path';
-    points: Point[];
-    color: string;
-    id: number;
-}
-
-interface Text {
-    type: 'text';
-    content: string;
-    position: Point;
-    color: string;
-    id: number;
-}
-
-type AnnotationObject = Path | Text;
+import {
+    Annotation,
+    AnnotationTool,
+    Point,
+    TextAnnotation,
+    createAnnotationId,
+    findAnnotationAt,
+    findHandleAt,
+    getFontSize,
+    getHandles,
+    isDegenerate,
+    moveAnnotation,
+    moveHandle,
+} from '../services/annotations';
 
 interface AnnotationCanvasProps {
+    // The annotations of the version shown in the preview. Every finished edit is reported through `onChange`.
+    annotations: Annotation[];
+    onChange: (annotations: Annotation[]) => void;
     tool: AnnotationTool;
     color: string;
+    size: number;
+    // Called when a different annotation is selected, so the palette can show its colour and size.
+    onSelectionChange?: (annotation: Annotation | null) => void;
 }
 
 export interface AnnotationCanvasHandle {
     undo: () => void;
     clear: () => void;
+    deleteSelected: () => void;
+    // Draws the annotations over `background` (stretched to the canvas size) and returns the result as a PNG.
+    exportImage: (background: HTMLCanvasElement | null) => Promise<Blob | null>;
 }
 
-const HIT_TOLERANCE = 10;
+// What the mouse is doing between mousedown and mouseup.
+type Interaction =
+    | { kind: 'draw' }
+    | { kind: 'move'; original: Annotation; origin: Point }
+    | { kind: 'reshape'; original: Annotation; handleIndex: number };
+
+const SELECTION_COLOR = '#3B82F6';
+const HIGHLIGHT_OPACITY = 0.3;
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = annotation.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (annotation.type) {
+        case 'path':
+            ctx.beginPath();
+            annotation.points.forEach((point, index) => {
+                if (index === 0) ctx.moveTo(point.x, point.y);
+                else ctx.lineTo(point.x, point.y);
+            });
+            ctx.stroke();
+            break;
+        case 'rect':
+            ctx.strokeRect(annotation.start.x, annotation.start.y, annotation.end.x - annotation.start.x, annotation.end.y - annotation.start.y);
+            break;
+        case 'highlight':
+            ctx.globalAlpha = HIGHLIGHT_OPACITY;
+            ctx.fillRect(annotation.start.x, annotation.start.y, annotation.end.x - annotation.start.x, annotation.end.y - annotation.start.y);
+            break;
+        case 'arrow': {
+            const { start, end } = annotation;
+            const angle = Math.atan2(end.y - start.y, end.x - start.x);
+            const headLength = 10 + annotation.size * 2;
+            ctx.beginPath();
+            ctx.moveTo(start.x, start.y);
+            ctx.lineTo(end.x, end.y);
+            ctx.moveTo(end.x - headLength * Math.cos(angle - Math.PI / 6), end.y - headLength * Math.sin(angle - Math.PI / 6));
+            ctx.lineTo(end.x, end.y);
+            ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 6), end.y - headLength * Math.sin(angle + Math.PI / 6));
+            ctx.stroke();
+            break;
+        }
+        case 'text':
+            ctx.font = `${getFontSize(annotation)}px sans-serif`;
+            ctx.fillText(annotation.content, annotation.position.x, annotation.position.y);
+            break;
+    }
+    ctx.restore();
+};
+
+const measureText = (ctx: CanvasRenderingContext2D, annotation: TextAnnotation): number => {
+    ctx.save();
+    ctx.font = `${getFontSize(annotation)}px sans-serif`;
+    const width = ctx.measureText(annotation.content).width;
+    ctx.restore();
+    return width;
+};
+
+const getBounds = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    let points: Point[];
+    if (annotation.type === 'path') {
+        points = annotation.points;
+    } else if (annotation.type === 'text') {
+        const { x, y } = annotation.position;
+        points = [{ x, y: y - getFontSize(annotation) }, { x: x + measureText(ctx, annotation), y }];
+    } else {
+        points = [annotation.start, annotation.end];
+    }
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const padding = annotation.size / 2 + 4;
+    return {
+        x: Math.min(...xs) - padding,
+        y: Math.min(...ys) - padding,
+        width: Math.max(...xs) - Math.min(...xs) + padding * 2,
+        height: Math.max(...ys) - Math.min(...ys) + padding * 2,
+    };
+};
+
+const drawSelection = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    const bounds = getBounds(ctx, annotation);
+    ctx.save();
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#FFFFFF';
+    getHandles(annotation).forEach(handle => {
+        ctx.fillRect(handle.x - 4, handle.y - 4, 8, 8);
+        ctx.strokeRect(handle.x - 4, handle.y - 4, 8, 8);
+    });
+    ctx.restore();
+};
+
+const isTyping = (target: EventTarget | null) =>
+    target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
 
 export const AnnotationCanvas = forwardRef<AnnotationCanvasHandle, AnnotationCanvasProps>(
-    ({ tool, color }, ref) => {
+    ({ annotations, onChange, tool, color, size, onSelectionChange }, ref) => {
         const canvasRef = useRef<HTMLCanvasElement>(null);
-        const [history, setHistory] = useState<AnnotationObject[]>([]);
-        const [isDrawing, setIsDrawing] = useState(false);
-        const [textInput, setTextInput] = useState<{ value: string; position: Point } | null>(null);
+        const [selectedId, setSelectedId] = useState<string | null>(null);
+        // Text being typed, either for a new note or replacing the content of `editingId`.
+        const [textInput, setTextInput] = useState<{ value: string; position: Point; editingId?: string } | null>(null);
 
-        const currentPathRef = useRef<Path | null>(null);
-        const movingObjectRef = useRef<{ object: Text; offset: Point } | null>(null);
+        // The annotation being drawn, moved or reshaped. It is drawn in place of the stored one until mouseup.
+        const draftRef = useRef<Annotation | null>(null);
+        const interactionRef = useRef<Interaction | null>(null);
         const textInputRef = useRef<HTMLInputElement>(null);
-        const nextId = useRef(0);
+        // Earlier states of this version's annotations, for undo.
+        const undoStackRef = useRef<Annotation[][]>([]);
+
+        const selected = annotations.find(a => a.id === selectedId) ?? null;
 
         // --- Drawing Logic ---
 
@@ -51,169 +158,241 @@ export const AnnotationCanvas = forwardRef<AnnotationCanvasHandle, AnnotationCan
             return canvas ? canvas.getContext('2d') : null;
         }, []);
 
-        const drawObject = useCallback((ctx: CanvasRenderingContext2D, obj: AnnotationObject | null) => {
-            if (!obj) return;
-
-            if (obj.type === 'path') {
-                ctx.beginPath();
-                ctx.strokeStyle = obj.color;
-                ctx.lineWidth = 3;
-                ctx.lineCap = 'round';
-                ctx.lineJoin = 'round';
-                obj.points.forEach((point, index) => {
-                    if (index === 0) ctx.moveTo(point.x, point.y);
-                    else ctx.lineTo(point.x, point.y);
-                });
-                ctx.stroke();
-            } else if (obj.type === 'text') {
-                ctx.fillStyle = obj.color;
-                ctx.font = '16px sans-serif';
-                ctx.fillText(obj.content, obj.position.x, obj.position.y);
-            }
-        }, []);
-
         const redrawCanvas = useCallback(() => {
             const canvas = canvasRef.current;
             const ctx = getCanvasContext();
             if (!canvas || !ctx) return;
 
             ctx.clearRect(0, 0, canvas.width, canvas.height);
-            history.forEach(obj => drawObject(ctx, obj));
-        }, [history, getCanvasContext, drawObject]);
+            const draft = draftRef.current;
+            annotations.forEach(annotation => {
+                if (annotation.id === draft?.id || annotation.id === textInput?.editingId) return;
+                drawAnnotation(ctx, annotation);
+            });
+            if (draft) drawAnnotation(ctx, draft);
 
+            const shownSelection = draft?.id === selectedId ? draft : selected;
+            if (shownSelection && shownSelection.id !== textInput?.editingId) drawSelection(ctx, shownSelection);
+        }, [annotations, selected, selectedId, textInput, getCanvasContext]);
+
+        // The canvas covers its parent, so annotations line up with whatever the parent shows.
         useEffect(() => {
             const canvas = canvasRef.current;
+            const container = canvas?.parentElement;
+            if (!canvas || !container) return;
             const handleResize = () => {
-                if (canvas) {
-                    canvas.width = window.innerWidth;
-                    canvas.height = window.innerHeight;
-                    redrawCanvas();
-                }
+                canvas.width = container.clientWidth;
+                canvas.height = container.clientHeight;
+                redrawCanvas();
             };
-            window.addEventListener('resize', handleResize);
+            const observer = new ResizeObserver(handleResize);
+            observer.observe(container);
             handleResize();
-            return () => window.removeEventListener('resize', handleResize);
+            return () => observer.disconnect();
         }, [redrawCanvas]);
-        
-        useEffect(() => {
-            redrawCanvas();
-        }, [history, redrawCanvas]);
 
         useEffect(() => {
             if (textInput && textInputRef.current) {
                 textInputRef.current.focus();
             }
-        }, [textInput]);
+        }, [textInput?.position]);
 
+        useEffect(() => {
+            onSelectionChange?.(selected);
+        }, [selectedId]);
 
-        // --- Event Handlers ---
+        // --- Editing ---
 
-        const findTextAtPosition = useCallback((pos: Point): Text | null => {
-            const ctx = getCanvasContext();
-            if (!ctx) return null;
-            for (let i = history.length - 1; i >= 0; i--) {
-                const obj = history[i];
-                if (obj.type === 'text') {
-                    ctx.font = '16px sans-serif';
-                    const metrics = ctx.measureText(obj.content);
-                    if (
-                        pos.x >= obj.position.x - HIT_TOLERANCE &&
-                        pos.x <= obj.position.x + metrics.width + HIT_TOLERANCE &&
-                        pos.y >= obj.position.y - 16 - HIT_TOLERANCE &&
-                        pos.y <= obj.position.y + HIT_TOLERANCE
-                    ) {
-                        return obj;
-                    }
-                }
+        const commit = useCallback((next: Annotation[]) => {
+            undoStackRef.current.push(annotations);
+            onChange(next);
+        }, [annotations, onChange]);
+
+        const replace = useCallback((updated: Annotation) => {
+            commit(annotations.map(a => a.id === updated.id ? updated : a));
+        }, [annotations, commit]);
+
+        const deleteSelected = useCallback(() => {
+            if (!selectedId) return;
+            commit(annotations.filter(a => a.id !== selectedId));
+            setSelectedId(null);
+        }, [annotations, selectedId, commit]);
+
+        // Only the select tool works on existing annotations.
+        useEffect(() => {
+            if (tool !== 'select') setSelectedId(null);
+        }, [tool]);
+
+        // Picking a colour or size while an annotation is selected restyles it.
+        useEffect(() => {
+            if (selected && (selected.color !== color || selected.size !== size)) {
+                replace({ ...selected, color, size });
             }
-            return null;
-        }, [history, getCanvasContext]);
-        
+        }, [color, size]);
+
+        useEffect(() => {
+            const handleKeyDown = (e: KeyboardEvent) => {
+                if (isTyping(e.target)) return;
+                if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+                    e.preventDefault();
+                    deleteSelected();
+                } else if (e.key === 'Escape') {
+                    setSelectedId(null);
+                }
+            };
+            window.addEventListener('keydown', handleKeyDown);
+            return () => window.removeEventListener('keydown', handleKeyDown);
+        }, [selectedId, deleteSelected]);
+
+        useEffect(() => {
+            redrawCanvas();
+        }, [redrawCanvas]);
+
+        const startEditingText = (annotation: TextAnnotation) => {
+            setSelectedId(annotation.id);
+            setTextInput({ value: annotation.content, position: annotation.position, editingId: annotation.id });
+        };
+
         const handleTextInputSubmit = useCallback(() => {
-            if (textInput && textInput.value.trim()) {
-                setHistory(prev => [...prev, {
-                    type: 'text',
-                    content: textInput.value,
-                    position: textInput.position,
-                    color: color,
-                    id: nextId.current++,
-                }]);
+            if (!textInput) return;
+            const content = textInput.value.trim();
+            const existing = annotations.find(a => a.id === textInput.editingId);
+            if (existing?.type === 'text') {
+                if (!content) {
+                    commit(annotations.filter(a => a.id !== existing.id));
+                    setSelectedId(null);
+                } else if (content !== existing.content) {
+                    replace({ ...existing, content });
+                }
+            } else if (content) {
+                commit([...annotations, { type: 'text', id: createAnnotationId(), content, position: textInput.position, color, size }]);
             }
             setTextInput(null);
-        }, [textInput, color]);
+        }, [textInput, annotations, color, size, commit, replace]);
+
+        // --- Event Handlers ---
 
-        const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-            const { clientX: x, clientY: y } = e;
+        const getPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            // The preview may be zoomed out to fit a device, so screen pixels are converted back to the page's.
+            const scale = rect.width ? e.currentTarget.offsetWidth / rect.width : 1;
+            return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale };
+        };
+
+        const findAt = (point: Point): Annotation | null => {
+            const ctx = getCanvasContext();
+            return ctx ? findAnnotationAt(annotations, point, annotation => measureText(ctx, annotation)) : null;
+        };
+
+        const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+            const point = getPoint(e);
 
             if (textInput) {
                 handleTextInputSubmit();
                 return;
             }
 
-            if (tool === 'pen') {
-                setIsDrawing(true);
-                currentPathRef.current = { type: 'path', points: [{ x, y }], color, id: nextId.current++ };
+            if (tool === 'select') {
+                const handleIndex = selected ? findHandleAt(selected, point) : -1;
+                if (selected && handleIndex !== -1) {
+                    interactionRef.current = { kind: 'reshape', original: selected, handleIndex };
+                    return;
+                }
+                const hit = findAt(point);
+                setSelectedId(hit?.id ?? null);
+                if (hit) interactionRef.current = { kind: 'move', original: hit, origin: point };
             } else if (tool === 'text') {
-                setTextInput({ value: '', position: { x, y } });
-            } else if (tool === 'move') {
-                const textObject = findTextAtPosition({ x, y });
-                if (textObject) {
-                    setIsDrawing(true);
-                    movingObjectRef.current = {
-                        object: textObject,
-                        offset: { x: x - textObject.position.x, y: y - textObject.position.y },
-                    };
-                    // Temporarily remove from history so it doesn't get drawn twice
-                    setHistory(prev => prev.filter(obj => obj.id !== textObject.id));
+                const hit = findAt(point);
+                if (hit?.type === 'text') {
+                    startEditingText(hit);
+                } else {
+                    setSelectedId(null);
+                    setTextInput({ value: '', position: point });
                 }
+            } else {
+                setSelectedId(null);
+                interactionRef.current = { kind: 'draw' };
+                draftRef.current = tool === 'pen'
+                    ? { type: 'path', id: createAnnotationId(), points: [point], color, size }
+                    : { type: tool, id: createAnnotationId(), start: point, end: point, color, size };
             }
-        }, [tool, color, textInput, findTextAtPosition, handleTextInputSubmit]);
+        };
 
-        const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-            if (!isDrawing) return;
-            const { clientX: x, clientY: y } = e;
-            const ctx = getCanvasContext();
-            if (!ctx) return;
-
-            redrawCanvas(); // Redraw the stable history first
+        const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+            const interaction = interactionRef.current;
+            if (!interaction) return;
+            const point = getPoint(e);
+            const draft = draftRef.current;
 
-            if (tool === 'pen' && currentPathRef.current) {
-                currentPathRef.current.points.push({ x, y });
-                drawObject(ctx, currentPathRef.current);
-            } else if (tool === 'move' && movingObjectRef.current) {
-                const newPosition = { x: x - movingObjectRef.current.offset.x, y: y - movingObjectRef.current.offset.y };
-                drawObject(ctx, { ...movingObjectRef.current.object, position: newPosition });
+            if (interaction.kind === 'draw' && draft) {
+                draftRef.current = draft.type === 'path'
+                    ? { ...draft, points: [...draft.points, point] }
+                    : draft.type === 'text' ? draft : { ...draft, end: point };
+            } else if (interaction.kind === 'move') {
+                draftRef.current = moveAnnotation(interaction.original, point.x - interaction.origin.x, point.y - interaction.origin.y);
+            } else if (interaction.kind === 'reshape') {
+                draftRef.current = moveHandle(interaction.original, interaction.handleIndex, point);
             }
-        }, [isDrawing, tool, getCanvasContext, redrawCanvas, drawObject]);
-
-        const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-            if (!isDrawing) return;
-            setIsDrawing(false);
-
-            if (tool === 'pen' && currentPathRef.current && currentPathRef.current.points.length > 1) {
-                setHistory(prev => [...prev, currentPathRef.current!]);
-            } else if (tool === 'move' && movingObjectRef.current) {
-                const { clientX: x, clientY: y } = e;
-                const finalPosition = { x: x - movingObjectRef.current.offset.x, y: y - movingObjectRef.current.offset.y };
-                setHistory(prev => [...prev, { ...movingObjectRef.current!.object, position: finalPosition }]);
+            redrawCanvas();
+        };
+
+        const handleMouseUp = () => {
+            const interaction = interactionRef.current;
+            const draft = draftRef.current;
+            interactionRef.current = null;
+            draftRef.current = null;
+            if (!interaction || !draft) return;
+
+            if (interaction.kind === 'draw') {
+                if (!isDegenerate(draft)) commit([...annotations, draft]);
+            } else if (!isDegenerate(draft)) {
+                replace(draft);
             }
-            
-            currentPathRef.current = null;
-            movingObjectRef.current = null;
             redrawCanvas();
-        }, [isDrawing, tool, redrawCanvas]);
+        };
+
+        const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+            if (tool !== 'select') return;
+            const hit = findAt(getPoint(e));
+            if (hit?.type === 'text') startEditingText(hit);
+        };
 
         useImperativeHandle(ref, () => ({
-            undo: () => setHistory(prev => prev.slice(0, -1)),
-            clear: () => setHistory([]),
+            undo: () => {
+                const previous = undoStackRef.current.pop();
+                if (previous) onChange(previous);
+            },
+            clear: () => {
+                if (annotations.length > 0) commit([]);
+                setSelectedId(null);
+            },
+            deleteSelected,
+            exportImage: (background) => new Promise(resolve => {
+                const canvas = canvasRef.current;
+                if (!canvas) return resolve(null);
+                const output = document.createElement('canvas');
+                output.width = canvas.width;
+                output.height = canvas.height;
+                const ctx = output.getContext('2d');
+                if (!ctx) return resolve(null);
+                if (background) ctx.drawImage(background, 0, 0, output.width, output.height);
+                annotations.forEach(annotation => drawAnnotation(ctx, annotation));
+                output.toBlob(resolve, 'image/png');
+            }),
         }));
 
         const cursorStyle = {
+            select: 'default',
             pen: 'crosshair',
+            rect: 'crosshair',
+            arrow: 'crosshair',
+            highlight: 'crosshair',
             text: 'text',
-            move: 'move',
         }[tool];
 
+        const textColor = textInput?.editingId ? (selected?.color ?? color) : color;
+        const textSize = textInput?.editingId ? (selected?.size ?? size) : size;
+
         return (
             <>
                 <canvas
@@ -222,7 +401,8 @@ export const AnnotationCanvas = forwardRef<AnnotationCanvasHandle, AnnotationCan
                     onMouseMove={handleMouseMove}
                     onMouseUp={handleMouseUp}
                     onMouseLeave={handleMouseUp}
-                    className="fixed inset-0 z-[10000]"
+                    onDoubleClick={handleDoubleClick}
+                    className="absolute inset-0 z-10"
                     style={{ cursor: cursorStyle }}
                 />
                 {textInput && (
@@ -232,9 +412,17 @@ export const AnnotationCanvas = forwardRef<AnnotationCanvasHandle, AnnotationCan
                         value={textInput.value}
                         onChange={(e) => setTextInput(prev => prev ? { ...prev, value: e.target.value } : null)}
                         onBlur={handleTextInputSubmit}
-                        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleTextInputSubmit(); } }}
-                        className="annotation-text-input"
-                        style={{ left: textInput.position.x, top: textInput.position.y - 20, color: color }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') { e.preventDefault(); handleTextInputSubmit(); }
+                            else if (e.key === 'Escape') setTextInput(null);
+                        }}
+                        className="absolute z-20 min-w-[8rem] bg-transparent border-b border-current outline-none font-sans"
+                        style={{
+                            left: textInput.position.x,
+                            top: textInput.position.y - getFontSize({ size: textSize }) * 1.25,
+                            color: textColor,
+                            fontSize: getFontSize({ size: textSize }),
+                        }}
                     />
                 )}
             </>
@@ -1,22 +1,39 @@
-import React, { useState } from 'react';
-import { AnnotationTool } from './AnnotationCanvas';
+import React from 'react';
+import { AnnotationTool, ANNOTATION_SIZES } from '../services/annotations';
 import { MoveIcon } from './icons/MoveIcon';
 import { PenToolIcon } from './icons/PenToolIcon';
+import { SquareIcon } from './icons/SquareIcon';
+import { ArrowUpRightIcon } from './icons/ArrowUpRightIcon';
+import { HighlighterIcon } from './icons/HighlighterIcon';
 import { TextPlusIcon } from './icons/TextPlusIcon';
 import { UndoIcon } from './icons/UndoIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { XIcon } from './icons/XIcon';
 
 interface AnnotationToolbarProps {
+    tool: AnnotationTool;
+    color: string;
+    size: number;
+    // Whether an annotation is selected; colour and size changes then apply to it.
+    hasSelection: boolean;
     onClose: () => void;
     onUndo: () => void;
     onClear: () => void;
+    onDeleteSelected: () => void;
     onToolSelect: (tool: AnnotationTool) => void;
     onColorSelect: (color: string) => void;
-    initialTool: AnnotationTool;
-    initialColor: string;
+    onSizeSelect: (size: number) => void;
 }
 
+const tools: Array<{ tool: AnnotationTool; label: string; Icon: React.FC<React.SVGProps<SVGSVGElement>> }> = [
+    { tool: 'select', label: 'Select, move and edit', Icon: MoveIcon },
+    { tool: 'pen', label: 'Pen', Icon: PenToolIcon },
+    { tool: 'rect', label: 'Rectangle', Icon: SquareIcon },
+    { tool: 'arrow', label: 'Arrow', Icon: ArrowUpRightIcon },
+    { tool: 'highlight', label: 'Highlight box', Icon: HighlighterIcon },
+    { tool: 'text', label: 'Text note', Icon: TextPlusIcon },
+];
+
 const colors = [
     { name: 'Red', hex: '#EF4444' },
     { name: 'Blue', hex: '#3B82F6' },
@@ -44,67 +61,70 @@ const ToolButton: React.FC<{
 );
 
 export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+    tool,
+    color,
+    size,
+    hasSelection,
     onClose,
     onUndo,
     onClear,
+    onDeleteSelected,
     onToolSelect,
     onColorSelect,
-    initialTool,
-    initialColor,
+    onSizeSelect,
 }) => {
-    const [activeTool, setActiveTool] = useState<AnnotationTool>(initialTool);
-    const [activeColor, setActiveColor] = useState<string>(initialColor);
-
-    const handleToolSelect = (tool: AnnotationTool) => {
-        setActiveTool(tool);
-        onToolSelect(tool);
-    };
-
-    const handleColorSelect = (color: string) => {
-        setActiveColor(color);
-        onColorSelect(color);
-    };
-
     return (
-        <div 
-            className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-zinc-800/90 backdrop-blur-sm text-white rounded-xl shadow-2xl z-[10001] flex items-center gap-2 p-2 animate-fade-in"
+        <div
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-zinc-800/90 backdrop-blur-sm text-white rounded-xl shadow-2xl z-20 flex items-center gap-2 p-2 animate-fade-in"
             role="toolbar"
             aria-label="Annotation Toolbar"
         >
             <div className="flex items-center gap-1">
-                <ToolButton label="Move Tool" isActive={activeTool === 'move'} onClick={() => handleToolSelect('move')}>
-                    <MoveIcon className="w-5 h-5" />
-                </ToolButton>
-                <ToolButton label="Pen Tool" isActive={activeTool === 'pen'} onClick={() => handleToolSelect('pen')}>
-                    <PenToolIcon className="w-5 h-5" />
-                </ToolButton>
-                <ToolButton label="Text Tool" isActive={activeTool === 'text'} onClick={() => handleToolSelect('text')}>
-                    <TextPlusIcon className="w-5 h-5" />
-                </ToolButton>
+                {tools.map(({ tool: value, label, Icon }) => (
+                    <ToolButton key={value} label={label} isActive={tool === value} onClick={() => onToolSelect(value)}>
+                        <Icon className="w-5 h-5" />
+                    </ToolButton>
+                ))}
             </div>
 
             <div className="h-6 w-px bg-zinc-600 mx-1"></div>
 
             <div className="flex items-center gap-2">
-                {colors.map(color => (
+                {colors.map(option => (
                     <button
-                        key={color.name}
-                        onClick={() => handleColorSelect(color.hex)}
-                        className={`w-6 h-6 rounded-full transition-transform transform hover:scale-110 ${activeColor === color.hex ? 'ring-2 ring-offset-2 ring-offset-zinc-800 ring-white' : ''}`}
-                        style={{ backgroundColor: color.hex }}
-                        aria-label={`Select color ${color.name}`}
-                        title={color.name}
+                        key={option.name}
+                        onClick={() => onColorSelect(option.hex)}
+                        className={`w-6 h-6 rounded-full transition-transform transform hover:scale-110 ${color === option.hex ? 'ring-2 ring-offset-2 ring-offset-zinc-800 ring-white' : ''}`}
+                        style={{ backgroundColor: option.hex }}
+                        aria-label={`Select color ${option.name}`}
+                        title={option.name}
                     />
                 ))}
             </div>
 
             <div className="h-6 w-px bg-zinc-600 mx-1"></div>
 
+            <div className="flex items-center gap-1">
+                {ANNOTATION_SIZES.map(option => (
+                    <ToolButton key={option} label={`Size ${option}`} isActive={size === option} onClick={() => onSizeSelect(option)}>
+                        <span className="w-5 h-5 flex items-center justify-center">
+                            <span className="rounded-full bg-white" style={{ width: option + 2, height: option + 2 }} />
+                        </span>
+                    </ToolButton>
+                ))}
+            </div>
+
+            <div className="h-6 w-px bg-zinc-600 mx-1"></div>
+
             <div className="flex items-center gap-1">
                  <button onClick={onUndo} className="p-2.5 rounded-md hover:bg-zinc-700" title="Undo"><UndoIcon className="w-5 h-5" /></button>
-                 <button onClick={onClear} className="p-2.5 rounded-md hover:bg-zinc-700" title="Clear All"><TrashIcon className="w-5 h-5" /></button>
+                 {hasSelection ? (
+                     <button onClick={onDeleteSelected} className="p-2.5 rounded-md hover:bg-zinc-700" title="Delete Selected"><TrashIcon className="w-5 h-5" /></button>
+                 ) : (
+                     <button onClick={onClear} className="p-2.5 rounded-md hover:bg-zinc-700" title="Clear All"><TrashIcon className="w-5 h-5" /></button>
+                 )}
             </div>
-            
+
             <div className="h-6 w-px bg-zinc-600 mx-1"></div>
 
             <div className="flex items-center">
@@ -112,4 +132,4 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,228 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { File } from '../services/geminiService';
+import { formatFileSize, getBinarySize, isBinaryFile, isFontPath, readUploadedFile } from '../services/binaryFiles';
+import { AssetInfo, addAssets, getAssetPath, getAssets, getAssetUrl, isAssetPath, isImageAsset, replaceAsset } from '../services/assets';
+import { UploadIcon } from './icons/UploadIcon';
+import { ClipboardIcon } from './icons/ClipboardIcon';
+import { CheckIcon } from './icons/CheckIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { ReloadIcon } from './icons/ReloadIcon';
+import { FileCodeIcon } from './icons/FileCodeIcon';
+
+interface AssetPanelProps {
+    files: File[];
+    // Saves the changed files as a new version labelled with `description`.
+    onFilesChange: (files: File[], description: string) => void;
+    onOpenFile: (path: string, startLine?: number, endLine?: number) => void;
+    // Set while the AI is writing files, when the project must not change under it.
+    isReadOnly: boolean;
+}
+
+type AssetFilter = 'all' | 'unused';
+
+// What the file pickers offer; `isAssetPath` decides what is accepted.
+const ASSET_ACCEPT = 'image/*,font/*,audio/*,video/*,.woff,.woff2,.ttf,.otf,.eot,.pdf,.svg';
+
+const getFileName = (path: string): string => path.split('/').pop()!;
+
+const AssetThumbnail: React.FC<{ file: File }> = ({ file }) => {
+    const url = useMemo(() => isImageAsset(file) || isFontPath(file.path) ? getAssetUrl(file) : null, [file]);
+    if (url && isImageAsset(file)) {
+        return <img src={url} alt="" loading="lazy" className="max-w-full max-h-full object-contain" />;
+    }
+    if (url) {
+        // Fonts are drawn in their own face through an @font-face rule scoped to this thumbnail.
+        const family = `asset-${file.path.replace(/[^a-z0-9]/gi, '-')}`;
+        return (
+            <>
+                <style>{`@font-face { font-family: '${family}'; src: url(${url}); }`}</style>
+                <span className="text-4xl text-gray-800 dark:text-zinc-100" style={{ fontFamily: `'${family}', sans-serif` }}>Aa</span>
+            </>
+        );
+    }
+    return (
+        <span className="flex flex-col items-center gap-1 text-gray-400 dark:text-zinc-500">
+            <FileCodeIcon className="w-8 h-8" />
+            <span className="text-xs font-mono uppercase">{file.path.split('.').pop()}</span>
+        </span>
+    );
+};
+
+// The project's images, fonts and media, with where each is used. Files can be dropped anywhere on the panel.
+export const AssetPanel: React.FC<AssetPanelProps> = ({ files, onFilesChange, onOpenFile, isReadOnly }) => {
+    const [filter, setFilter] = useState<AssetFilter>('all');
+    const [isDraggingOver, setIsDraggingOver] = useState(false);
+    const [copiedPath, setCopiedPath] = useState<string | null>(null);
+    const [replacingPath, setReplacingPath] = useState<string | null>(null);
+    const uploadInputRef = useRef<HTMLInputElement>(null);
+    const replaceInputRef = useRef<HTMLInputElement>(null);
+
+    const assets = useMemo(() => getAssets(files), [files]);
+    const unusedAssets = useMemo(() => assets.filter(asset => asset.usages.length === 0), [assets]);
+    const visibleAssets = filter === 'unused' ? unusedAssets : assets;
+
+    const handleUpload = async (uploads: globalThis.File[]) => {
+        if (isReadOnly || uploads.length === 0) return;
+        const accepted = uploads.filter(upload => isAssetPath(upload.name));
+        const rejected = uploads.filter(upload => !isAssetPath(upload.name));
+        if (rejected.length > 0) {
+            alert(`Only images, fonts and media can be added as assets. Skipped: ${rejected.map(upload => upload.name).join(', ')}`);
+        }
+        if (accepted.length === 0) return;
+        const existing = accepted.map(upload => getAssetPath(upload.name)).filter(path => files.some(f => f.path === path));
+        if (existing.length > 0 && !window.confirm(`Replace ${existing.join(', ')}?`)) return;
+        try {
+            const uploaded = await Promise.all(accepted.map(upload => readUploadedFile(getAssetPath(upload.name), upload)));
+            onFilesChange(addAssets(files, uploaded), `Uploaded ${uploaded.map(file => file.path).join(', ')}`);
+        } catch (error) {
+            console.error('Failed to upload assets:', error);
+            alert('Failed to read the selected files. Please try again.');
+        }
+    };
+
+    const handleReplace = async (upload: globalThis.File) => {
+        if (!replacingPath || isReadOnly) return;
+        if (!isAssetPath(upload.name)) {
+            alert(`Only images, fonts and media can replace an asset. Skipped: ${upload.name}`);
+            setReplacingPath(null);
+            return;
+        }
+        try {
+            const replacement = await readUploadedFile(upload.name, upload);
+            onFilesChange(replaceAsset(files, replacingPath, replacement), `Replaced ${replacingPath}`);
+        } catch (error) {
+            console.error('Failed to replace asset:', error);
+            alert('Failed to read the selected file. Please try again.');
+        } finally {
+            setReplacingPath(null);
+        }
+    };
+
+    const handleDelete = ({ file, usages }: AssetInfo) => {
+        const warning = usages.length > 0 ? ` It is still used in ${new Set(usages.map(usage => usage.path)).size} file(s).` : '';
+        if (!window.confirm(`Delete "${file.path}"?${warning}`)) return;
+        onFilesChange(files.filter(f => f.path !== file.path), `Deleted ${file.path}`);
+    };
+
+    const handleDeleteUnused = () => {
+        if (!window.confirm(`Delete ${unusedAssets.length} unused ${unusedAssets.length === 1 ? 'asset' : 'assets'}?`)) return;
+        const unusedPaths = new Set(unusedAssets.map(asset => asset.file.path));
+        onFilesChange(files.filter(f => !unusedPaths.has(f.path)), `Deleted ${unusedPaths.size} unused ${unusedPaths.size === 1 ? 'asset' : 'assets'}`);
+        setFilter('all');
+    };
+
+    const handleCopyPath = (path: string) => {
+        navigator.clipboard.writeText(path);
+        setCopiedPath(path);
+        setTimeout(() => setCopiedPath(current => current === path ? null : current), 1500);
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (isReadOnly || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingOver(true);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingOver(false);
+        handleUpload(Array.from(e.dataTransfer.files));
+    };
+
+    const filterButtonClass = (value: AssetFilter) => `px-2.5 py-1 text-xs font-medium rounded-md ${filter === value ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100' : 'text-gray-600 dark:text-zinc-400 hover:bg-gray-200 dark:hover:bg-zinc-700/50'}`;
+
+    return (
+        <div
+            className="relative flex-grow min-h-0 flex flex-col bg-gray-50 dark:bg-zinc-900"
+            onDragOver={handleDragOver}
+            onDragLeave={e => !e.currentTarget.contains(e.relatedTarget as Node) && setIsDraggingOver(false)}
+            onDrop={handleDrop}
+        >
+            <div className="flex-shrink-0 flex items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-zinc-700">
+                <div className="flex items-center gap-1 p-0.5 rounded-lg bg-gray-100 dark:bg-zinc-800">
+                    <button onClick={() => setFilter('all')} className={filterButtonClass('all')}>All ({assets.length})</button>
+                    <button onClick={() => setFilter('unused')} className={filterButtonClass('unused')}>Unused ({unusedAssets.length})</button>
+                </div>
+                <div className="flex-grow" />
+                {filter === 'unused' && unusedAssets.length > 0 && (
+                    <button onClick={handleDeleteUnused} disabled={isReadOnly} className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/50 disabled:opacity-50">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                        Delete unused
+                    </button>
+                )}
+                <button onClick={() => uploadInputRef.current?.click()} disabled={isReadOnly} className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300 disabled:opacity-50">
+                    <UploadIcon className="w-3.5 h-3.5" />
+                    Upload
+                </button>
+                <input ref={uploadInputRef} type="file" multiple accept={ASSET_ACCEPT} className="hidden" onChange={e => {
+                    const uploads: globalThis.File[] = e.target.files ? Array.from(e.target.files) : [];
+                    e.target.value = '';
+                    handleUpload(uploads);
+                }} />
+                <input ref={replaceInputRef} type="file" accept={ASSET_ACCEPT} className="hidden" onChange={e => {
+                    const upload = e.target.files?.[0];
+                    e.target.value = '';
+                    if (upload) handleReplace(upload);
+                    else setReplacingPath(null);
+                }} />
+            </div>
+
+            <div className="flex-grow min-h-0 overflow-y-auto p-4">
+                {visibleAssets.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center gap-2 text-center text-sm text-gray-500 dark:text-zinc-400">
+                        <UploadIcon className="w-8 h-8" />
+                        {filter === 'unused' ? <p>Every asset is used by the project.</p> : <p>Drop images, fonts or media here to add them to <code>assets/</code>.</p>}
+                    </div>
+                ) : (
+                    <ul className="grid grid-cols-[repeat(auto-fill,minmax(12rem,1fr))] gap-3">
+                        {visibleAssets.map(asset => {
+                            const { file, usages } = asset;
+                            const size = isBinaryFile(file) ? getBinarySize(file) : file.content.length;
+                            return (
+                                <li key={file.path} className="flex flex-col rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 overflow-hidden">
+                                    <div className="h-28 flex items-center justify-center p-2 bg-[repeating-conic-gradient(#f4f4f5_0_25%,#ffffff_0_50%)] dark:bg-[repeating-conic-gradient(#27272a_0_25%,#18181b_0_50%)] bg-[length:16px_16px]">
+                                        <AssetThumbnail file={file} />
+                                    </div>
+                                    <div className="flex flex-col gap-1 p-2 min-w-0 text-xs">
+                                        <p className="font-medium text-sm text-gray-900 dark:text-zinc-100 truncate" title={file.path}>{getFileName(file.path)}</p>
+                                        <p className="text-gray-500 dark:text-zinc-400 truncate" title={file.path}>{file.path} · {formatFileSize(size)}</p>
+                                        {usages.length === 0 ? (
+                                            <span className="self-start px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-950 text-amber-700 dark:text-amber-300">Unused</span>
+                                        ) : (
+                                            <ul className="flex flex-col">
+                                                {usages.map(usage => (
+                                                    <li key={`${usage.path}:${usage.line}`}>
+                                                        <button onClick={() => onOpenFile(usage.path, usage.line, usage.line)} className="font-mono text-gray-600 dark:text-zinc-300 underline decoration-dotted hover:text-gray-900 dark:hover:text-zinc-100 truncate max-w-full" title="Open in editor">
+                                                            {usage.path}:{usage.line}
+                                                        </button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                    <div className="mt-auto flex items-center justify-end gap-1 px-2 pb-2 text-gray-500 dark:text-zinc-400">
+                                        <button onClick={() => handleCopyPath(file.path)} className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-zinc-700" title="Copy path" aria-label={`Copy the path of ${file.path}`}>
+                                            {copiedPath === file.path ? <CheckIcon className="w-4 h-4" /> : <ClipboardIcon className="w-4 h-4" />}
+                                        </button>
+                                        <button onClick={() => { setReplacingPath(file.path); replaceInputRef.current?.click(); }} disabled={isReadOnly} className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-zinc-700 disabled:opacity-50" title="Replace, keeping every reference" aria-label={`Replace ${file.path}`}>
+                                            <ReloadIcon className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => handleDelete(asset)} disabled={isReadOnly} className="p-1.5 rounded-md hover:bg-red-50 dark:hover:bg-red-950/50 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50" title="Delete" aria-label={`Delete ${file.path}`}>
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            {isDraggingOver && (
+                <div className="absolute inset-2 flex items-center justify-center rounded-xl border-2 border-dashed border-blue-500 bg-blue-50/80 dark:bg-blue-950/60 text-blue-700 dark:text-blue-300 text-sm font-medium pointer-events-none">
+                    Drop to add to assets/
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { File } from '../services/geminiService';
+import { base64ToBytes, formatFileSize, getBinaryMimeType, getBinarySize, isFontPath, isImagePath, toDataUrl } from '../services/binaryFiles';
+
+interface BinaryFilePreviewProps {
+    file: File;
+}
+
+const FONT_SAMPLE_SIZES = [14, 20, 32, 48];
+
+// Loads the font under a name of its own, so previewing it does not affect the editor.
+const useFontFace = (file: File): string | null => {
+    const [family, setFamily] = useState<string | null>(null);
+
+    useEffect(() => {
+        const name = `preview-font-${crypto.randomUUID()}`;
+        const fontFace = new FontFace(name, base64ToBytes(file.content));
+        let isCancelled = false;
+        setFamily(null);
+        fontFace.load().then(() => {
+            if (isCancelled) return;
+            document.fonts.add(fontFace);
+            setFamily(name);
+        }).catch(e => console.warn(`Could not load ${file.path} for preview:`, e));
+        return () => {
+            isCancelled = true;
+            document.fonts.delete(fontFace);
+        };
+    }, [file.path, file.content]);
+
+    return family;
+};
+
+const FontPreview: React.FC<{ file: File }> = ({ file }) => {
+    const family = useFontFace(file);
+    if (!family) return <p className="text-sm text-zinc-500">Loading font...</p>;
+    return (
+        <div className="w-full max-w-2xl flex flex-col gap-4 text-zinc-100" style={{ fontFamily: `'${family}'` }}>
+            {FONT_SAMPLE_SIZES.map(size => (
+                <p key={size} style={{ fontSize: size }} className="break-words">The quick brown fox jumps over the lazy dog</p>
+            ))}
+            <p className="text-xl break-all">ABCDEFGHIJKLMNOPQRSTUVWXYZ abcdefghijklmnopqrstuvwxyz 0123456789</p>
+        </div>
+    );
+};
+
+// Shows an image or font instead of its base64 content; other binary files are only described.
+export const BinaryFilePreview: React.FC<BinaryFilePreviewProps> = ({ file }) => {
+    const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+    const dataUrl = useMemo(() => isImagePath(file.path) ? toDataUrl(file) : null, [file.path, file.content]);
+
+    useEffect(() => {
+        setDimensions(null);
+    }, [file.path, file.content]);
+
+    const details = [
+        getBinaryMimeType(file.path),
+        formatFileSize(getBinarySize(file)),
+        dimensions && `${dimensions.width} × ${dimensions.height}`,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="absolute inset-0 flex flex-col bg-zinc-900">
+            <div className="flex-grow min-h-0 overflow-auto flex items-center justify-center p-6">
+                {dataUrl ? (
+                    <img
+                        src={dataUrl}
+                        alt={file.path}
+                        onLoad={e => setDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        className="max-w-full max-h-full object-contain bg-[repeating-conic-gradient(#3f3f46_0_25%,#27272a_0_50%)] bg-[length:16px_16px]"
+                    />
+                ) : isFontPath(file.path) ? (
+                    <FontPreview file={file} />
+                ) : (
+                    <p className="text-sm text-zinc-500">This binary file cannot be shown in the editor.</p>
+                )}
+            </div>
+            <p className="flex-shrink-0 px-3 py-1.5 border-t border-zinc-700 text-xs text-zinc-400">{details}</p>
+        </div>
+    );
+};
@@ -1,12 +1,14 @@
 
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import JSZip from 'jszip';
 import { ClipboardIcon } from './icons/ClipboardIcon';
 import { CheckIcon } from './icons/CheckIcon';
 import { UndoIcon } from './icons/UndoIcon';
 import { RedoIcon } from './icons/RedoIcon';
 import { ExportIcon } from './icons/ExportIcon';
 import { File } from '../services/geminiService';
+import { downloadProjectZip } from '../services/projectArchive';
+import { prepareExportFiles, ProjectStyling } from '../services/projectStyling';
+import type { ProjectTarget } from '../services/projectTargets';
 import { FileCodeIcon } from './icons/FileCodeIcon';
 import { Editor } from './Editor';
 import { PlusIcon } from './icons/PlusIcon';
@@ -19,19 +21,26 @@ import { PencilIcon } from './icons/PencilIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { XIcon } from './icons/XIcon';
 import { SearchIcon } from './icons/SearchIcon';
+import { UploadIcon } from './icons/UploadIcon';
+import { BinaryFilePreview } from './BinaryFilePreview';
+import { isBinaryFile, readUploadedFile } from '../services/binaryFiles';
 
 // --- TYPES ---
 interface CodeDisplayProps {
     files: File[];
+    projectName: string;
+    // Used to turn the files into a project that builds without the preview; see `prepareExportFiles`.
+    target?: ProjectTarget;
+    styling?: ProjectStyling;
     onFilesChange: (newFiles: File[]) => void;
     onUndo: () => void;
     onRedo: () => void;
     canUndo: boolean;
     canRedo: boolean;
+    // Files received so far from a streaming AI generation. The editor is read-only while this is set.
     aiTargetFiles?: File[];
-    onAnimationStart?: (path: string, index: number, total: number) => void;
-    // FIX: Updated the onAnimationComplete prop to expect the animated files as an argument.
-    onAnimationComplete?: (files: File[]) => void;
+    // Opens this file in a tab whenever a new object is passed, selecting the lines if given.
+    fileToOpen?: { path: string; startLine?: number; endLine?: number } | null;
 }
 
 type TreeNode = {
@@ -42,12 +51,14 @@ type TreeNode = {
 };
 
 // --- UTILITY FUNCTIONS ---
-const getLanguageFromPath = (path: string): string => {
+export const getLanguageFromPath = (path: string): string => {
     const extension = path.split('.').pop()?.toLowerCase() || '';
     switch (extension) {
         case 'js': case 'jsx': return 'javascript';
         case 'ts': case 'tsx': return 'typescript';
         case 'css': return 'css';
+        case 'scss': return 'scss';
+        case 'less': return 'less';
         case 'html': return 'html';
         case 'json': return 'json';
         case 'md': return 'markdown';
@@ -101,14 +112,15 @@ const buildFileTree = (files: File[]): TreeNode[] => {
 
 // --- MAIN COMPONENT ---
 export const CodeDisplay: React.FC<CodeDisplayProps> = (props) => {
-    const { files, onFilesChange, onUndo, onRedo, canUndo, canRedo, aiTargetFiles, onAnimationStart, onAnimationComplete } = props;
+    const { files, projectName, target, styling, onFilesChange, onUndo, onRedo, canUndo, canRedo, aiTargetFiles, fileToOpen } = props;
 
     const [openFilePaths, setOpenFilePaths] = useState<string[]>([]);
     const [activeFilePath, setActiveFilePath] = useState<string | null>(null);
     const [saveStatus, setSaveStatus] = useState<'saved' | 'unsaved' | 'saving'>('saved');
+    const [isExporting, setIsExporting] = useState(false);
     
     const editorContentRef = useRef<{ [path: string]: string }>({});
-    const animationFrameRef = useRef<number>();
+    const streamedCountRef = useRef(0);
     
     // --- State Syncing ---
     useEffect(() => {
@@ -137,6 +149,12 @@ export const CodeDisplay: React.FC<CodeDisplayProps> = (props) => {
             }
         }
     }, [files, openFilePaths]);
+
+    useEffect(() => {
+        if (!fileToOpen || !files.some(f => f.path === fileToOpen.path)) return;
+        setOpenFilePaths(prev => prev.includes(fileToOpen.path) ? prev : [...prev, fileToOpen.path]);
+        setActiveFilePath(fileToOpen.path);
+    }, [fileToOpen]);
     
     // Auto-save logic
     useEffect(() => {
@@ -197,59 +215,60 @@ export const CodeDisplay: React.FC<CodeDisplayProps> = (props) => {
         setTimeout(() => setSaveStatus('saved'), 500);
     };
 
-    // --- AI Animation Logic ---
-    useEffect(() => {
-        if (aiTargetFiles && onAnimationComplete && onAnimationStart) {
-            const typeContent = (path: string, to: string): Promise<void> => {
-                return new Promise(resolve => {
-                    let currentContent = "";
-                    const charsPerFrame = Math.max(1, Math.floor(to.length / 200));
-                    const type = () => {
-                        if (currentContent.length < to.length) {
-                            currentContent = to.substring(0, currentContent.length + charsPerFrame);
-                            editorContentRef.current[path] = currentContent;
-                            // Force a re-render by creating a new object for the active file's content
-                            setActiveFileContent(currentContent);
-                            animationFrameRef.current = requestAnimationFrame(type);
-                        } else {
-                            editorContentRef.current[path] = to;
-                            setActiveFileContent(to);
-                            setTimeout(resolve, 50);
-                        }
-                    };
-                    animationFrameRef.current = requestAnimationFrame(type);
-                });
-            };
-
-            const animate = async () => {
-                const newPaths = aiTargetFiles.map(f => f.path);
-                setOpenFilePaths(prev => [...new Set([...prev, ...newPaths])]);
-                
-                for (let i = 0; i < aiTargetFiles.length; i++) {
-                    const newFile = aiTargetFiles[i];
-                    onAnimationStart(newFile.path, i + 1, aiTargetFiles.length);
-                    setActiveFilePath(newFile.path);
-                    await typeContent(newFile.path, newFile.content);
-                }
-                // FIX: Passed the `aiTargetFiles` array to `onAnimationComplete` to satisfy its expected signature.
-                onAnimationComplete(aiTargetFiles);
-            };
-            animate();
+    const handleExport = async () => {
+        if (isExporting || files.length === 0) return;
+        setIsExporting(true);
+        try {
+            // Include unsaved editor changes so the download matches what is on screen.
+            const editedFiles = files.map(file => ({ ...file, content: editorContentRef.current[file.path] ?? file.content }));
+            const exportFiles = await prepareExportFiles(editedFiles, styling, target);
+            await downloadProjectZip(exportFiles, projectName);
+        } catch (error) {
+            console.error("Failed to export project:", error);
+            alert('Failed to create the ZIP file. Please try again.');
+        } finally {
+            setIsExporting(false);
         }
-        return () => {
-            if (animationFrameRef.current) {
-                cancelAnimationFrame(animationFrameRef.current);
+    };
+
+    // --- AI Streaming Logic ---
+    useEffect(() => {
+        if (!aiTargetFiles) {
+            // Generation finished or failed: drop any streamed content that was not applied.
+            if (streamedCountRef.current > 0) {
+                editorContentRef.current = Object.fromEntries(files.map(f => [f.path, f.content]));
+                setOpenFilePaths(prev => prev.filter(path => files.some(f => f.path === path)));
+                setActiveFileContent(editorContentRef.current[activeFilePath ?? ''] ?? '');
             }
-        };
-    }, [aiTargetFiles, onAnimationComplete, onAnimationStart]);
+            streamedCountRef.current = 0;
+            return;
+        }
 
-    // This local state is needed to force re-render during AI animation
+        const newFiles = aiTargetFiles.slice(streamedCountRef.current);
+        streamedCountRef.current = aiTargetFiles.length;
+        if (newFiles.length === 0) return;
+
+        newFiles.forEach(file => {
+            editorContentRef.current[file.path] = file.content;
+        });
+        setOpenFilePaths(prev => [...new Set([...prev, ...newFiles.map(f => f.path)])]);
+
+        // Follow the most recently written file.
+        const latestFile = newFiles[newFiles.length - 1];
+        setActiveFilePath(latestFile.path);
+        setActiveFileContent(latestFile.content);
+    }, [aiTargetFiles]);
+
+    // This local state is needed to force re-render while AI files stream in
     const [activeFileContent, setActiveFileContent] = useState('');
     useEffect(() => {
         setActiveFileContent(editorContentRef.current[activeFilePath ?? ''] ?? '');
     }, [activeFilePath]);
     
-    const activeFile = useMemo(() => files.find(f => f.path === activeFilePath), [files, activeFilePath]);
+    const activeFile = useMemo(
+        () => files.find(f => f.path === activeFilePath) ?? aiTargetFiles?.find(f => f.path === activeFilePath),
+        [files, aiTargetFiles, activeFilePath]
+    );
     const isAiEditing = !!aiTargetFiles;
     const language = useMemo(() => activeFilePath ? getLanguageFromPath(activeFilePath) : 'plaintext', [activeFilePath]);
 
@@ -283,16 +302,31 @@ export const CodeDisplay: React.FC<CodeDisplayProps> = (props) => {
                             </div>
                         ))}
                     </div>
+                    <div className="flex-shrink-0 flex items-center self-center px-2">
+                        <button
+                            onClick={handleExport}
+                            disabled={isExporting || isAiEditing || files.length === 0}
+                            className="flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-300 rounded hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Download as ZIP"
+                            aria-label="Download project as ZIP"
+                        >
+                            <ExportIcon className="w-4 h-4" />
+                            <span>{isExporting ? 'Exporting...' : 'Export'}</span>
+                        </button>
+                    </div>
                 </div>
 
                 <div className="flex-grow relative">
-                    {activeFile ? (
+                    {activeFile && isBinaryFile(activeFile) ? (
+                        <BinaryFilePreview file={activeFile} />
+                    ) : activeFile ? (
                         <Editor
                             key={activeFilePath}
                             value={activeFileContent}
                             language={language}
                             onChange={handleCodeChange}
                             readOnly={isAiEditing}
+                            linesToReveal={fileToOpen?.path === activeFilePath && fileToOpen.startLine ? fileToOpen : null}
                         />
                     ) : (
                         <div className="flex items-center justify-center h-full text-zinc-500">
@@ -322,6 +356,7 @@ const FileExplorer: React.FC<{
     const [inputValue, setInputValue] = useState('');
     const contextMenuRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const uploadInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         const newTree = buildFileTree(files);
@@ -436,6 +471,24 @@ const FileExplorer: React.FC<{
         closeAllMenus();
     };
 
+    // Uploaded files go into the project's assets folder, replacing files of the same name.
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const uploads: globalThis.File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (uploads.length === 0) return;
+        const existing = uploads.filter(upload => files.some(f => f.path === `assets/${upload.name}`));
+        if (existing.length > 0 && !window.confirm(`Replace ${existing.map(upload => `"assets/${upload.name}"`).join(', ')}?`)) return;
+        try {
+            const uploaded = await Promise.all(uploads.map(upload => readUploadedFile(`assets/${upload.name}`, upload)));
+            const uploadedPaths = new Set(uploaded.map(f => f.path));
+            onFilesChange([...files.filter(f => !uploadedPaths.has(f.path) && f.path !== 'assets/.gitkeep'), ...uploaded]);
+            setExpandedFolders(prev => new Set(prev).add('assets'));
+        } catch (error) {
+            console.error('Failed to upload files:', error);
+            alert('Failed to read the selected files. Please try again.');
+        }
+    };
+
     const renderTree = (nodes: TreeNode[], depth = 0): React.ReactNode => {
         const filteredNodes = nodes.filter(node => {
             if (!searchTerm) return true;
@@ -497,6 +550,8 @@ const FileExplorer: React.FC<{
                 <h3 className="text-xs font-bold uppercase tracking-wider flex-grow">Explorer</h3>
                 <button onClick={() => handleCreate('file')} title="New File" className="p-1 rounded hover:bg-zinc-700"><PlusIcon className="w-4 h-4" /></button>
                 <button onClick={() => handleCreate('folder')} title="New Folder" className="p-1 rounded hover:bg-zinc-700"><FolderIcon className="w-4 h-4" /></button>
+                <button onClick={() => uploadInputRef.current?.click()} disabled={isAiEditing} title="Upload to assets/" className="p-1 rounded hover:bg-zinc-700 disabled:opacity-50"><UploadIcon className="w-4 h-4" /></button>
+                <input ref={uploadInputRef} type="file" multiple onChange={handleUpload} className="hidden" />
             </div>
             <div className="p-2 border-b border-zinc-700">
                 <div className="relative">
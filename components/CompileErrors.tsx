@@ -0,0 +1,35 @@
+import React from 'react';
+import type { PreviewCompileError } from '../services/previewTransforms';
+import { AlertTriangleIcon } from './icons/AlertTriangleIcon';
+
+interface CompileErrorsProps {
+    errors: PreviewCompileError[];
+    onOpenFile: (path: string, startLine?: number, endLine?: number) => void;
+}
+
+const formatLocation = (error: PreviewCompileError) =>
+    error.line ? `${error.path}:${error.line}${error.column ? `:${error.column}` : ''}` : error.path;
+
+// Lists the files the preview could not compile, each linking to the line in the editor.
+export const CompileErrors: React.FC<CompileErrorsProps> = ({ errors, onOpenFile }) => (
+    <div className="absolute top-0 inset-x-0 z-10 max-h-40 overflow-y-auto bg-red-50 dark:bg-red-950/90 border-b border-red-200 dark:border-red-900 text-red-800 dark:text-red-200 text-xs" role="alert">
+        <p className="flex items-center gap-2 px-3 pt-2 pb-1 font-semibold">
+            <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />
+            {errors.length === 1 ? 'A file could not be compiled' : `${errors.length} files could not be compiled`}
+        </p>
+        <ul className="px-3 pb-2 space-y-0.5">
+            {errors.map((error, index) => (
+                <li key={`${error.path}:${index}`} className="flex items-baseline gap-2 min-w-0">
+                    <button
+                        onClick={() => onOpenFile(error.path, error.line, error.line)}
+                        className="flex-shrink-0 font-mono underline decoration-dotted hover:text-red-600 dark:hover:text-red-100"
+                        title="Open in editor"
+                    >
+                        {formatLocation(error)}
+                    </button>
+                    <span className="truncate" title={error.message}>{error.message}</span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
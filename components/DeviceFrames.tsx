@@ -0,0 +1,69 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getFitScale } from '../services/devices';
+
+export interface DeviceFrame {
+    key: string;
+    // Shown above the frame; frames without one take the label's space too.
+    label?: string;
+    width: number;
+    height: number;
+    content: React.ReactNode;
+}
+
+interface DeviceFramesProps {
+    frames: DeviceFrame[];
+    // Scales the frames down together until they fit the pane; otherwise they are shown at full size and scroll.
+    isZoomToFit: boolean;
+}
+
+const PADDING = 16;
+const GAP = 24;
+const LABEL_HEIGHT = 24;
+
+/**
+ * Renders content at fixed viewport sizes, side by side. The content is laid out at its real size and scaled
+ * with a transform, so pages see the device's width while the frames fit on screen.
+ */
+export const DeviceFrames: React.FC<DeviceFramesProps> = ({ frames, isZoomToFit }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            setAvailable({ width: container.clientWidth, height: container.clientHeight });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const hasLabels = frames.some(frame => frame.label);
+    const scale = isZoomToFit
+        ? getFitScale(frames, {
+            width: available.width - PADDING * 2,
+            height: available.height - PADDING * 2 - (hasLabels ? LABEL_HEIGHT : 0),
+        }, GAP)
+        : 1;
+
+    return (
+        <div ref={containerRef} className="w-full h-full overflow-auto bg-gray-100 dark:bg-zinc-900">
+            <div className="flex items-start w-max mx-auto" style={{ padding: PADDING, gap: GAP }}>
+                {frames.map(frame => (
+                    <div key={frame.key} className="flex flex-col flex-shrink-0">
+                        {hasLabels && (
+                            <div className="text-xs text-gray-500 dark:text-zinc-400 truncate" style={{ height: LABEL_HEIGHT, maxWidth: frame.width * scale }} title={frame.label}>
+                                {frame.label}
+                            </div>
+                        )}
+                        <div className="relative bg-white shadow-lg ring-1 ring-black/10 dark:ring-white/10" style={{ width: frame.width * scale, height: frame.height * scale }}>
+                            <div className="absolute top-0 left-0" style={{ width: frame.width, height: frame.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+                                {frame.content}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -2,22 +2,71 @@ import React, { useState, useRef, useEffect } from 'react';
 import { DesktopIcon } from './icons/DesktopIcon';
 import { MobileIcon } from './icons/MobileIcon';
 import { TabletIcon } from './icons/TabletIcon';
-
-export type DeviceType = 'current' | 'mobile' | 'tablet';
+import { DeviceIcon } from './icons/DeviceIcon';
+import { CheckIcon } from './icons/CheckIcon';
+import {
+    clampViewportSize,
+    createViewport,
+    CUSTOM_DEVICE_ID,
+    DEVICE_PRESETS,
+    DeviceCategory,
+    DevicePreset,
+    getDevicePreset,
+    getViewportLabel,
+    getViewportSize,
+    PreviewViewport,
+    RESPONSIVE_DEVICE_ID,
+} from '../services/devices';
 
 interface DeviceSelectorProps {
-    selectedDevice: DeviceType;
-    onSelectDevice: (device: DeviceType) => void;
+    viewport: PreviewViewport;
+    onViewportChange: (viewport: PreviewViewport) => void;
+    isZoomToFit: boolean;
+    onZoomToFitChange: (isZoomToFit: boolean) => void;
+    // While comparing, the devices in `comparedDeviceIds` are shown side by side and clicking a device toggles it.
+    isComparing: boolean;
+    onComparingChange: (isComparing: boolean) => void;
+    comparedDeviceIds: string[];
+    onComparedDeviceIdsChange: (ids: string[]) => void;
 }
 
-const deviceOptions: { id: DeviceType; label: string; icon: React.FC<React.SVGProps<SVGSVGElement>> }[] = [
-    { id: 'current', label: 'Responsive', icon: DesktopIcon },
-    { id: 'mobile', label: 'Mobile (375px)', icon: MobileIcon },
-    { id: 'tablet', label: 'Tablet (768px)', icon: TabletIcon },
+const categories: { id: DeviceCategory; label: string; icon: React.FC<React.SVGProps<SVGSVGElement>> }[] = [
+    { id: 'phone', label: 'Phones', icon: MobileIcon },
+    { id: 'tablet', label: 'Tablets', icon: TabletIcon },
+    { id: 'desktop', label: 'Desktops', icon: DesktopIcon },
 ];
 
-export const DeviceSelector: React.FC<DeviceSelectorProps> = ({ selectedDevice, onSelectDevice }) => {
+const getIcon = (viewport: PreviewViewport) => {
+    const category = getDevicePreset(viewport.deviceId)?.category;
+    return categories.find(c => c.id === category)?.icon ?? DesktopIcon;
+};
+
+const ToggleRow: React.FC<{ label: string; isOn: boolean; onToggle: () => void; disabled?: boolean }> = ({ label, isOn, onToggle, disabled }) => (
+    <button
+        onClick={onToggle}
+        disabled={disabled}
+        className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-gray-100 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        role="menuitemcheckbox"
+        aria-checked={isOn}
+    >
+        <span className="w-5 h-5 flex items-center justify-center">{isOn && <CheckIcon className="w-4 h-4" />}</span>
+        <span>{label}</span>
+    </button>
+);
+
+export const DeviceSelector: React.FC<DeviceSelectorProps> = ({
+    viewport,
+    onViewportChange,
+    isZoomToFit,
+    onZoomToFitChange,
+    isComparing,
+    onComparingChange,
+    comparedDeviceIds,
+    onComparedDeviceIdsChange,
+}) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [customWidth, setCustomWidth] = useState('1024');
+    const [customHeight, setCustomHeight] = useState('768');
     const wrapperRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -32,48 +81,117 @@ export const DeviceSelector: React.FC<DeviceSelectorProps> = ({ selectedDevice,
         };
     }, []);
 
-    const handleSelect = (device: DeviceType) => {
-        onSelectDevice(device);
+    useEffect(() => {
+        if (viewport.deviceId !== CUSTOM_DEVICE_ID) return;
+        setCustomWidth(String(viewport.width));
+        setCustomHeight(String(viewport.height));
+    }, [viewport]);
+
+    const handleSelectPreset = (preset: DevicePreset) => {
+        if (isComparing) {
+            onComparedDeviceIdsChange(comparedDeviceIds.includes(preset.id)
+                ? comparedDeviceIds.filter(id => id !== preset.id)
+                : DEVICE_PRESETS.filter(device => device.id === preset.id || comparedDeviceIds.includes(device.id)).map(device => device.id));
+            return;
+        }
+        onViewportChange(createViewport(preset, viewport.isRotated));
+        setIsOpen(false);
+    };
+
+    const handleSelectResponsive = () => {
+        onViewportChange({ ...viewport, deviceId: RESPONSIVE_DEVICE_ID });
+        onComparingChange(false);
         setIsOpen(false);
     };
 
-    const selectedOption = deviceOptions.find(option => option.id === selectedDevice) || deviceOptions[0];
-    const SelectedIcon = selectedOption.icon;
+    const applyCustomSize = () => {
+        const width = clampViewportSize(Number(customWidth));
+        const height = clampViewportSize(Number(customHeight));
+        setCustomWidth(String(width));
+        setCustomHeight(String(height));
+        onViewportChange({ deviceId: CUSTOM_DEVICE_ID, width, height, isRotated: false });
+        onComparingChange(false);
+    };
+
+    const size = getViewportSize(viewport);
+    const SelectedIcon = isComparing ? DeviceIcon : getIcon(viewport);
+    const title = isComparing ? `Comparing ${comparedDeviceIds.length} devices` : getViewportLabel(viewport);
+    const isResponsive = viewport.deviceId === RESPONSIVE_DEVICE_ID;
 
     return (
         <div ref={wrapperRef} className="relative">
             <button
                 onClick={() => setIsOpen(prev => !prev)}
-                className="p-1.5 text-gray-500 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 rounded-md hover:bg-gray-300 dark:hover:bg-zinc-700"
+                className="flex items-center gap-1.5 p-1.5 text-gray-500 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 rounded-md hover:bg-gray-300 dark:hover:bg-zinc-700"
                 aria-haspopup="true"
                 aria-expanded={isOpen}
                 aria-label="Select device for preview"
-                title={`Preview device: ${selectedOption.label}`}
+                title={`Preview device: ${title}`}
             >
                 <SelectedIcon aria-hidden="true" className="w-4 h-4" />
+                {!isComparing && size && <span className="text-xs tabular-nums">{size.width}×{size.height}</span>}
             </button>
             {isOpen && (
-                <div 
-                    className="absolute right-0 mt-2 w-56 origin-top-right bg-white dark:bg-zinc-800 text-gray-900 dark:text-white rounded-md shadow-lg ring-1 ring-black dark:ring-white ring-opacity-5 dark:ring-opacity-10 focus:outline-none z-10 animate-fade-in"
+                <div
+                    className="absolute right-0 mt-2 w-72 max-h-[70vh] overflow-y-auto origin-top-right bg-white dark:bg-zinc-800 text-gray-900 dark:text-white rounded-md shadow-lg ring-1 ring-black dark:ring-white ring-opacity-5 dark:ring-opacity-10 focus:outline-none z-30 animate-fade-in"
                     role="menu"
                     aria-orientation="vertical"
-                    aria-labelledby="menu-button"
                 >
                     <div className="py-1" role="none">
-                        {deviceOptions.map(option => (
-                            <button
-                                key={option.id}
-                                onClick={() => handleSelect(option.id)}
-                                className={`w-full flex items-center gap-3 px-4 py-2 text-sm text-left transition-colors ${selectedDevice === option.id ? 'bg-gray-100 dark:bg-zinc-700' : 'hover:bg-gray-100 dark:hover:bg-zinc-600'}`}
-                                role="menuitem"
-                            >
-                                <option.icon className="w-5 h-5" aria-hidden="true" />
-                                <span>{option.label}</span>
-                            </button>
-                        ))}
+                        <button
+                            onClick={handleSelectResponsive}
+                            className={`w-full flex items-center gap-3 px-4 py-2 text-sm text-left transition-colors ${isResponsive && !isComparing ? 'bg-gray-100 dark:bg-zinc-700' : 'hover:bg-gray-100 dark:hover:bg-zinc-600'}`}
+                            role="menuitem"
+                        >
+                            <DesktopIcon className="w-5 h-5" aria-hidden="true" />
+                            <span>Responsive</span>
+                        </button>
+                    </div>
+                    {categories.map(category => (
+                        <div key={category.id} className="py-1 border-t border-gray-200 dark:border-zinc-700" role="group" aria-label={category.label}>
+                            <p className="px-4 pt-1 pb-0.5 text-[11px] font-semibold uppercase tracking-wide text-gray-500 dark:text-zinc-400">{category.label}</p>
+                            {DEVICE_PRESETS.filter(device => device.category === category.id).map(device => {
+                                const isSelected = isComparing ? comparedDeviceIds.includes(device.id) : viewport.deviceId === device.id;
+                                return (
+                                    <button
+                                        key={device.id}
+                                        onClick={() => handleSelectPreset(device)}
+                                        className={`w-full flex items-center gap-3 px-4 py-1.5 text-sm text-left transition-colors ${isSelected ? 'bg-gray-100 dark:bg-zinc-700' : 'hover:bg-gray-100 dark:hover:bg-zinc-600'}`}
+                                        role={isComparing ? 'menuitemcheckbox' : 'menuitem'}
+                                        aria-checked={isComparing ? isSelected : undefined}
+                                    >
+                                        {isComparing
+                                            ? <span className="w-5 h-5 flex items-center justify-center">{isSelected && <CheckIcon className="w-4 h-4" />}</span>
+                                            : <category.icon className="w-5 h-5" aria-hidden="true" />}
+                                        <span className="flex-grow">{device.name}</span>
+                                        <span className="text-xs text-gray-500 dark:text-zinc-400 tabular-nums">{device.width}×{device.height}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
+                    <div className="px-4 py-2 border-t border-gray-200 dark:border-zinc-700">
+                        <p className="pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-500 dark:text-zinc-400">Custom size</p>
+                        <form
+                            className="flex items-center gap-1.5"
+                            onSubmit={e => {
+                                e.preventDefault();
+                                applyCustomSize();
+                            }}
+                        >
+                            <input type="number" value={customWidth} onChange={e => setCustomWidth(e.target.value)} aria-label="Custom width" className="w-20 px-2 py-1 text-sm rounded bg-gray-100 dark:bg-zinc-900 border border-gray-300 dark:border-zinc-600" />
+                            <span className="text-gray-500">×</span>
+                            <input type="number" value={customHeight} onChange={e => setCustomHeight(e.target.value)} aria-label="Custom height" className="w-20 px-2 py-1 text-sm rounded bg-gray-100 dark:bg-zinc-900 border border-gray-300 dark:border-zinc-600" />
+                            <button type="submit" className="ml-auto px-2 py-1 text-xs font-medium rounded-md bg-gray-200 dark:bg-zinc-700 hover:bg-gray-300 dark:hover:bg-zinc-600">Apply</button>
+                        </form>
+                    </div>
+                    <div className="py-1 border-t border-gray-200 dark:border-zinc-700" role="none">
+                        <ToggleRow label="Rotate" isOn={viewport.isRotated} onToggle={() => onViewportChange({ ...viewport, isRotated: !viewport.isRotated })} disabled={isResponsive && !isComparing} />
+                        <ToggleRow label="Zoom to fit" isOn={isZoomToFit} onToggle={() => onZoomToFitChange(!isZoomToFit)} />
+                        <ToggleRow label="Compare devices side by side" isOn={isComparing} onToggle={() => onComparingChange(!isComparing)} />
                     </div>
                 </div>
             )}
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,68 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { loadMonaco } from './Editor';
+
+type MonacoDiffEditor = import('monaco-editor').editor.IStandaloneDiffEditor;
+
+interface DiffEditorProps {
+    original: string;
+    modified: string;
+    language: string;
+    // A line of the modified side to scroll into view, e.g. the hunk picked in the change list.
+    revealLine?: number;
+}
+
+// Read-only side-by-side comparison of two texts.
+export const DiffEditor: React.FC<DiffEditorProps> = ({ original, modified, language, revealLine }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const editorRef = useRef<MonacoDiffEditor | null>(null);
+    const [isMonacoReady, setIsMonacoReady] = useState(false);
+
+    useEffect(() => {
+        loadMonaco().then(() => {
+            setIsMonacoReady(true);
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!isMonacoReady || !containerRef.current) return;
+        editorRef.current = window.monaco.editor.createDiffEditor(containerRef.current, {
+            theme: 'vs-dark',
+            automaticLayout: true,
+            readOnly: true,
+            originalEditable: false,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 13,
+            fontFamily: "'Source Code Pro', monospace",
+        });
+
+        return () => {
+            const models = editorRef.current?.getModel();
+            editorRef.current?.dispose();
+            models?.original.dispose();
+            models?.modified.dispose();
+            editorRef.current = null;
+        };
+    }, [isMonacoReady]);
+
+    // Models are replaced rather than updated, so the diff is recomputed from scratch for each file.
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        const previous = editor.getModel();
+        editor.setModel({
+            original: window.monaco.editor.createModel(original, language),
+            modified: window.monaco.editor.createModel(modified, language),
+        });
+        previous?.original.dispose();
+        previous?.modified.dispose();
+    }, [isMonacoReady, original, modified, language]);
+
+    useEffect(() => {
+        if (revealLine) {
+            editorRef.current?.getModifiedEditor().revealLineInCenter(revealLine);
+        }
+    }, [revealLine]);
+
+    return <div ref={containerRef} style={{ width: '100%', height: '100%' }} />;
+};
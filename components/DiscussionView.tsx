@@ -1,92 +1,85 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
+import { MarkdownView } from './MarkdownView';
 import { SparklesIcon } from './icons/SparklesIcon';
 import { UserIcon } from './icons/UserIcon';
-import { ClipboardIcon } from './icons/ClipboardIcon';
-import { CheckIcon } from './icons/CheckIcon';
+import { MagicIcon } from './icons/MagicIcon';
 
-const CodeBlock: React.FC<{ code: string }> = ({ code }) => {
-    const [isCopied, setIsCopied] = useState(false);
-    
-    // Split language from code content
-    const lines = code.trim().split('\n');
-    const language = lines[0].trim();
-    const codeContent = lines.slice(1).join('\n');
+type Message = { role: 'user' | 'model'; content: string };
 
-    const handleCopy = () => {
-        navigator.clipboard.writeText(codeContent);
-        setIsCopied(true);
-        setTimeout(() => setIsCopied(false), 2000);
-    };
-
-    return (
-        <div className="my-2 bg-gray-900 rounded-md overflow-hidden">
-            <div className="flex justify-between items-center px-4 py-1.5 bg-zinc-700 text-xs text-zinc-300">
-                <span>{language}</span>
-                <button onClick={handleCopy} className="flex items-center gap-1.5 text-xs">
-                    {isCopied ? <CheckIcon className="w-3 h-3 text-green-400" /> : <ClipboardIcon className="w-3 h-3" />}
-                    {isCopied ? 'Copied' : 'Copy'}
-                </button>
-            </div>
-            <pre className="p-4 overflow-x-auto"><code className="font-mono text-sm text-zinc-200">{codeContent}</code></pre>
-        </div>
-    );
-};
+interface DiscussionViewProps {
+    history: Message[];
+    // A question still being answered, with the answer streamed so far.
+    pendingTurn: { question: string; answer: string } | null;
+    onTurnIntoEdit: (messageIndex: number) => void;
+    isBusy: boolean;
+    // Paths of the project's files; mentions of them in answers open the file in the code view.
+    filePaths: string[];
+    onOpenFile: (path: string) => void;
+}
 
-const SimpleMarkdownRenderer: React.FC<{ text: string }> = ({ text }) => {
-    const parts = text.split(/(```[\s\S]*?```)/g).filter(Boolean);
-  
-    return (
-      <>
-        {parts.map((part, index) => {
-          if (part.startsWith('```') && part.endsWith('```')) {
-            return <CodeBlock key={index} code={part.slice(3, -3)} />;
-          }
-          // Simple formatting for bold and italics
-          const formattedPart = part
-            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.*?)\*/g, '<em>$1</em>');
-          return <span key={index} dangerouslySetInnerHTML={{ __html: formattedPart }} />;
-        })}
-      </>
-    );
+type MessageBubbleProps = {
+    message: Message;
+    isStreaming?: boolean;
+    filePaths: string[];
+    onOpenFile: (path: string) => void;
+    children?: React.ReactNode;
 };
 
-interface DiscussionViewProps {
-    history: Array<{ role: 'user' | 'model'; content: string }>;
-}
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isStreaming, filePaths, onOpenFile, children }) => (
+    <div className={`flex items-start gap-3 w-full ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+        {message.role === 'model' && (
+            <div className="w-8 h-8 flex-shrink-0 rounded-full bg-gray-200 dark:bg-zinc-700 flex items-center justify-center">
+                <SparklesIcon className={`w-5 h-5 text-gray-600 dark:text-zinc-300 ${isStreaming ? 'animate-pulse' : ''}`} />
+            </div>
+        )}
+        <div className={`max-w-xl rounded-lg ${message.role === 'model' ? 'bg-gray-100 dark:bg-zinc-700/50 p-3' : 'bg-blue-600 text-white p-3'}`}>
+            {message.role === 'model' ? (
+                <div className="text-sm text-gray-800 dark:text-zinc-200 leading-relaxed">
+                    {message.content ? <MarkdownView text={message.content} filePaths={filePaths} onOpenFile={onOpenFile} /> : <span className="italic text-gray-500 dark:text-zinc-400">Thinking...</span>}
+                </div>
+            ) : (
+                <p className="text-sm">{message.content}</p>
+            )}
+            {children}
+        </div>
+         {message.role === 'user' && (
+            <div className="w-8 h-8 flex-shrink-0 rounded-full bg-gray-200 dark:bg-zinc-700 flex items-center justify-center">
+                <UserIcon className="w-5 h-5 text-gray-600 dark:text-zinc-300" />
+            </div>
+        )}
+    </div>
+);
 
-export const DiscussionView: React.FC<DiscussionViewProps> = ({ history }) => {
+export const DiscussionView: React.FC<DiscussionViewProps> = ({ history, pendingTurn, onTurnIntoEdit, isBusy, filePaths, onOpenFile }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [history]);
+    }, [history, pendingTurn]);
 
     return (
         <div className="flex-grow overflow-y-auto p-4 space-y-6">
             {history.map((message, index) => (
-                <div key={index} className={`flex items-start gap-3 w-full ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <MessageBubble key={index} message={message} filePaths={filePaths} onOpenFile={onOpenFile}>
                     {message.role === 'model' && (
-                        <div className="w-8 h-8 flex-shrink-0 rounded-full bg-gray-200 dark:bg-zinc-700 flex items-center justify-center">
-                            <SparklesIcon className="w-5 h-5 text-gray-600 dark:text-zinc-300" />
-                        </div>
+                        <button
+                            onClick={() => onTurnIntoEdit(index)}
+                            disabled={isBusy}
+                            className="mt-2 flex items-center gap-1.5 text-xs font-medium text-gray-600 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Ask the AI to make the changes this answer describes"
+                        >
+                            <MagicIcon className="w-3.5 h-3.5" />
+                            Turn into edit
+                        </button>
                     )}
-                    <div className={`max-w-xl rounded-lg ${message.role === 'model' ? 'bg-gray-100 dark:bg-zinc-700/50 p-3' : 'bg-blue-600 text-white p-3'}`}>
-                        {message.role === 'model' ? (
-                            <div className="text-sm text-gray-800 dark:text-zinc-200 whitespace-pre-wrap leading-relaxed">
-                                <SimpleMarkdownRenderer text={message.content} />
-                            </div>
-                        ) : (
-                            <p className="text-sm">{message.content}</p>
-                        )}
-                    </div>
-                     {message.role === 'user' && (
-                        <div className="w-8 h-8 flex-shrink-0 rounded-full bg-gray-200 dark:bg-zinc-700 flex items-center justify-center">
-                            <UserIcon className="w-5 h-5 text-gray-600 dark:text-zinc-300" />
-                        </div>
-                    )}
-                </div>
+                </MessageBubble>
             ))}
+            {pendingTurn && (
+                <>
+                    <MessageBubble message={{ role: 'user', content: pendingTurn.question }} filePaths={filePaths} onOpenFile={onOpenFile} />
+                    <MessageBubble message={{ role: 'model', content: pendingTurn.answer }} isStreaming filePaths={filePaths} onOpenFile={onOpenFile} />
+                </>
+            )}
             <div ref={messagesEndRef} />
         </div>
     );
@@ -17,31 +17,37 @@ interface EditorProps {
     language: string;
     onChange: (value: string) => void;
     readOnly?: boolean;
+    // Selected and scrolled into view whenever a new object is passed.
+    linesToReveal?: { startLine?: number; endLine?: number } | null;
 }
 
 // Global state to track Monaco loading, ensuring it's only initialized once.
 let monacoLoadingPromise: Promise<void> | null = null;
 
-export const Editor: React.FC<EditorProps> = ({ value, language, onChange, readOnly = false }) => {
+// Resolves once Monaco has been loaded from the CDN. Shared with the DiffEditor.
+export const loadMonaco = (): Promise<void> => {
+    if (!monacoLoadingPromise) {
+        monacoLoadingPromise = new Promise<void>((resolve) => {
+            if (window.monaco) {
+                resolve();
+            } else {
+                window.require(['vs/editor/editor.main'], () => {
+                    resolve();
+                });
+            }
+        });
+    }
+    return monacoLoadingPromise;
+};
+
+export const Editor: React.FC<EditorProps> = ({ value, language, onChange, readOnly = false, linesToReveal }) => {
     const editorContainerRef = useRef<HTMLDivElement>(null);
     const editorRef = useRef<MonacoEditor | null>(null);
     const [isMonacoReady, setIsMonacoReady] = useState(false);
 
     // Effect to load Monaco scripts and set a ready state.
     useEffect(() => {
-        if (!monacoLoadingPromise) {
-            monacoLoadingPromise = new Promise<void>((resolve) => {
-                if (window.monaco) {
-                    resolve();
-                } else {
-                    window.require(['vs/editor/editor.main'], () => {
-                        resolve();
-                    });
-                }
-            });
-        }
-
-        monacoLoadingPromise.then(() => {
+        loadMonaco().then(() => {
             setIsMonacoReady(true);
         });
     }, []);
@@ -100,6 +106,18 @@ export const Editor: React.FC<EditorProps> = ({ value, language, onChange, readO
         editorRef.current?.updateOptions({ readOnly: readOnly });
     }, [readOnly]);
 
+    // Effect to select and reveal lines, e.g. the markup of an element picked in the preview.
+    useEffect(() => {
+        const editor = editorRef.current;
+        const model = editor?.getModel();
+        if (!editor || !model || !linesToReveal?.startLine) return;
+        const startLine = Math.min(linesToReveal.startLine, model.getLineCount());
+        const endLine = Math.min(Math.max(linesToReveal.endLine ?? startLine, startLine), model.getLineCount());
+        editor.setSelection(new window.monaco.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine)));
+        editor.revealLinesInCenterIfOutsideViewport(startLine, endLine);
+        editor.focus();
+    }, [linesToReveal, isMonacoReady]);
+
 
     return <div ref={editorContainerRef} style={{ width: '100%', height: '100%' }} />;
 };
@@ -80,13 +80,11 @@ export const GenerationStatusView: React.FC<GenerationStatusViewProps> = ({ stat
                  {status.stage === 'editing' && status.filesBeingEdited && (
                       <div className="ml-9 mt-1 p-3 border-l-2 border-gray-300 dark:border-zinc-600">
                         <p className="text-sm text-gray-700 dark:text-zinc-300 truncate">
-                            ({status.filesBeingEdited.current + 1}/{status.filesBeingEdited.total}) {status.message}
+                            ({status.filesBeingEdited.current} {status.filesBeingEdited.current === 1 ? 'file' : 'files'}) {status.message}
                         </p>
-                        <div className="w-full bg-gray-200 dark:bg-zinc-700 rounded-full h-1.5 mt-2">
-                            <div 
-                                className="bg-blue-600 h-1.5 rounded-full transition-all duration-200" 
-                                style={{ width: `${((status.filesBeingEdited.current + 1) / status.filesBeingEdited.total) * 100}%` }}
-                            ></div>
+                        {/* The number of files is not known until the stream ends, so progress is indeterminate. */}
+                        <div className="w-full bg-gray-200 dark:bg-zinc-700 rounded-full h-1.5 mt-2 overflow-hidden">
+                            <div className="bg-blue-600 h-1.5 rounded-full w-1/3 animate-pulse"></div>
                         </div>
                       </div>
                  )}
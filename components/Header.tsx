@@ -5,9 +5,11 @@ import { PencilIcon } from './icons/PencilIcon';
 import { CopyIcon } from './icons/CopyIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { UserIcon } from './icons/UserIcon';
-import { supabase } from '../services/supabaseClient';
+import { supabase, isBackendEnabled } from '../services/supabaseClient';
 import { SettingsIcon } from './icons/SettingsIcon';
 import { LogOutIcon } from './icons/LogOutIcon';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import type { SyncStatus } from '../services/projectStore';
 
 interface HeaderProps {
     projectName: string;
@@ -18,6 +20,9 @@ interface HeaderProps {
     onSetProjectToDelete?: () => void;
     onOpenSettings: () => void;
     userEmail?: string;
+    syncStatus: SyncStatus;
+    onRetrySync: () => void;
+    onResolveConflict: (projectId: string, keep: 'local' | 'remote') => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
@@ -28,7 +33,10 @@ export const Header: React.FC<HeaderProps> = ({
     onCloneProject,
     onSetProjectToDelete,
     onOpenSettings,
-    userEmail
+    userEmail,
+    syncStatus,
+    onRetrySync,
+    onResolveConflict
 }) => {
     const [isProjectMenuOpen, setIsProjectMenuOpen] = useState(false);
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
@@ -170,7 +178,8 @@ export const Header: React.FC<HeaderProps> = ({
                 )}
             </div>
             
-            <div className="flex-1 flex justify-end">
+            <div className="flex-1 flex justify-end items-center gap-2">
+                 <SyncStatusIndicator status={syncStatus} onRetry={onRetrySync} onResolveConflict={onResolveConflict} />
                  <div className="relative" ref={userMenuRef}>
                     <button
                         onClick={() => setIsUserMenuOpen(prev => !prev)}
@@ -188,19 +197,25 @@ export const Header: React.FC<HeaderProps> = ({
                             aria-orientation="vertical"
                         >
                             <div className="px-4 py-2 border-b border-gray-200 dark:border-zinc-700">
+                                {isBackendEnabled ? <>
                                 <p className="text-sm text-gray-600 dark:text-zinc-400">Signed in as</p>
                                 <p className="text-sm font-medium text-gray-900 dark:text-zinc-100 truncate">{userEmail}</p>
+                                </> : (
+                                <p className="text-sm text-gray-600 dark:text-zinc-400">Working locally without an account</p>
+                                )}
                             </div>
                             <div className="p-1">
                                 <button onClick={() => { onOpenSettings(); setIsUserMenuOpen(false); }} className="w-full text-left text-sm text-gray-700 dark:text-zinc-300 hover:bg-gray-100 dark:hover:bg-zinc-700 rounded-md px-3 py-2 flex items-center gap-3" role="menuitem">
                                     <SettingsIcon className="w-4 h-4" />
                                     <span>Settings</span>
                                 </button>
+                                {isBackendEnabled && <>
                                 <div className="my-1 h-px bg-gray-200 dark:bg-zinc-700" />
                                 <button onClick={handleSignOut} className="w-full text-left text-sm text-gray-700 dark:text-zinc-300 hover:bg-gray-100 dark:hover:bg-zinc-700 rounded-md px-3 py-2 flex items-center gap-3" role="menuitem">
                                     <LogOutIcon className="w-4 h-4" />
                                     <span>Sign Out</span>
                                 </button>
+                                </>}
                             </div>
                         </div>
                     )}
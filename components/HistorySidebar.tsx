@@ -1,18 +1,64 @@
-import React from 'react';
-import { HistoryEntry } from '../App';
+import React, { useState, useEffect } from 'react';
+import { Project } from '../App';
+import { getActiveBranch, getChildIndices, getParentIndex } from '../services/historyTree';
 import { HistoryIcon } from './icons/HistoryIcon';
 
 interface HistorySidebarProps {
     isOpen: boolean;
     onClose: () => void;
-    history: HistoryEntry[];
-    currentIndex: number;
-    onRestore: (index: number) => void;
+    codeHistory: Project['codeHistory'];
+    onSwitchVersion: (index: number) => void;
+    onCompareVersions: (baseIndex: number, compareIndex: number) => void;
 }
 
-export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, history, currentIndex, onRestore }) => {
-    // Show newest first
-    const reversedHistory = [...history].map((item, index) => ({ ...item, originalIndex: index })).reverse();
+interface TimelineRow {
+    index: number;
+    // How many times the path to this version took a branch other than the original one.
+    depth: number;
+    // Set on the first version of an alternative branch.
+    branchedFrom: number | null;
+}
+
+/**
+ * Orders versions so that each branch is listed together: a depth-first walk where the original
+ * continuation of a version comes before its alternatives, reversed to show the newest first.
+ */
+const buildTimeline = (codeHistory: Project['codeHistory']): TimelineRow[] => {
+    const { history } = codeHistory;
+    const rows: TimelineRow[] = [];
+    const visit = (index: number, depth: number, branchedFrom: number | null) => {
+        rows.push({ index, depth, branchedFrom });
+        getChildIndices(history, index).forEach((child, childPosition) => {
+            visit(child, childPosition === 0 ? depth : depth + 1, childPosition === 0 ? null : index);
+        });
+    };
+    history.forEach((_, index) => {
+        if (getParentIndex(history, index) === null) visit(index, 0, null);
+    });
+    return rows.reverse();
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, codeHistory, onSwitchVersion, onCompareVersions }) => {
+    const { history, currentIndex } = codeHistory;
+    const timeline = buildTimeline(codeHistory);
+    const activeBranch = new Set(getActiveBranch(codeHistory));
+    // Up to two versions ticked for comparison, in the order they were picked.
+    const [comparedIndices, setComparedIndices] = useState<number[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) setComparedIndices([]);
+    }, [isOpen]);
+
+    const toggleCompared = (index: number) => {
+        setComparedIndices(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].slice(-2));
+    };
+
+    // The current version goes on the right so its changes can be reverted; otherwise the older one goes on the left.
+    const compare = (a: number, b: number) => {
+        if (a === currentIndex) onCompareVersions(b, a);
+        else if (b === currentIndex) onCompareVersions(a, b);
+        else onCompareVersions(Math.min(a, b), Math.max(a, b));
+    };
     
     return (
         <>
@@ -38,41 +84,83 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
                         <h2 className="text-lg font-semibold text-gray-900 dark:text-zinc-100">Version History</h2>
                          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-zinc-700" aria-label="Close history sidebar">&times;</button>
                     </div>
+                    {history.length > 1 && (
+                        <div className="px-4 py-2 border-b border-gray-200 dark:border-zinc-700 flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-zinc-400">
+                            <span>{comparedIndices.length === 2 ? `Version ${comparedIndices[0] + 1} and ${comparedIndices[1] + 1} selected` : 'Tick two versions to compare them'}</span>
+                            <button
+                                onClick={() => compare(comparedIndices[0], comparedIndices[1])}
+                                disabled={comparedIndices.length !== 2}
+                                className="flex-shrink-0 font-medium px-2 py-1 rounded-md border border-gray-300 dark:border-zinc-600 text-gray-800 dark:text-zinc-200 hover:bg-gray-100 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Compare
+                            </button>
+                        </div>
+                    )}
                     
                     <div className="flex-grow p-2 flex flex-col gap-2 overflow-y-auto">
-                        {reversedHistory.length === 0 && (
+                        {timeline.length === 0 && (
                             <div className="text-center p-4 text-sm text-gray-500 dark:text-zinc-400">
                                 No history yet. Make a change to start tracking versions.
                             </div>
                         )}
-                        {reversedHistory.map((entry, reverseIndex) => {
-                             const isCurrent = entry.originalIndex === currentIndex;
+                        {timeline.map(({ index, depth, branchedFrom }) => {
+                             const entry = history[index];
+                             const isCurrent = index === currentIndex;
+                             const isOnActiveBranch = activeBranch.has(index);
+                             const alternativeCount = getChildIndices(history, index).length - 1;
                              return (
                                 <div
-                                    key={entry.originalIndex}
-                                    className={`w-full text-left p-3 rounded-md transition-colors border ${
+                                    key={index}
+                                    style={{ marginLeft: `${Math.min(depth, 6) * 12}px` }}
+                                    className={`text-left p-3 rounded-md transition-colors border ${depth > 0 ? 'border-l-4' : ''} ${
                                         isCurrent 
                                             ? 'bg-gray-200 dark:bg-zinc-700 border-gray-300 dark:border-zinc-600' 
                                             : 'bg-white dark:bg-zinc-800 border-gray-200 dark:border-zinc-700'
-                                    }`}
+                                    } ${isOnActiveBranch ? '' : 'opacity-70'}`}
                                 >
-                                    <div className="flex justify-between items-start">
-                                        <div>
+                                    <div className="flex justify-between items-start gap-2">
+                                        {history.length > 1 && (
+                                            <input
+                                                type="checkbox"
+                                                checked={comparedIndices.includes(index)}
+                                                onChange={() => toggleCompared(index)}
+                                                className="h-4 w-4 mt-0.5 flex-shrink-0 border-gray-300 rounded focus:ring-gray-900"
+                                                aria-label={`Select Version ${index + 1} for comparison`}
+                                            />
+                                        )}
+                                        <div className="flex-grow min-w-0">
                                             <span className="font-semibold text-sm text-gray-900 dark:text-zinc-100 block truncate">
-                                                Version {history.length - reverseIndex}
+                                                Version {index + 1}
                                                 {isCurrent && <span className="text-xs text-gray-600 dark:text-zinc-400 font-normal"> (Current)</span>}
                                             </span>
                                             <p className="text-xs text-gray-600 dark:text-zinc-400 block mt-0.5">
                                                 {new Date(entry.timestamp).toLocaleString()}
                                             </p>
+                                            {branchedFrom !== null && (
+                                                <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">Branched from Version {branchedFrom + 1}</p>
+                                            )}
+                                            {alternativeCount > 0 && (
+                                                <p className="text-xs text-gray-500 dark:text-zinc-400 mt-0.5">
+                                                    {alternativeCount + 1} branches continue from here
+                                                </p>
+                                            )}
                                         </div>
                                          {!isCurrent && (
-                                            <button 
-                                                onClick={() => onRestore(entry.originalIndex)}
-                                                className="text-xs font-medium bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300 px-2 py-1 rounded-md transition-colors"
-                                            >
-                                                Restore
-                                            </button>
+                                            <div className="flex flex-col gap-1 flex-shrink-0">
+                                                <button 
+                                                    onClick={() => onSwitchVersion(index)}
+                                                    className="text-xs font-medium bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300 px-2 py-1 rounded-md transition-colors"
+                                                >
+                                                    Switch
+                                                </button>
+                                                <button
+                                                    onClick={() => compare(index, currentIndex)}
+                                                    className="text-xs font-medium border border-gray-300 dark:border-zinc-600 text-gray-800 dark:text-zinc-200 hover:bg-gray-100 dark:hover:bg-zinc-700 px-2 py-1 rounded-md transition-colors"
+                                                    title="Compare with the current version"
+                                                >
+                                                    Diff
+                                                </button>
+                                            </div>
                                         )}
                                     </div>
                                     <p className="text-xs text-gray-700 dark:text-zinc-300 mt-2 p-2 bg-gray-100 dark:bg-zinc-900/50 rounded">
@@ -1,13 +1,43 @@
 import React, { useState, useMemo, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import html2canvas from 'html2canvas';
 import { File } from '../services/geminiService';
+import { createPreviewSession, isPreviewServerAvailable, PreviewInjection } from '../services/previewServer';
+import { createConsoleEntry, PreviewConsoleEntry } from '../services/previewConsole';
+import { createSelectedElements, SelectedElement } from '../services/elementContext';
+import { SOURCE_LOCATION_ATTRIBUTE, tagSourceLocations } from '../services/sourceLocations';
+import { createTextEdit, createVisualEditTarget, VisualEdit, VisualEditTarget, VISUAL_EDIT_PROPERTIES } from '../services/visualEdits';
+import { bundleProject } from '../services/previewBundler';
+import { CompileError, PreviewCompileError, transformPreviewFiles } from '../services/previewTransforms';
+import { needsBundling, ProjectTarget } from '../services/projectTargets';
+import { getStylingRuntime, ProjectStyling } from '../services/projectStyling';
+import { isBinaryFile, toDataUrl } from '../services/binaryFiles';
 
 interface LivePreviewProps {
     files: File[];
+    // Framework projects are bundled in the browser before they are shown; see `bundleProject`.
+    target?: ProjectTarget;
+    // Bootstrap projects get its stylesheet and script added to every page, as the export does.
+    styling?: ProjectStyling;
     isSelectionModeActive: boolean;
+    // Lets the user select elements to style and edit text in place; see `visualEditScript`.
+    isVisualEditActive?: boolean;
+    onConsoleEntry?: (entry: PreviewConsoleEntry) => void;
+    // Called as elements are picked in selection mode; `isDone` is set once picking has finished.
+    onElementsSelected?: (elements: SelectedElement[], isDone: boolean) => void;
+    // Called whenever a page starts loading in the preview, so its console can be cleared.
+    onPageLoad?: () => void;
+    onVisualEditSelect?: (target: VisualEditTarget | null) => void;
+    onVisualEdit?: (edit: VisualEdit) => void;
+    // Called with the files that failed to compile each time the files are prepared, or an empty list.
+    onCompileErrors?: (errors: PreviewCompileError[]) => void;
 }
 
 export interface LivePreviewHandle {
     reload: () => void;
+    // Renders the visible part of the page to a canvas, or resolves to null if nothing is loaded.
+    capture: () => Promise<HTMLCanvasElement | null>;
+    // Shows a style on the element selected in visual edit mode until the files are changed.
+    setVisualEditStyle: (property: string, value: string) => void;
 }
 
 const createBlobUrl = (htmlContent: string): string => {
@@ -17,47 +47,43 @@ const createBlobUrl = (htmlContent: string): string => {
 
 const elementSelectorScript = `
 <script>
-    // This script is injected into the iframe to handle element selection.
+    /*
+     * Injected into the iframe to pick elements. Click selects one element and finishes; shift-click adds or
+     * removes elements and keeps picking. The arrow keys move the highlight to the parent (up), first child
+     * (down) and siblings (left/right); Enter selects the highlighted element (shift+Enter adds it) and
+     * Escape finishes with the current selection. Elements carry their lines in the project's HTML in a
+     * \`${SOURCE_LOCATION_ATTRIBUTE}\` attribute (see services/sourceLocations.ts).
+     */
     (function() {
-        const overlay = document.createElement('div');
-        overlay.style.position = 'absolute';
-        overlay.style.backgroundColor = 'rgba(66, 133, 244, 0.3)';
-        overlay.style.borderColor = '#4285F4';
-        overlay.style.borderStyle = 'solid';
-        overlay.style.borderWidth = '1px';
-        overlay.style.borderRadius = '3px';
-        overlay.style.pointerEvents = 'none';
-        overlay.style.zIndex = '9999';
-        overlay.style.transition = 'all 100ms ease';
+        const MAX_HTML_LENGTH = 3000;
+        const MAX_RULES = 20;
+        const STYLE_PROPERTIES = [
+            'display', 'position', 'box-sizing', 'width', 'height', 'min-height', 'max-width',
+            'margin', 'padding', 'border', 'border-radius', 'box-shadow',
+            'color', 'background-color', 'background-image', 'opacity',
+            'font-family', 'font-size', 'font-weight', 'line-height', 'text-align',
+            'flex-direction', 'flex-wrap', 'flex', 'align-items', 'justify-content', 'gap',
+            'grid-template-columns', 'grid-template-rows', 'overflow', 'z-index'
+        ];
+
+        const hoverOverlay = createOverlay('rgba(66, 133, 244, 0.3)', '#4285F4');
+        let selected = [];
         let currentTarget = null;
 
-        function getCssSelector(el) {
-            if (!(el instanceof Element)) return;
-            const path = [];
-            while (el.nodeType === Node.ELEMENT_NODE) {
-                let selector = el.nodeName.toLowerCase();
-                if (el.id) {
-                    selector += '#' + el.id.trim();
-                    path.unshift(selector);
-                    break;
-                } else {
-                    let sib = el, nth = 1;
-                    while (sib = sib.previousElementSibling) {
-                        if (sib.nodeName.toLowerCase() == selector) nth++;
-                    }
-                    if (nth != 1) selector += ":nth-of-type("+nth+")";
-                }
-                path.unshift(selector);
-                el = el.parentNode;
-            }
-            return path.join(" > ");
+        function createOverlay(background, border) {
+            const overlay = document.createElement('div');
+            overlay.style.position = 'absolute';
+            overlay.style.backgroundColor = background;
+            overlay.style.border = '1px solid ' + border;
+            overlay.style.borderRadius = '3px';
+            overlay.style.pointerEvents = 'none';
+            overlay.style.zIndex = '9999';
+            overlay.style.transition = 'all 100ms ease';
+            overlay.setAttribute('data-preview-overlay', '');
+            return overlay;
         }
 
-        function highlight(el) {
-            if (!el || el === document.body) {
-                hideHighlight();
-                return;
-            };
+        function placeOverlay(overlay, el) {
             if (!document.body.contains(overlay)) {
                 document.body.appendChild(overlay);
             }
@@ -66,16 +92,177 @@ const elementSelectorScript = `
             overlay.style.height = rect.height + 'px';
             overlay.style.top = (rect.top + window.scrollY) + 'px';
             overlay.style.left = (rect.left + window.scrollX) + 'px';
+        }
+
+        function isSelectable(el) {
+            return el instanceof Element && el !== document.documentElement && el !== document.body && !el.hasAttribute('data-preview-overlay');
+        }
+
+        function isUnique(selector) {
+            try {
+                return document.querySelectorAll(selector).length === 1;
+            } catch (e) {
+                return false;
+            }
+        }
+
+        function getUniqueId(el) {
+            return el.id && isUnique('#' + CSS.escape(el.id)) ? '#' + CSS.escape(el.id) : null;
+        }
+
+        /* The tag and first two classes, with a position only when a sibling would match as well. */
+        function getSegment(el) {
+            let segment = el.tagName.toLowerCase() + Array.prototype.slice.call(el.classList, 0, 2).map(function(name) { return '.' + CSS.escape(name); }).join('');
+            const parent = el.parentElement;
+            if (parent && Array.prototype.filter.call(parent.children, function(sibling) { return sibling.matches(segment); }).length > 1) {
+                let nth = 1;
+                for (let sibling = el.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+                    if (sibling.tagName === el.tagName) nth++;
+                }
+                segment += ':nth-of-type(' + nth + ')';
+            }
+            return segment;
+        }
+
+        /* The shortest chain up from the element that matches only it, anchored at the closest unique id. */
+        function getCssSelector(el) {
+            const path = [];
+            for (let node = el; node && node !== document.documentElement; node = node.parentElement) {
+                const id = getUniqueId(node);
+                path.unshift(id || getSegment(node));
+                if (id || isUnique(path.join(' > '))) break;
+            }
+            return path.join(' > ');
+        }
+
+        function getSource(el) {
+            const tagged = el.closest('[${SOURCE_LOCATION_ATTRIBUTE}]');
+            return tagged ? { source: tagged.getAttribute('${SOURCE_LOCATION_ATTRIBUTE}'), isSourceOfAncestor: tagged !== el } : {};
+        }
+
+        function getHtml(el) {
+            const clone = el.cloneNode(true);
+            clone.removeAttribute('${SOURCE_LOCATION_ATTRIBUTE}');
+            clone.querySelectorAll('[${SOURCE_LOCATION_ATTRIBUTE}]').forEach(function(node) { node.removeAttribute('${SOURCE_LOCATION_ATTRIBUTE}'); });
+            return clone.outerHTML;
+        }
+
+        function getSheetSource(sheet) {
+            if (sheet.href) return sheet.href;
+            const node = sheet.ownerNode;
+            return (node && node.getAttribute && node.getAttribute('data-source')) || 'inline <style>';
+        }
+
+        function collectRules(rules, el, source, condition, found) {
+            for (let i = 0; i < rules.length && found.length < MAX_RULES; i++) {
+                const rule = rules[i];
+                if (rule.selectorText !== undefined && rule.style) {
+                    try {
+                        if (el.matches(rule.selectorText)) {
+                            found.push({ selector: rule.selectorText, declarations: rule.style.cssText, source: source, condition: condition });
+                        }
+                    } catch (e) { /* A selector this browser cannot match. */ }
+                } else if (rule.cssRules) {
+                    const nested = rule.conditionText || (rule.media && rule.media.mediaText);
+                    collectRules(rule.cssRules, el, source, nested ? '@' + (rule.media ? 'media ' : 'supports ') + nested : condition, found);
+                }
+            }
+        }
+
+        function getMatchingRules(el) {
+            const found = [];
+            Array.prototype.forEach.call(document.styleSheets, function(sheet) {
+                let rules;
+                try {
+                    rules = sheet.cssRules;
+                } catch (e) {
+                    return; /* Stylesheets from other origins, such as CDNs, cannot be read and are not part of the project. */
+                }
+                if (rules) collectRules(rules, el, getSheetSource(sheet), undefined, found);
+            });
+            return found;
+        }
+
+        function describe(el) {
+            const computed = window.getComputedStyle(el);
+            const styles = {};
+            STYLE_PROPERTIES.forEach(function(name) {
+                const value = computed.getPropertyValue(name);
+                if (value) styles[name] = value;
+            });
+            const rect = el.getBoundingClientRect();
+            const html = getHtml(el);
+            const location = getSource(el);
+            return {
+                selector: getCssSelector(el),
+                tagName: el.tagName.toLowerCase(),
+                html: html.length > MAX_HTML_LENGTH ? html.slice(0, MAX_HTML_LENGTH) + '<!-- truncated -->' : html,
+                bounds: {
+                    x: Math.round(rect.left + window.scrollX),
+                    y: Math.round(rect.top + window.scrollY),
+                    width: Math.round(rect.width),
+                    height: Math.round(rect.height)
+                },
+                styles: styles,
+                rules: getMatchingRules(el),
+                source: location.source,
+                isSourceOfAncestor: location.isSourceOfAncestor
+            };
+        }
+
+        function report(isDone) {
+            window.parent.postMessage({
+                type: 'elementsSelected',
+                payload: { elements: selected.map(function(item) { return describe(item.element); }), isDone: isDone }
+            }, '*');
+        }
+
+        function highlight(el) {
+            if (!isSelectable(el)) {
+                hideHighlight();
+                return;
+            }
+            placeOverlay(hoverOverlay, el);
             currentTarget = el;
         }
 
         function hideHighlight() {
-            if (document.body.contains(overlay)) {
-                document.body.removeChild(overlay);
+            if (document.body.contains(hoverOverlay)) {
+                document.body.removeChild(hoverOverlay);
             }
             currentTarget = null;
         }
 
+        function toggle(el) {
+            const index = selected.findIndex(function(item) { return item.element === el; });
+            if (index !== -1) {
+                selected[index].overlay.remove();
+                selected.splice(index, 1);
+                return;
+            }
+            const overlay = createOverlay('rgba(251, 146, 60, 0.25)', '#F97316');
+            placeOverlay(overlay, el);
+            selected.push({ element: el, overlay: overlay });
+        }
+
+        function finish() {
+            report(true);
+            cleanup();
+        }
+
+        function pick(el, isAdding) {
+            if (!isSelectable(el)) return;
+            if (isAdding) {
+                toggle(el);
+                report(false);
+            } else {
+                selected.forEach(function(item) { item.overlay.remove(); });
+                selected = [];
+                toggle(el);
+                finish();
+            }
+        }
+
         function handleMouseOver(e) {
             highlight(e.target);
         }
@@ -87,32 +274,57 @@ const elementSelectorScript = `
         function handleClick(e) {
             e.preventDefault();
             e.stopPropagation();
-            if (currentTarget) {
-                const selector = getCssSelector(currentTarget);
-                const html = currentTarget.outerHTML;
-                window.parent.postMessage({ type: 'elementSelected', payload: { selector, html } }, '*');
-                cleanup();
+            if (currentTarget) pick(currentTarget, e.shiftKey);
+        }
+
+        function handleKeyDown(e) {
+            const moves = {
+                ArrowUp: currentTarget && currentTarget.parentElement,
+                ArrowDown: currentTarget && currentTarget.firstElementChild,
+                ArrowLeft: currentTarget && currentTarget.previousElementSibling,
+                ArrowRight: currentTarget && currentTarget.nextElementSibling
+            };
+            if (e.key in moves) {
+                e.preventDefault();
+                if (!currentTarget) {
+                    highlight(document.body.firstElementChild);
+                } else if (isSelectable(moves[e.key])) {
+                    highlight(moves[e.key]);
+                }
+            } else if (e.key === 'Enter' && currentTarget) {
+                e.preventDefault();
+                pick(currentTarget, e.shiftKey);
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                finish();
             }
         }
-        
+
         function handleScroll() {
             if (currentTarget) {
                 highlight(currentTarget);
             }
+            selected.forEach(function(item) { placeOverlay(item.overlay, item.element); });
         }
 
         function cleanup() {
             hideHighlight();
+            selected.forEach(function(item) { item.overlay.remove(); });
             document.removeEventListener('mouseover', handleMouseOver, true);
             document.removeEventListener('mouseout', handleMouseOut, true);
             document.removeEventListener('click', handleClick, true);
+            document.removeEventListener('keydown', handleKeyDown, true);
             window.removeEventListener('scroll', handleScroll, true);
+            window.removeEventListener('resize', handleScroll);
         }
 
         document.addEventListener('mouseover', handleMouseOver, true);
         document.addEventListener('mouseout', handleMouseOut, true);
         document.addEventListener('click', handleClick, true);
+        document.addEventListener('keydown', handleKeyDown, true);
         window.addEventListener('scroll', handleScroll, true);
+        window.addEventListener('resize', handleScroll);
+        window.focus();
 
         // Safety cleanup in case the parent removes the iframe
         window.addEventListener('unload', cleanup);
@@ -120,22 +332,545 @@ const elementSelectorScript = `
 </script>
 `;
 
-export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(({ files, isSelectionModeActive }, ref) => {
+const visualEditScript = `
+<script>
+    /*
+     * Injected into the iframe for visual editing. Clicking an element written in the project's HTML selects it
+     * and reports its styles; double-clicking an element that only holds text edits it in place, and Enter
+     * (without shift), Escape or clicking elsewhere finishes the edit. Styles from the inspector arrive as
+     * 'visualEditStyle' messages and are applied to the selected element straight away.
+     */
+    (function() {
+        const ATTRIBUTE = '${SOURCE_LOCATION_ATTRIBUTE}';
+        const PROPERTIES = ${JSON.stringify(VISUAL_EDIT_PROPERTIES)};
+        const INLINE_ELEMENTS = ['a', 'abbr', 'b', 'br', 'cite', 'code', 'em', 'i', 'kbd', 'mark', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u'];
+        const NOT_EDITABLE = ['html', 'head', 'body', 'script', 'style', 'textarea', 'select', 'option', 'input', 'button', 'svg', 'canvas', 'iframe', 'video', 'audio'];
+
+        const hoverOverlay = createOverlay('rgba(66, 133, 244, 0.15)', '#4285F4');
+        const selectedOverlay = createOverlay('rgba(251, 146, 60, 0.1)', '#F97316');
+        let selected = null;
+        let editing = null;
+        let originalHtml = '';
+        let restoreHtml = '';
+
+        function createOverlay(background, border) {
+            const overlay = document.createElement('div');
+            overlay.style.position = 'absolute';
+            overlay.style.backgroundColor = background;
+            overlay.style.outline = '1px solid ' + border;
+            overlay.style.pointerEvents = 'none';
+            overlay.style.zIndex = '9999';
+            overlay.setAttribute('data-preview-overlay', '');
+            return overlay;
+        }
+
+        function placeOverlay(overlay, el) {
+            if (!el) {
+                overlay.remove();
+                return;
+            }
+            if (!document.body.contains(overlay)) {
+                document.body.appendChild(overlay);
+            }
+            const rect = el.getBoundingClientRect();
+            overlay.style.width = rect.width + 'px';
+            overlay.style.height = rect.height + 'px';
+            overlay.style.top = (rect.top + window.scrollY) + 'px';
+            overlay.style.left = (rect.left + window.scrollX) + 'px';
+        }
+
+        /* Elements created by scripts cannot be written back, so the closest element written in HTML is used. */
+        function getTarget(node) {
+            const el = node instanceof Element ? node.closest('[' + ATTRIBUTE + ']') : null;
+            return el && el !== document.documentElement && el !== document.body && /\\.html?:/i.test(el.getAttribute(ATTRIBUTE)) ? el : null;
+        }
+
+        function canEditText(el) {
+            if (NOT_EDITABLE.indexOf(el.tagName.toLowerCase()) !== -1 || !el.textContent.trim()) return false;
+            return Array.prototype.every.call(el.querySelectorAll('*'), function(child) {
+                return INLINE_ELEMENTS.indexOf(child.tagName.toLowerCase()) !== -1 && child.hasAttribute(ATTRIBUTE);
+            });
+        }
+
+        function getInnerHtml(el) {
+            const clone = el.cloneNode(true);
+            clone.querySelectorAll('[' + ATTRIBUTE + ']').forEach(function(node) { node.removeAttribute(ATTRIBUTE); });
+            return clone.innerHTML;
+        }
+
+        function send(type, payload) {
+            window.parent.postMessage({ type: type, payload: payload }, '*');
+        }
+
+        function select(el) {
+            selected = el;
+            placeOverlay(selectedOverlay, el);
+            if (!el) {
+                send('visualEditSelect', null);
+                return;
+            }
+            const computed = window.getComputedStyle(el);
+            const styles = {};
+            PROPERTIES.forEach(function(name) { styles[name] = computed.getPropertyValue(name); });
+            send('visualEditSelect', {
+                source: el.getAttribute(ATTRIBUTE),
+                tagName: el.tagName.toLowerCase(),
+                styles: styles,
+                canEditText: canEditText(el)
+            });
+        }
+
+        function startEditing(el) {
+            editing = el;
+            originalHtml = getInnerHtml(el);
+            restoreHtml = el.innerHTML;
+            el.setAttribute('contenteditable', 'true');
+            el.focus();
+            placeOverlay(hoverOverlay, null);
+        }
+
+        function finishEditing() {
+            if (!editing) return;
+            const el = editing;
+            editing = null;
+            el.removeAttribute('contenteditable');
+            const html = getInnerHtml(el);
+            if (html !== originalHtml) {
+                send('visualEditText', { source: el.getAttribute(ATTRIBUTE), html: html });
+            }
+            placeOverlay(selectedOverlay, selected);
+        }
+
+        document.addEventListener('mouseover', function(e) {
+            if (!editing) placeOverlay(hoverOverlay, getTarget(e.target));
+        }, true);
+
+        document.addEventListener('click', function(e) {
+            if (editing && editing.contains(e.target)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            finishEditing();
+            select(getTarget(e.target));
+        }, true);
+
+        document.addEventListener('dblclick', function(e) {
+            const el = getTarget(e.target);
+            if (el && el !== editing && canEditText(el)) {
+                e.preventDefault();
+                select(el);
+                startEditing(el);
+            }
+        }, true);
+
+        document.addEventListener('keydown', function(e) {
+            if (!editing) return;
+            if (e.key === 'Escape') {
+                editing.innerHTML = restoreHtml;
+                finishEditing();
+            } else if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                finishEditing();
+            }
+        }, true);
+
+        document.addEventListener('focusout', function(e) {
+            if (editing && e.target === editing) finishEditing();
+        }, true);
+
+        /* Submitting forms and following links would leave the page while editing. */
+        document.addEventListener('submit', function(e) { e.preventDefault(); }, true);
+
+        window.addEventListener('message', function(e) {
+            if (e.source !== window.parent || !e.data || e.data.type !== 'visualEditStyle' || !selected) return;
+            selected.style.setProperty(e.data.property, e.data.value);
+            placeOverlay(selectedOverlay, selected);
+        });
+
+        window.addEventListener('scroll', function() {
+            placeOverlay(selectedOverlay, selected);
+        }, true);
+        window.addEventListener('resize', function() {
+            placeOverlay(selectedOverlay, selected);
+        });
+    })();
+</script>
+`;
+
+/*
+ * Forwards console output, uncaught errors, unhandled rejections and failed requests to the editor.
+ * It is injected at the top of <head> on a single line (see `consoleCaptureHtml`) so that line numbers
+ * in the page stay the same; it must therefore only use block comments and explicit semicolons.
+ */
+const consoleCaptureScript = `
+(function() {
+    if (window.__previewConsoleInstalled) return;
+    window.__previewConsoleInstalled = true;
+
+    const send = function(payload) {
+        try {
+            window.parent.postMessage({ type: 'previewConsole', payload: payload }, '*');
+        } catch (e) { /* The payload could not be cloned. */ }
+    };
+
+    const describe = function(value) {
+        if (value instanceof Error) return value.stack && value.stack.indexOf(value.message) !== -1 ? value.stack : value.name + ': ' + value.message;
+        if (typeof value === 'string') return value;
+        if (typeof value === 'undefined') return 'undefined';
+        if (typeof value === 'function') return 'function ' + (value.name || 'anonymous') + '()';
+        if (typeof Element !== 'undefined' && value instanceof Element) return '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + '>';
+        try {
+            const seen = new WeakSet();
+            return JSON.stringify(value, function(key, item) {
+                if (typeof item === 'object' && item !== null) {
+                    if (seen.has(item)) return '[Circular]';
+                    seen.add(item);
+                }
+                if (typeof item === 'bigint') return item.toString() + 'n';
+                if (typeof item === 'function') return 'function ' + (item.name || 'anonymous') + '()';
+                return item;
+            }, 2);
+        } catch (e) {
+            return String(value);
+        }
+    };
+
+    /* The frame that called console.*: frames 0 and 1 are this helper and the console wrapper. */
+    const callerLocation = function() {
+        const frames = (new Error().stack || '').split('\\n').map(function(line) {
+            const match = line.match(/((?:https?|blob):[^\\s()]+:\\d+:\\d+)/);
+            return match ? match[1] : null;
+        }).filter(Boolean);
+        return frames[2];
+    };
+
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(function(level) {
+        const original = console[level];
+        console[level] = function() {
+            const args = Array.prototype.slice.call(arguments);
+            send({ source: 'console', level: level, message: args.map(describe).join(' '), location: callerLocation() });
+            return original.apply(console, arguments);
+        };
+    });
+
+    window.addEventListener('error', function(e) {
+        const target = e.target;
+        if (target && target !== window && (target.src || target.href)) {
+            send({ source: 'network', level: 'error', message: 'Failed to load ' + target.tagName.toLowerCase() + ' ' + (target.src || target.href) });
+            return;
+        }
+        send({
+            source: 'error',
+            level: 'error',
+            message: e.message || 'Uncaught error',
+            stack: e.error && e.error.stack,
+            location: e.filename ? e.filename + ':' + e.lineno + ':' + e.colno : undefined
+        });
+    }, true);
+
+    window.addEventListener('unhandledrejection', function(e) {
+        const reason = e.reason;
+        send({
+            source: 'rejection',
+            level: 'error',
+            message: 'Unhandled promise rejection: ' + (reason instanceof Error ? reason.name + ': ' + reason.message : describe(reason)),
+            stack: reason && reason.stack
+        });
+    });
+
+    if (window.fetch) {
+        const originalFetch = window.fetch;
+        window.fetch = function(input, init) {
+            const url = typeof Request !== 'undefined' && input instanceof Request ? input.url : String(input);
+            const method = ((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+            return originalFetch.apply(this, arguments).then(function(response) {
+                if (!response.ok) {
+                    send({ source: 'network', level: 'error', message: method + ' ' + (response.url || url) + ' ' + response.status + ' ' + response.statusText });
+                }
+                return response;
+            }, function(error) {
+                send({ source: 'network', level: 'error', message: method + ' ' + url + ' failed: ' + (error && error.message) });
+                throw error;
+            });
+        };
+    }
+
+    const originalOpen = XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.open = function(method, url) {
+        this.__previewRequest = String(method).toUpperCase() + ' ' + url;
+        return originalOpen.apply(this, arguments);
+    };
+    const originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.send = function() {
+        const xhr = this;
+        xhr.addEventListener('loadend', function() {
+            if (xhr.status === 0 || xhr.status >= 400) {
+                send({ source: 'network', level: 'error', message: xhr.__previewRequest + (xhr.status ? ' ' + xhr.status + ' ' + xhr.statusText : ' failed') });
+            }
+        });
+        return originalSend.apply(this, arguments);
+    };
+
+    window.parent.postMessage({ type: 'previewPageLoad' }, '*');
+})();
+`;
+
+const consoleCaptureHtml = `<script>${consoleCaptureScript.replace(/\n\s*/g, ' ')}</script>`;
+
+// Keeps links inside the served preview: root-relative links are mapped into the project and external links open in a new tab.
+const createServedNavigationScript = (basePath: string) => `
+<script>
+    document.addEventListener('click', function(e) {
+        const target = e.target.closest ? e.target.closest('a[href]') : null;
+        if (!target || target.getAttribute('target') === '_blank') return;
+
+        const href = target.getAttribute('href');
+        if (!href || href.trim() === '#' || href.trim().toLowerCase().startsWith('javascript:')) return;
+
+        const url = new URL(href, window.location.href);
+        if (url.origin !== window.location.origin) {
+            e.preventDefault();
+            window.open(url, '_blank');
+        } else if (!url.pathname.startsWith('${basePath}')) {
+            e.preventDefault();
+            window.location.href = '${basePath}' + url.pathname.substring(1) + url.search + url.hash;
+        }
+    }, true);
+</script>
+`;
+
+// Used when service workers are unavailable: the page is served from a blob, so navigation goes through the parent.
+const inlinedNavigationScript = `
+    <script>
+        document.addEventListener('click', function(e) {
+            let target = e.target;
+            while (target && target.tagName !== 'A') {
+                target = target.parentElement;
+            }
+
+            if (target && target.hasAttribute('href')) {
+                const href = target.getAttribute('href');
+                // Prevent navigation for empty, hash, or javascript links
+                if (!href || href.trim() === '#' || href.trim().toLowerCase().startsWith('javascript:')) {
+                     e.preventDefault();
+                     return;
+                }
+
+                const url = new URL(href, window.location.origin);
+                
+                // Handle internal navigation
+                if (url.origin === window.location.origin) {
+                    e.preventDefault();
+                    const path = url.pathname.startsWith('/') ? url.pathname.substring(1) : url.pathname;
+                    window.parent.postMessage({ type: 'navigate', path: path }, '*');
+                }
+                // Force external links to open in a new tab for better UX
+                else if (url.origin !== window.location.origin) {
+                    e.preventDefault();
+                    window.open(url, '_blank');
+                }
+            }
+        }, true); // Use capture phase to catch event early
+    </script>
+`;
+
+const pageNotFoundDocument = (path: string) => `
+    <html>
+        <head>
+            <style>
+                :root {
+                    --bg-color: #f8f9fa;
+                    --text-color: #343a40;
+                    --container-bg: #ffffff;
+                    --code-bg: #e9ecef;
+                }
+                @media (prefers-color-scheme: dark) {
+                    :root {
+                        --bg-color: #18181b;
+                        --text-color: #e4e4e7;
+                        --container-bg: #27272a;
+                        --code-bg: #3f3f46;
+                    }
+                }
+                body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: var(--bg-color); color: var(--text-color); display: flex; align-items: center; justify-content: center; height: 100vh; margin: 0; }
+                .container { text-align: center; padding: 2rem; background-color: var(--container-bg); border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+                h1 { font-size: 1.5rem; color: #d9480f; }
+                code { background-color: var(--code-bg); padding: 0.2em 0.4em; margin: 0; font-size: 85%; border-radius: 3px; }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Page Not Found</h1>
+                <p>Could not find the file <code>${path}</code> in your project.</p>
+            </div>
+        </body>
+    </html>
+`;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A page loaded from a blob URL cannot fetch the project's images and fonts, so references to them become data URLs.
+const inlineBinaryFiles = (html: string, files: File[]): string => files.filter(isBinaryFile).reduce(
+    (result, file) => result.replace(
+        new RegExp(`(["'(])(?:\\.?/)?${escapeRegExp(file.path)}(?=["')])`, 'g'),
+        (_, opening: string) => `${opening}${toDataUrl(file)}`
+    ),
+    html
+);
+
+/**
+ * Builds a single self-contained document by inlining the page's stylesheets and scripts.
+ * Only used as a fallback; ES modules, fetch() and relative asset URLs do not work this way.
+ */
+const buildInlinedDocument = (files: File[], activePath: string, injection: PreviewInjection): string => {
+    const htmlFile = files.find(f => f.path === activePath);
+    if (!htmlFile) {
+        return pageNotFoundDocument(activePath);
+    }
+
+    let processedHtml = htmlFile.content;
+
+    // Inline CSS: Use a replacer function to handle multiple link tags
+    processedHtml = processedHtml.replace(/<link.+?href="([^"]+\.(?:css|scss|sass|less))"[^>]*>/g, (linkTag, path) => {
+        const cssFile = files.find(f => f.path === path);
+        if (cssFile) {
+            // The element picker reports rules from this stylesheet under its project path.
+            return `<style data-source="${path}">\n${cssFile.content}\n</style>`;
+        }
+        return linkTag;
+    });
+
+    // Inline JS: Use a replacer function to handle multiple script tags
+    processedHtml = processedHtml.replace(/<script[^>]+?src="([^"]+)"[^>]*><\/script>/g, (scriptTag, path) => {
+        const jsFile = files.find(f => f.path === path);
+        if (jsFile) {
+            // Bundled framework code is an ES module; it relies on the page's import map for its packages.
+            const type = /\btype=["']module["']/.test(scriptTag) ? ' type="module"' : '';
+            return `<script${type}>\n${jsFile.content}\n</script>`;
+        }
+        return scriptTag;
+    });
+
+    processedHtml = inlineBinaryFiles(processedHtml, files);
+
+    const head = processedHtml.match(/<head(\s[^>]*)?>/i);
+    processedHtml = head
+        ? processedHtml.slice(0, head.index! + head[0].length) + injection.head + processedHtml.slice(head.index! + head[0].length)
+        : injection.head + processedHtml;
+
+    // Add script before closing body tag
+    if (processedHtml.includes('</body>')) {
+        processedHtml = processedHtml.replace('</body>', () => `${injection.body}</body>`);
+    } else {
+        processedHtml += injection.body;
+    }
+
+    return processedHtml;
+};
+
+export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(({ files, target, styling, isSelectionModeActive, isVisualEditActive = false, onConsoleEntry, onElementsSelected, onPageLoad, onVisualEditSelect, onVisualEdit, onCompileErrors }, ref) => {
     const [activePath, setActivePath] = useState('index.html');
+    // null while the preview server is starting, false if it is unavailable and the inlined fallback is used.
+    const [isServerAvailable, setIsServerAvailable] = useState<boolean | null>(null);
+    const [servedVersion, setServedVersion] = useState(0);
+    const [session] = useState(createPreviewSession);
+    // The files as served: compiled and, for framework projects, bundled. The last ones stay on screen while the next are prepared.
+    const [previewFiles, setPreviewFiles] = useState<File[] | null>(null);
     const iframeRef = useRef<HTMLIFrameElement>(null);
 
     useImperativeHandle(ref, () => ({
         reload: () => {
             iframeRef.current?.contentWindow?.location.reload();
-        }
+        },
+        // The frame is same-origin (see `sandbox` below), so its document can be read and drawn directly.
+        capture: async () => {
+            const frameWindow = iframeRef.current?.contentWindow;
+            const frameDocument = iframeRef.current?.contentDocument;
+            if (!frameWindow || !frameDocument?.documentElement) return null;
+            return html2canvas(frameDocument.documentElement, {
+                x: frameWindow.scrollX,
+                y: frameWindow.scrollY,
+                width: frameWindow.innerWidth,
+                height: frameWindow.innerHeight,
+                windowWidth: frameWindow.innerWidth,
+                windowHeight: frameWindow.innerHeight,
+                scale: 1,
+                useCORS: true,
+                logging: false,
+            });
+        },
+        setVisualEditStyle: (property: string, value: string) => {
+            iframeRef.current?.contentWindow?.postMessage({ type: 'visualEditStyle', property, value }, '*');
+        },
     }));
 
+    useEffect(() => {
+        let isCancelled = false;
+        isPreviewServerAvailable().then(isAvailable => {
+            if (!isCancelled) setIsServerAvailable(isAvailable);
+        });
+        return () => {
+            isCancelled = true;
+            session.dispose();
+        };
+    }, [session]);
+
     // Reset to index.html when files change (e.g., new generation or project switch)
     useEffect(() => {
         setActivePath('index.html');
     }, [files]);
 
-    // Listen for navigation messages from the iframe
+    // While picking or editing elements, HTML files are served with their source locations so elements map back to the code.
+    const taggedFiles = useMemo(() => {
+        if (!isSelectionModeActive && !isVisualEditActive) return files;
+        return files.map(file => /\.html?$/i.test(file.path) ? { ...file, content: tagSourceLocations(file.content, file.path) } : file);
+    }, [files, isSelectionModeActive, isVisualEditActive]);
+
+    // Compiling and bundling run after tagging, so element indices still count the elements of the project's own HTML.
+    useEffect(() => {
+        let isCancelled = false;
+        (async () => {
+            try {
+                const { files: compiledFiles, errors } = await transformPreviewFiles(taggedFiles, target);
+                const result = needsBundling(target) ? await bundleProject(compiledFiles, target!) : compiledFiles;
+                if (isCancelled) return;
+                setPreviewFiles(result);
+                onCompileErrors?.(errors);
+            } catch (e) {
+                // The compilers failed to load or the bundle could not be built: the last preview stays, with the reason shown.
+                console.error('Failed to build the preview:', e);
+                if (isCancelled) return;
+                const error: PreviewCompileError = e instanceof CompileError
+                    ? { path: e.path ?? 'index.html', message: e.message, line: e.line, column: e.column }
+                    : { path: 'index.html', message: `The preview could not be built: ${e instanceof Error ? e.message : String(e)}` };
+                onCompileErrors?.([error]);
+            }
+        })();
+        return () => {
+            isCancelled = true;
+        };
+    }, [taggedFiles, target, onCompileErrors]);
+
+    const modeScript = isSelectionModeActive ? elementSelectorScript : isVisualEditActive ? visualEditScript : '';
+    // Both are single lines, so the injection does not shift the page's line numbers.
+    const headHtml = consoleCaptureHtml + getStylingRuntime(styling);
+
+    // Send the files to the preview server, then remount the iframe so it loads them from index.html.
+    useEffect(() => {
+        if (!isServerAvailable || !previewFiles || previewFiles.length === 0) return;
+        let isCancelled = false;
+        const injection = {
+            head: headHtml,
+            body: createServedNavigationScript(session.basePath) + modeScript,
+        };
+        session.update(previewFiles, injection).then(() => {
+            if (!isCancelled) setServedVersion(prev => prev + 1);
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [previewFiles, headHtml, modeScript, isServerAvailable, session]);
+
+    // Listen for navigation messages from the iframe (inlined fallback only)
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
             if (event.data && event.data.type === 'navigate' && typeof event.data.path === 'string') {
@@ -152,113 +887,39 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(({ fi
         };
     }, [activePath]); // Rerun when activePath changes
 
-    const srcDoc = useMemo(() => {
-        if (!files || files.length === 0) return '';
-    
-        const htmlFile = files.find(f => f.path === activePath);
-        
-        if (!htmlFile) {
-            // If the target file doesn't exist, show a helpful error message inside the iframe.
-             return `
-                <html>
-                    <head>
-                        <style>
-                            :root {
-                                --bg-color: #f8f9fa;
-                                --text-color: #343a40;
-                                --container-bg: #ffffff;
-                                --code-bg: #e9ecef;
-                            }
-                            @media (prefers-color-scheme: dark) {
-                                :root {
-                                    --bg-color: #18181b;
-                                    --text-color: #e4e4e7;
-                                    --container-bg: #27272a;
-                                    --code-bg: #3f3f46;
-                                }
-                            }
-                            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: var(--bg-color); color: var(--text-color); display: flex; align-items: center; justify-content: center; height: 100vh; margin: 0; }
-                            .container { text-align: center; padding: 2rem; background-color: var(--container-bg); border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
-                            h1 { font-size: 1.5rem; color: #d9480f; }
-                            code { background-color: var(--code-bg); padding: 0.2em 0.4em; margin: 0; font-size: 85%; border-radius: 3px; }
-                        </style>
-                    </head>
-                    <body>
-                        <div class="container">
-                            <h1>Page Not Found</h1>
-                            <p>Could not find the file <code>${activePath}</code> in your project.</p>
-                        </div>
-                    </body>
-                </html>
-            `;
-        }
-
-        let processedHtml = htmlFile.content;
-
-        // Inline CSS: Use a replacer function to handle multiple link tags
-        processedHtml = processedHtml.replace(/<link.+?href="([^"]+\.css)"[^>]*>/g, (linkTag, path) => {
-            const cssFile = files.find(f => f.path === path);
-            if (cssFile) {
-                return `<style>\n${cssFile.content}\n</style>`;
-            }
-            return linkTag;
-        });
-
-        // Inline JS: Use a replacer function to handle multiple script tags
-        processedHtml = processedHtml.replace(/<script.+?src="([^"]+)"[^>]*><\/script>/g, (scriptTag, path) => {
-            const jsFile = files.find(f => f.path === path);
-            if (jsFile) {
-                return `<script>\n${jsFile.content}\n</script>`;
+    // Forward console messages and selected elements from the preview, mapping its URLs back to project paths.
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+            const previewBaseUrl = isServerAvailable ? `${window.location.origin}${session.basePath}` : '';
+            if (event.data?.type === 'previewPageLoad') {
+                onPageLoad?.();
+            } else if (event.data?.type === 'previewConsole') {
+                const entry = createConsoleEntry(event.data.payload, previewBaseUrl);
+                if (entry) onConsoleEntry?.(entry);
+            } else if (event.data?.type === 'elementsSelected') {
+                onElementsSelected?.(createSelectedElements(event.data.payload, previewBaseUrl), !!event.data.payload?.isDone);
+            } else if (event.data?.type === 'visualEditSelect') {
+                onVisualEditSelect?.(createVisualEditTarget(event.data.payload));
+            } else if (event.data?.type === 'visualEditText') {
+                const edit = createTextEdit(event.data.payload);
+                if (edit) onVisualEdit?.(edit);
             }
-            return scriptTag;
-        });
-
-        // Inject navigation interception script
-        const navigationScript = `
-            <script>
-                document.addEventListener('click', function(e) {
-                    let target = e.target;
-                    while (target && target.tagName !== 'A') {
-                        target = target.parentElement;
-                    }
+        };
 
-                    if (target && target.hasAttribute('href')) {
-                        const href = target.getAttribute('href');
-                        // Prevent navigation for empty, hash, or javascript links
-                        if (!href || href.trim() === '#' || href.trim().toLowerCase().startsWith('javascript:')) {
-                             e.preventDefault();
-                             return;
-                        }
+        window.addEventListener('message', handleMessage);
+        return () => {
+            window.removeEventListener('message', handleMessage);
+        };
+    }, [onConsoleEntry, onElementsSelected, onPageLoad, onVisualEditSelect, onVisualEdit, isServerAvailable, session]);
 
-                        const url = new URL(href, window.location.origin);
-                        
-                        // Handle internal navigation
-                        if (url.origin === window.location.origin) {
-                            e.preventDefault();
-                            const path = url.pathname.startsWith('/') ? url.pathname.substring(1) : url.pathname;
-                            window.parent.postMessage({ type: 'navigate', path: path }, '*');
-                        }
-                        // Force external links to open in a new tab for better UX
-                        else if (url.origin !== window.location.origin) {
-                            e.preventDefault();
-                            window.open(url, '_blank');
-                        }
-                    }
-                }, true); // Use capture phase to catch event early
-            </script>
-        `;
-        
-        const finalScript = navigationScript + (isSelectionModeActive ? elementSelectorScript : '');
-
-        // Add script before closing body tag
-        if (processedHtml.includes('</body>')) {
-            processedHtml = processedHtml.replace('</body>', `${finalScript}</body>`);
-        } else {
-            processedHtml += finalScript;
-        }
-    
-        return processedHtml;
-    }, [files, activePath, isSelectionModeActive]);
+    const srcDoc = useMemo(() => {
+        if (isServerAvailable !== false || !previewFiles || previewFiles.length === 0) return '';
+        return buildInlinedDocument(previewFiles, activePath, {
+            head: headHtml,
+            body: inlinedNavigationScript + modeScript,
+        });
+    }, [previewFiles, activePath, headHtml, modeScript, isServerAvailable]);
     
     // Using a blob URL for better isolation and to handle base URLs for relative paths within the HTML.
     const blobUrl = useMemo(() => {
@@ -276,6 +937,8 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(({ fi
         };
     }, [blobUrl]);
 
+    const frameSrc = isServerAvailable ? (servedVersion > 0 ? session.urlFor('index.html') : undefined) : blobUrl;
+
     return (
         <div className={`w-full h-full flex flex-col bg-white ${isSelectionModeActive ? 'cursor-crosshair' : ''}`}>
             {files.length === 0 ? (
@@ -285,13 +948,13 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(({ fi
                         <p className="text-sm">Describe your app and click "Generate".</p>
                     </div>
                 </div>
-            ) : (
+            ) : frameSrc && (
                 <iframe
                     ref={iframeRef}
-                    key={blobUrl} // Re-mount iframe when blobUrl changes, ensuring scripts re-run
-                    src={blobUrl}
+                    key={isServerAvailable ? servedVersion : blobUrl} // Re-mount iframe when the content changes, ensuring scripts re-run
+                    src={frameSrc}
                     title="Live Preview"
-                    sandbox="allow-scripts allow-same-origin allow-forms allow-popups" // allow-popups for window.open
+                    sandbox="allow-scripts allow-same-origin allow-forms allow-popups" // allow-same-origin lets the preview worker serve the page; allow-popups for window.open
                     className="w-full h-full border-0"
                 />
             )}
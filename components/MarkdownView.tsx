@@ -0,0 +1,235 @@
+import React, { useState, useMemo } from 'react';
+import { marked, Token, MarkedToken, Tokens } from 'marked';
+import { SyntaxHighlighter } from './SyntaxHighlighter';
+import { ClipboardIcon } from './icons/ClipboardIcon';
+import { CheckIcon } from './icons/CheckIcon';
+
+interface MarkdownViewProps {
+    text: string;
+    // Paths of the project's files. Mentions of them become links that call `onOpenFile`.
+    filePaths?: string[];
+    onOpenFile?: (path: string) => void;
+}
+
+/**
+ * Markdown is parsed into tokens and every token is rendered as a React element, so model output
+ * never reaches the page as HTML. Raw HTML in the text is shown as text, and only http(s) and
+ * mailto links are kept.
+ */
+
+interface RenderContext {
+    findFile: (text: string) => string | null;
+    filePattern: RegExp | null;
+    onOpenFile?: (path: string) => void;
+}
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// The lexer escapes text and inline code as HTML; React escapes again, so the entities are decoded first.
+const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const FileLink: React.FC<{ path: string; context: RenderContext; children: React.ReactNode }> = ({ path, context, children }) => (
+    <button
+        onClick={() => context.onOpenFile?.(path)}
+        className="text-blue-600 dark:text-blue-400 hover:underline"
+        title={`Open ${path} in the code editor`}
+    >
+        {children}
+    </button>
+);
+
+// Turns mentions of project files in plain text into links.
+const renderText = (text: string, context: RenderContext, key: React.Key): React.ReactNode => {
+    if (!context.filePattern) return <React.Fragment key={key}>{text}</React.Fragment>;
+    const parts = text.split(context.filePattern);
+    // split() with a capturing group puts the matched paths at the odd indices.
+    return (
+        <React.Fragment key={key}>
+            {parts.map((part, i) => i % 2 === 1
+                ? <FileLink key={i} path={context.findFile(part)!} context={context}>{part}</FileLink>
+                : part
+            )}
+        </React.Fragment>
+    );
+};
+
+const renderInline = (tokens: Token[] | undefined, context: RenderContext): React.ReactNode[] =>
+    (tokens ?? []).map((token, i) => renderInlineToken(token as MarkedToken, context, i));
+
+const renderInlineToken = (token: MarkedToken, context: RenderContext, key: React.Key): React.ReactNode => {
+    switch (token.type) {
+        case 'text':
+            return 'tokens' in token && token.tokens
+                ? <React.Fragment key={key}>{renderInline(token.tokens, context)}</React.Fragment>
+                : renderText(decodeEntities(token.text), context, key);
+        case 'escape':
+            return <React.Fragment key={key}>{decodeEntities(token.text)}</React.Fragment>;
+        case 'strong':
+            return <strong key={key}>{renderInline(token.tokens, context)}</strong>;
+        case 'em':
+            return <em key={key}>{renderInline(token.tokens, context)}</em>;
+        case 'del':
+            return <del key={key}>{renderInline(token.tokens, context)}</del>;
+        case 'br':
+            return <br key={key} />;
+        case 'codespan': {
+            const code = decodeEntities(token.text);
+            const element = <code className="px-1 py-0.5 rounded bg-gray-200 dark:bg-zinc-800 font-mono text-[0.85em]">{code}</code>;
+            const path = context.findFile(code);
+            return path
+                ? <FileLink key={key} path={path} context={context}>{element}</FileLink>
+                : <React.Fragment key={key}>{element}</React.Fragment>;
+        }
+        case 'link': {
+            const path = context.findFile(token.href);
+            if (path) return <FileLink key={key} path={path} context={context}>{renderInline(token.tokens, context)}</FileLink>;
+            if (!SAFE_LINK.test(token.href)) return <React.Fragment key={key}>{renderInline(token.tokens, context)}</React.Fragment>;
+            return (
+                <a key={key} href={token.href} title={token.title ?? undefined} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                    {renderInline(token.tokens, context)}
+                </a>
+            );
+        }
+        case 'image':
+            // Images are not loaded; their description links to them instead.
+            return SAFE_LINK.test(token.href)
+                ? <a key={key} href={token.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{token.text || token.href}</a>
+                : <React.Fragment key={key}>{token.text}</React.Fragment>;
+        case 'html':
+            return <React.Fragment key={key}>{token.text}</React.Fragment>;
+        default:
+            return <React.Fragment key={key}>{decodeEntities((token as Tokens.Generic).raw ?? '')}</React.Fragment>;
+    }
+};
+
+const CodeBlock: React.FC<{ code: string; language?: string }> = ({ code, language }) => {
+    const [isCopied, setIsCopied] = useState(false);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(code);
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+    };
+
+    return (
+        <div className="my-2 bg-gray-900 rounded-md overflow-hidden">
+            <div className="flex justify-between items-center px-4 py-1.5 bg-zinc-700 text-xs text-zinc-300">
+                <span>{language}</span>
+                <button onClick={handleCopy} className="flex items-center gap-1.5 text-xs">
+                    {isCopied ? <CheckIcon className="w-3 h-3 text-green-400" /> : <ClipboardIcon className="w-3 h-3" />}
+                    {isCopied ? 'Copied' : 'Copy'}
+                </button>
+            </div>
+            <SyntaxHighlighter code={code} language={language} />
+        </div>
+    );
+};
+
+const headingStyles: { [depth: number]: string } = {
+    1: 'text-lg font-bold',
+    2: 'text-base font-bold',
+    3: 'text-sm font-bold',
+};
+
+const renderBlocks = (tokens: Token[], context: RenderContext): React.ReactNode[] =>
+    tokens.map((token, i) => renderBlockToken(token as MarkedToken, context, i));
+
+const renderBlockToken = (token: MarkedToken, context: RenderContext, key: React.Key): React.ReactNode => {
+    switch (token.type) {
+        case 'space':
+        case 'def':
+            return null;
+        case 'heading': {
+            const Tag = `h${Math.min(token.depth, 6)}` as 'h1';
+            return <Tag key={key} className={`${headingStyles[token.depth] ?? 'text-sm font-semibold'} mt-3 first:mt-0`}>{renderInline(token.tokens, context)}</Tag>;
+        }
+        case 'paragraph':
+            return <p key={key} className="whitespace-pre-wrap">{renderInline(token.tokens, context)}</p>;
+        case 'text':
+            // Text directly inside a tight list item.
+            return <span key={key} className="whitespace-pre-wrap">{renderInlineToken(token, context, key)}</span>;
+        case 'code':
+            return <CodeBlock key={key} code={token.text} language={token.lang?.split(/\s/)[0]} />;
+        case 'blockquote':
+            return (
+                <blockquote key={key} className="pl-3 border-l-4 border-gray-300 dark:border-zinc-600 text-gray-600 dark:text-zinc-400 space-y-2">
+                    {renderBlocks(token.tokens, context)}
+                </blockquote>
+            );
+        case 'list': {
+            const items = token.items.map((item, i) => (
+                <li key={i} className={item.task ? 'list-none -ml-5' : undefined}>
+                    {item.task && <input type="checkbox" checked={!!item.checked} disabled className="mr-2 align-middle" />}
+                    {renderBlocks(item.tokens, context)}
+                </li>
+            ));
+            return token.ordered
+                ? <ol key={key} start={token.start === '' ? undefined : token.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+                : <ul key={key} className="list-disc pl-5 space-y-1">{items}</ul>;
+        }
+        case 'table':
+            return (
+                <div key={key} className="overflow-x-auto">
+                    <table className="text-left border-collapse">
+                        <thead>
+                            <tr>
+                                {token.header.map((cell, i) => (
+                                    <th key={i} style={{ textAlign: cell.align ?? undefined }} className="px-2 py-1 border-b border-gray-300 dark:border-zinc-600 font-semibold">{renderInline(cell.tokens, context)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {token.rows.map((row, i) => (
+                                <tr key={i}>
+                                    {row.map((cell, j) => (
+                                        <td key={j} style={{ textAlign: cell.align ?? undefined }} className="px-2 py-1 border-b border-gray-200 dark:border-zinc-700">{renderInline(cell.tokens, context)}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'hr':
+            return <hr key={key} className="border-gray-300 dark:border-zinc-600" />;
+        case 'html':
+            return <p key={key} className="whitespace-pre-wrap font-mono text-xs">{token.text.trim()}</p>;
+        default:
+            return <p key={key} className="whitespace-pre-wrap">{renderInlineToken(token, context, key)}</p>;
+    }
+};
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ text, filePaths = [], onOpenFile }) => {
+    const context = useMemo<RenderContext>(() => {
+        const paths = new Set(filePaths);
+        const sortedPaths = [...filePaths].sort((a, b) => b.length - a.length);
+        return {
+            // Answers also refer to files as `./src/App.tsx` or `/src/App.tsx`.
+            findFile: (mention: string) => {
+                if (!onOpenFile) return null;
+                const path = mention.trim().replace(/^\.?\//, '');
+                return paths.has(path) ? path : null;
+            },
+            // Longest first, so `src/App.tsx` wins over `App.tsx`. Paths inside longer words or paths are skipped.
+            filePattern: onOpenFile && sortedPaths.length > 0
+                ? new RegExp(`(?<![\\w./-])((?:\\.?/)?(?:${sortedPaths.map(escapeRegExp).join('|')}))(?![\\w/-]|\\.\\w)`)
+                : null,
+            onOpenFile,
+        };
+    }, [filePaths, onOpenFile]);
+
+    const tokens = useMemo(() => marked.lexer(text, { gfm: true }), [text]);
+
+    return <div className="space-y-2">{renderBlocks(tokens, context)}</div>;
+};
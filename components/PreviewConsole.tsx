@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PreviewConsoleEntry } from '../services/previewConsole';
+import { TrashIcon } from './icons/TrashIcon';
+import { XIcon } from './icons/XIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
+
+interface PreviewConsoleProps {
+    entries: PreviewConsoleEntry[];
+    onClear: () => void;
+    onClose: () => void;
+    onFixErrors: () => void;
+    isFixing: boolean;
+}
+
+const levelStyles: { [level in PreviewConsoleEntry['level']]: string } = {
+    log: 'text-gray-800 dark:text-zinc-200',
+    info: 'text-blue-700 dark:text-blue-300',
+    debug: 'text-gray-500 dark:text-zinc-400',
+    warn: 'text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20',
+    error: 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20',
+};
+
+const formatLocation = (location: NonNullable<PreviewConsoleEntry['location']>) =>
+    location.line ? `${location.path}:${location.line}${location.column ? `:${location.column}` : ''}` : location.path;
+
+const ConsoleRow: React.FC<{ entry: PreviewConsoleEntry }> = ({ entry }) => {
+    const [isStackOpen, setIsStackOpen] = useState(false);
+    // Errors logged via console.* already include their stack in the message.
+    const hasStack = !!entry.stack && !entry.message.includes(entry.stack);
+
+    return (
+        <div className={`px-3 py-1 border-b border-gray-100 dark:border-zinc-800 ${levelStyles[entry.level]}`}>
+            <div className="flex items-start gap-2">
+                {entry.source !== 'console' && (
+                    <span className="flex-shrink-0 text-[10px] uppercase tracking-wide font-semibold opacity-70 mt-0.5">{entry.source}</span>
+                )}
+                <pre className="flex-grow whitespace-pre-wrap break-words font-mono text-xs">{entry.message}</pre>
+                {entry.location && (
+                    <span className="flex-shrink-0 font-mono text-[11px] text-gray-500 dark:text-zinc-400" title={formatLocation(entry.location)}>
+                        {formatLocation(entry.location)}
+                    </span>
+                )}
+            </div>
+            {hasStack && (
+                <>
+                    <button onClick={() => setIsStackOpen(prev => !prev)} className="text-[11px] underline opacity-70 hover:opacity-100">
+                        {isStackOpen ? 'Hide stack trace' : 'Show stack trace'}
+                    </button>
+                    {isStackOpen && <pre className="whitespace-pre-wrap break-words font-mono text-[11px] opacity-80 mt-1">{entry.stack}</pre>}
+                </>
+            )}
+        </div>
+    );
+};
+
+export const PreviewConsole: React.FC<PreviewConsoleProps> = ({ entries, onClear, onClose, onFixErrors, isFixing }) => {
+    const listRef = useRef<HTMLDivElement>(null);
+    const errorCount = entries.filter(e => e.level === 'error').length;
+    const warningCount = entries.filter(e => e.level === 'warn').length;
+
+    // Keep the newest entry in view
+    useEffect(() => {
+        if (listRef.current) {
+            listRef.current.scrollTop = listRef.current.scrollHeight;
+        }
+    }, [entries]);
+
+    return (
+        <div className="h-48 flex-shrink-0 flex flex-col border-t border-gray-300 dark:border-zinc-700 bg-white dark:bg-zinc-900">
+            <div className="flex-shrink-0 flex items-center justify-between px-3 py-1.5 bg-gray-100 dark:bg-zinc-800 border-b border-gray-200 dark:border-zinc-700">
+                <div className="flex items-center gap-3 text-xs">
+                    <span className="font-semibold text-gray-800 dark:text-zinc-200">Console</span>
+                    {errorCount > 0 && <span className="text-red-600 dark:text-red-400">{errorCount} {errorCount === 1 ? 'error' : 'errors'}</span>}
+                    {warningCount > 0 && <span className="text-amber-600 dark:text-amber-400">{warningCount} {warningCount === 1 ? 'warning' : 'warnings'}</span>}
+                </div>
+                <div className="flex items-center gap-1">
+                    {(errorCount > 0 || isFixing) && (
+                        <button
+                            onClick={onFixErrors}
+                            disabled={isFixing}
+                            className="flex items-center gap-1.5 px-2 py-0.5 mr-1 text-xs font-medium rounded-md bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <SparklesIcon className="w-3.5 h-3.5" />
+                            <span>{isFixing ? 'Working...' : 'Fix with AI'}</span>
+                        </button>
+                    )}
+                    <button onClick={onClear} className="p-1 rounded-md text-gray-500 dark:text-zinc-400 hover:bg-gray-200 dark:hover:bg-zinc-700" aria-label="Clear console">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={onClose} className="p-1 rounded-md text-gray-500 dark:text-zinc-400 hover:bg-gray-200 dark:hover:bg-zinc-700" aria-label="Close console">
+                        <XIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+            <div ref={listRef} className="flex-grow overflow-y-auto">
+                {entries.length === 0 ? (
+                    <p className="p-3 text-xs text-gray-500 dark:text-zinc-400">Console output, errors and failed requests from the preview will appear here.</p>
+                ) : (
+                    entries.map(entry => <ConsoleRow key={entry.id} entry={entry} />)
+                )}
+            </div>
+        </div>
+    );
+};
@@ -5,10 +5,20 @@ import { WizardPrefillData } from './WelcomeScreen';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
+import { DEFAULT_PROJECT_TARGET, getProjectTarget, PROJECT_TARGETS, ProjectTarget } from '../services/projectTargets';
+import { DEFAULT_PROJECT_STYLING, getProjectStyling, getTokensPath, PROJECT_STYLINGS, ProjectStyling } from '../services/projectStyling';
+
+// The choices a new project is generated with.
+export interface ProjectSetup {
+    target: ProjectTarget;
+    styling: ProjectStyling;
+    // A stylesheet of design tokens the user supplied, written to the project after generation.
+    designTokens?: string;
+}
 
 interface ProjectWizardProps {
     initialData: { name: string; prompt: string; prefill?: WizardPrefillData };
-    onCreateProject: (name: string, finalPrompt: string) => void;
+    onCreateProject: (name: string, finalPrompt: string, setup: ProjectSetup) => void;
     onCancel: () => void;
     isLoading: boolean;
     logoUrl: string;
@@ -55,6 +65,9 @@ export const ProjectWizard: React.FC<ProjectWizardProps> = ({ initialData, onCre
     const [selectedPredefined, setSelectedPredefined] = useState<{ [key: string]: boolean }>({});
     const [customSections, setCustomSections] = useState<Section[]>([]);
     const [brandContext, setBrandContext] = useState('');
+    const [target, setTarget] = useState<ProjectTarget>(DEFAULT_PROJECT_TARGET);
+    const [styling, setStyling] = useState<ProjectStyling>(DEFAULT_PROJECT_STYLING);
+    const [designTokens, setDesignTokens] = useState('');
     
     const [fontSearch, setFontSearch] = useState('');
     const [isFontDropdownOpen, setIsFontDropdownOpen] = useState(false);
@@ -196,10 +209,16 @@ ${initialData.prompt}
 **3. Brand & Contextual Information:**
    - **About the Brand/Project:**
      ${brandContext || 'No additional brand context was provided.'}
-
+${styling === 'tokens' && designTokens.trim() ? `
+**4. Design Tokens:**
+   Use these design tokens as they are, in \`${getTokensPath(target)}\`, and build the design on them:
+\`\`\`css
+${designTokens.trim()}
+\`\`\`
+` : ''}
 ---
 
-Please generate the complete, production-ready web application with HTML, CSS, and JavaScript files based on ALL of the detailed requirements above. Ensure the design is cohesive and professional.
+Please generate the complete, production-ready web application ${target === 'vanilla' ? 'with HTML, CSS, and JavaScript files' : `as a ${getProjectTarget(target).label} project`}${styling === 'css' ? '' : `, styled with ${getProjectStyling(styling).label}`} based on ALL of the detailed requirements above. Ensure the design is cohesive and professional.
 `;
         return finalPrompt.trim();
     };
@@ -207,7 +226,11 @@ Please generate the complete, production-ready web application with HTML, CSS, a
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const finalPrompt = buildFinalPrompt();
-        onCreateProject(initialData.name, finalPrompt);
+        onCreateProject(initialData.name, finalPrompt, {
+            target,
+            styling,
+            designTokens: styling === 'tokens' && designTokens.trim() ? designTokens : undefined,
+        });
     };
 
     return (
@@ -222,6 +245,47 @@ Please generate the complete, production-ready web application with HTML, CSS, a
                     </div>
 
                     <form onSubmit={handleSubmit} className="bg-white dark:bg-zinc-800 p-8 rounded-2xl shadow-lg border border-gray-200 dark:border-zinc-700 flex flex-col gap-8">
+                        {/* Framework Section */}
+                        <fieldset>
+                            <legend className="text-lg font-semibold text-gray-800 dark:text-zinc-200 mb-4">Framework</legend>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                {PROJECT_TARGETS.map(option => (
+                                    <label
+                                        key={option.id}
+                                        className={`flex flex-col gap-1 p-3 border rounded-lg cursor-pointer transition-colors ${target === option.id ? 'border-gray-900 dark:border-zinc-100 bg-gray-50 dark:bg-zinc-700' : 'border-gray-300 dark:border-zinc-600 hover:bg-gray-50 dark:hover:bg-zinc-700/50'}`}
+                                    >
+                                        <input type="radio" name="target" value={option.id} checked={target === option.id} onChange={() => setTarget(option.id)} className="sr-only" />
+                                        <span className="text-sm font-semibold text-gray-800 dark:text-zinc-200">{option.label}</span>
+                                        <span className="text-xs text-gray-500 dark:text-zinc-400">{option.description}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+
+                        {/* Styling Section */}
+                        <fieldset>
+                            <legend className="text-lg font-semibold text-gray-800 dark:text-zinc-200 mb-4">Styling</legend>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                {PROJECT_STYLINGS.map(option => (
+                                    <label
+                                        key={option.id}
+                                        className={`flex flex-col gap-1 p-3 border rounded-lg cursor-pointer transition-colors ${styling === option.id ? 'border-gray-900 dark:border-zinc-100 bg-gray-50 dark:bg-zinc-700' : 'border-gray-300 dark:border-zinc-600 hover:bg-gray-50 dark:hover:bg-zinc-700/50'}`}
+                                    >
+                                        <input type="radio" name="styling" value={option.id} checked={styling === option.id} onChange={() => setStyling(option.id)} className="sr-only" />
+                                        <span className="text-sm font-semibold text-gray-800 dark:text-zinc-200">{option.label}</span>
+                                        <span className="text-xs text-gray-500 dark:text-zinc-400">{option.description}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            {styling === 'tokens' && (
+                                <div className="mt-4">
+                                    <label htmlFor="design-tokens" className="block text-sm font-semibold text-gray-800 dark:text-zinc-200 mb-2">Your Design Tokens (optional)</label>
+                                    <textarea id="design-tokens" value={designTokens} onChange={e => setDesignTokens(e.target.value)} placeholder={':root {\n  --color-primary: #4f46e5;\n  --radius: 8px;\n}'} rows={5} spellCheck={false} className="w-full p-3 font-mono text-sm border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-700 rounded-lg resize-y" />
+                                    <p className="mt-2 text-xs text-gray-500 dark:text-zinc-400">Saved as <code>{getTokensPath(target)}</code>. Leave empty to have tokens generated from your design choices.</p>
+                                </div>
+                            )}
+                        </fieldset>
+
                         {/* Design Section */}
                         <fieldset>
                             <legend className="text-lg font-semibold text-gray-800 dark:text-zinc-200 mb-4">Design & Style</legend>
@@ -5,6 +5,7 @@ import { PencilIcon } from './icons/PencilIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { CopyIcon } from './icons/CopyIcon';
 import { MoreVerticalIcon } from './icons/MoreVerticalIcon';
+import { ExportIcon } from './icons/ExportIcon';
 
 interface ProjectsSidebarProps {
     isOpen: boolean;
@@ -16,15 +17,17 @@ interface ProjectsSidebarProps {
     onRenameProject: (id: string, newName: string) => void;
     onSetProjectToDelete: (project: Project | null) => void;
     onCloneProject: (id: string) => void;
+    onImportProject: (zipFile: File) => void;
     onMouseLeave?: () => void;
 }
 
-export const ProjectsSidebar: React.FC<ProjectsSidebarProps> = ({ isOpen, onClose, projects, activeProjectId, onSelectProject, onCreateNew, onRenameProject, onSetProjectToDelete, onCloneProject, onMouseLeave }) => {
+export const ProjectsSidebar: React.FC<ProjectsSidebarProps> = ({ isOpen, onClose, projects, activeProjectId, onSelectProject, onCreateNew, onRenameProject, onSetProjectToDelete, onCloneProject, onImportProject, onMouseLeave }) => {
     const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
     const [editingName, setEditingName] = useState('');
     const [openMenuId, setOpenMenuId] = useState<string | null>(null);
     const menuRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (editingProjectId && inputRef.current) {
@@ -75,6 +78,14 @@ export const ProjectsSidebar: React.FC<ProjectsSidebarProps> = ({ isOpen, onClos
         }
     };
     
+    const handleImportSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const zipFile = e.target.files?.[0];
+        if (zipFile) {
+            onImportProject(zipFile);
+        }
+        e.target.value = '';
+    };
+
     const handleMenuToggle = (e: React.MouseEvent, projectId: string) => {
         e.stopPropagation(); // Prevent project selection when clicking the menu
         setOpenMenuId(prevId => (prevId === projectId ? null : projectId));
@@ -201,7 +212,22 @@ export const ProjectsSidebar: React.FC<ProjectsSidebarProps> = ({ isOpen, onClos
                             </div>
                         ))}
                     </div>
-                    <div className="p-2 border-t border-gray-200 dark:border-zinc-700">
+                    <div className="p-2 border-t border-gray-200 dark:border-zinc-700 flex flex-col gap-2">
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium bg-gray-200 dark:bg-zinc-700 text-gray-800 dark:text-zinc-200 hover:bg-gray-300 dark:hover:bg-zinc-600 transition-colors"
+                        >
+                            <ExportIcon className="w-5 h-5 rotate-180" />
+                            Import ZIP
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".zip,application/zip"
+                            onChange={handleImportSelect}
+                            className="hidden"
+                            aria-hidden="true"
+                        />
                         <button
                             onClick={onCreateNew}
                             className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300 transition-colors"
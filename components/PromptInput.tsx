@@ -5,10 +5,13 @@ import { MagicIcon } from './icons/MagicIcon';
 import { enhancePrompt, Suggestion } from '../services/geminiService';
 import { LightbulbIcon } from './icons/LightbulbIcon';
 import { CursorClickIcon } from './icons/CursorClickIcon';
+import { PenToolIcon } from './icons/PenToolIcon';
 import { PaperclipIcon } from './icons/PaperclipIcon';
 import { BrainIcon } from './icons/BrainIcon';
 import { DiscussionView } from './DiscussionView';
 import { GenerationStatus } from '../App';
+import { SelectedElement } from '../services/elementContext';
+import { formatSourceRange } from '../services/sourceLocations';
 import { GenerationStatusView } from './GenerationStatusView';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { ChevronUpIcon } from './icons/ChevronUpIcon';
@@ -23,11 +26,17 @@ interface PromptInputProps {
     suggestions: Suggestion[];
     isGeneratingSuggestions: boolean;
     onDismissSuggestions: () => void;
-    selectedElement: { selector: string; html: string } | null;
+    selectedElements: SelectedElement[];
     onClearSelection: () => void;
     isDiscussModeActive: boolean;
     onToggleDiscussMode: () => void;
     discussionHistory: Array<{ role: 'user' | 'model'; content: string }>;
+    pendingDiscussion: { question: string; answer: string } | null;
+    onTurnIntoEdit: (messageIndex: number) => void;
+    // Annotations drawn over the preview; they are sent as an image with the next edit.
+    annotationCount: number;
+    filePaths: string[];
+    onOpenFile: (path: string, startLine?: number, endLine?: number) => void;
     generationStatus: GenerationStatus;
 }
 
@@ -40,11 +49,16 @@ export const PromptInput: React.FC<PromptInputProps> = ({
     suggestions,
     isGeneratingSuggestions,
     onDismissSuggestions,
-    selectedElement,
+    selectedElements,
     onClearSelection,
     isDiscussModeActive,
     onToggleDiscussMode,
     discussionHistory,
+    pendingDiscussion,
+    onTurnIntoEdit,
+    annotationCount,
+    filePaths,
+    onOpenFile,
     generationStatus,
 }) => {
     const [prompt, setPrompt] = useState('');
@@ -235,7 +249,7 @@ export const PromptInput: React.FC<PromptInputProps> = ({
             </div>
 
             {isDiscussModeActive ? (
-                <DiscussionView history={discussionHistory} />
+                <DiscussionView history={discussionHistory} pendingTurn={pendingDiscussion} onTurnIntoEdit={onTurnIntoEdit} isBusy={isLoading} filePaths={filePaths} onOpenFile={onOpenFile} />
             ) : (
                 <div className="flex-grow min-h-4"></div>
             )}
@@ -315,27 +329,58 @@ export const PromptInput: React.FC<PromptInputProps> = ({
                         </div>
                     )}
                     
-                    {selectedElement && !isDiscussModeActive && (
+                    {selectedElements.length > 0 && !isDiscussModeActive && (
                         <div className="animate-fade-in p-3 border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/20 rounded-r-lg relative">
                             <div className="flex items-start gap-3">
                                 <CursorClickIcon className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
-                                <div>
-                                    <p className="text-sm font-semibold text-blue-800 dark:text-blue-200">Modifying selected element</p>
-                                    <code className="text-xs text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 px-1 py-0.5 rounded break-all">
-                                        {selectedElement.selector}
-                                    </code>
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-blue-800 dark:text-blue-200">
+                                        {selectedElements.length === 1 ? 'Modifying selected element' : `Modifying ${selectedElements.length} selected elements`}
+                                    </p>
+                                    <div className="flex flex-col gap-1 mt-1 max-h-24 overflow-y-auto">
+                                        {selectedElements.map((element, index) => (
+                                            <div key={index} className="flex items-baseline gap-2 min-w-0">
+                                                <code className="text-xs text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/30 px-1 py-0.5 rounded break-all" title={`${element.bounds.width}×${element.bounds.height}px, ${element.rules.length} matching CSS ${element.rules.length === 1 ? 'rule' : 'rules'}`}>
+                                                    {element.selector}
+                                                </code>
+                                                {element.source && (
+                                                    <button
+                                                        onClick={() => onOpenFile(element.source!.path, element.source!.startLine, element.source!.endLine)}
+                                                        className="flex-shrink-0 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                                        title={element.isSourceOfAncestor ? 'Created by a script; shows the closest element written in HTML' : 'Show in the code editor'}
+                                                    >
+                                                        {element.isSourceOfAncestor ? 'in ' : ''}{formatSourceRange(element.source)}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
                             </div>
                             <button
                                 onClick={onClearSelection}
                                 className="absolute top-2 right-2 p-1 rounded-full text-blue-600 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800"
-                                aria-label="Clear selected element"
+                                aria-label="Clear selected elements"
                             >
                                 <XIcon className="w-4 h-4" />
                             </button>
                         </div>
                     )}
                     
+                    {annotationCount > 0 && !isDiscussModeActive && (
+                        <div className="animate-fade-in p-3 border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/20 rounded-r-lg">
+                            <div className="flex items-start gap-3">
+                                <PenToolIcon className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+                                <div>
+                                    <p className="text-sm font-semibold text-blue-800 dark:text-blue-200">Sending your sketch</p>
+                                    <p className="text-xs text-blue-700 dark:text-blue-300">
+                                        A screenshot of the preview with {annotationCount} {annotationCount === 1 ? 'annotation' : 'annotations'} will be attached to your request.
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     {attachments.length > 0 && !isDiscussModeActive && (
                         <div className="animate-fade-in p-3 border border-gray-300 dark:border-zinc-600 rounded-lg flex flex-col gap-3 bg-gray-50 dark:bg-zinc-800/50">
                             <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-600 dark:text-zinc-400">Attachments</h4>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { XIcon } from './icons/XIcon';
+import { PROVIDER_LABELS, ProviderId, ProviderSettings, isProviderConfigured } from '../services/llmProvider';
 
 const ButtonSpinner: React.FC = () => (
     <svg className="animate-spin h-5 w-5 text-white dark:text-zinc-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -9,31 +10,84 @@ const ButtonSpinner: React.FC = () => (
 );
 
 
+const SecretInput: React.FC<{ id: string; value: string; onChange: (value: string) => void; placeholder: string }> = ({ id, value, onChange, placeholder }) => {
+    const [isPasswordVisible, setIsPasswordVisible] = useState(false);
+    return (
+        <div className="relative">
+            <input
+                id={id}
+                type={isPasswordVisible ? 'text' : 'password'}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-full p-3 pr-10 border border-gray-300 dark:border-zinc-600 rounded-md focus:ring-2 focus:ring-gray-900 dark:focus:ring-zinc-100 bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100"
+                placeholder={placeholder}
+                autoComplete="off"
+            />
+            <button 
+                type="button" 
+                onClick={() => setIsPasswordVisible(!isPasswordVisible)}
+                className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500 dark:text-zinc-400 hover:text-gray-800 dark:hover:text-zinc-200"
+                aria-label={isPasswordVisible ? "Hide API key" : "Show API key"}
+            >
+                {isPasswordVisible ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
+                        <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.022 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
+                    </svg>
+                ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M3.707 2.293a1 1 0 00-1.414 1.414l14 14a1 1 0 001.414-1.414l-1.473-1.473A10.014 10.014 0 0019.542 10C18.268 5.943 14.478 3 10 3a9.958 9.958 0 00-4.502 1.057L3.707 2.293zM10.707 7.293a1 1 0 00-1.414 0l-1 1a1 1 0 001.414 1.414l1-1z" clipRule="evenodd" />
+                        <path d="M10 5a5 5 0 015 5c0 .647-.122 1.255-.348 1.817l-1.09.955A3.003 3.003 0 0010 7a3 3 0 00-3 3c0 .26.034.51.098.752l-1.13 1.131A5.003 5.003 0 015 10c0-2.757 2.243-5 5-5z" />
+                    </svg>
+                )}
+            </button>
+        </div>
+    );
+};
+
+const TextInput: React.FC<{ id: string; value: string; onChange: (value: string) => void; placeholder: string }> = ({ id, value, onChange, placeholder }) => (
+    <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full p-3 border border-gray-300 dark:border-zinc-600 rounded-md focus:ring-2 focus:ring-gray-900 dark:focus:ring-zinc-100 bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100"
+        placeholder={placeholder}
+        autoComplete="off"
+    />
+);
+
+const labelClassName = "block text-sm font-semibold text-gray-800 dark:text-zinc-200 mb-2";
+const helpClassName = "text-sm text-gray-600 dark:text-zinc-400 mb-3";
+
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: (skipped: boolean) => void;
-    onSave: (apiKey: string) => Promise<void>;
-    currentApiKey: string | null;
+    onSave: (settings: ProviderSettings) => Promise<void>;
+    currentSettings: ProviderSettings;
     isSkippable: boolean;
     isLoading: boolean;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentApiKey, isSkippable, isLoading: isSaving }) => {
-    const [apiKey, setApiKey] = useState('');
-    const [isPasswordVisible, setIsPasswordVisible] = useState(false);
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentSettings, isSkippable, isLoading: isSaving }) => {
+    const [settings, setSettings] = useState<ProviderSettings>(currentSettings);
 
     useEffect(() => {
         if (isOpen) {
-            setApiKey(currentApiKey || '');
+            setSettings(currentSettings);
         }
-    }, [isOpen, currentApiKey]);
+    }, [isOpen, currentSettings]);
 
     if (!isOpen) {
         return null;
     }
 
     const handleSave = async () => {
-        await onSave(apiKey);
+        await onSave(settings);
+    };
+
+    const updateProvider = <K extends ProviderId>(provider: K, changes: Partial<ProviderSettings[K]>) => {
+        setSettings(prev => ({ ...prev, [provider]: { ...prev[provider], ...changes } }));
     };
 
     return (
@@ -42,46 +96,77 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
                 <h3 id="settings-modal-title" className="text-lg font-semibold text-gray-900 dark:text-zinc-100">Settings</h3>
                 
                 <div className="mt-4">
-                    <label htmlFor="api-key-input" className="block text-sm font-semibold text-gray-800 dark:text-zinc-200 mb-2">
-                        Gemini API Key
-                    </label>
-                    <p className="text-sm text-gray-600 dark:text-zinc-400 mb-3">
-                        Your API key is required to generate projects. Get your key from{' '}
-                        <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
-                            Google AI Studio
-                        </a>. It's stored securely and only used for your requests.
-                    </p>
-                    <div className="relative">
-                        <input
-                            id="api-key-input"
-                            type={isPasswordVisible ? 'text' : 'password'}
-                            value={apiKey}
-                            onChange={(e) => setApiKey(e.target.value)}
-                            className="w-full p-3 pr-10 border border-gray-300 dark:border-zinc-600 rounded-md focus:ring-2 focus:ring-gray-900 dark:focus:ring-zinc-100 bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100"
-                            placeholder="Enter your API key"
-                            autoComplete="off"
-                        />
-                        <button 
-                            type="button" 
-                            onClick={() => setIsPasswordVisible(!isPasswordVisible)}
-                            className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-500 dark:text-zinc-400 hover:text-gray-800 dark:hover:text-zinc-200"
-                            aria-label={isPasswordVisible ? "Hide API key" : "Show API key"}
-                        >
-                            {isPasswordVisible ? (
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                    <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
-                                    <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.022 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
-                                </svg>
-                            ) : (
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                    <path fillRule="evenodd" d="M3.707 2.293a1 1 0 00-1.414 1.414l14 14a1 1 0 001.414-1.414l-1.473-1.473A10.014 10.014 0 0019.542 10C18.268 5.943 14.478 3 10 3a9.958 9.958 0 00-4.502 1.057L3.707 2.293zM10.707 7.293a1 1 0 00-1.414 0l-1 1a1 1 0 001.414 1.414l1-1z" clipRule="evenodd" />
-                                    <path d="M10 5a5 5 0 015 5c0 .647-.122 1.255-.348 1.817l-1.09.955A3.003 3.003 0 0010 7a3 3 0 00-3 3c0 .26.034.51.098.752l-1.13 1.131A5.003 5.003 0 015 10c0-2.757 2.243-5 5-5z" />
-                                </svg>
-                            )}
-                        </button>
+                    <span className={labelClassName}>AI Provider</span>
+                    <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 dark:bg-zinc-900 rounded-lg" role="radiogroup" aria-label="AI Provider">
+                        {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                            <button
+                                key={id}
+                                type="button"
+                                role="radio"
+                                aria-checked={settings.provider === id}
+                                onClick={() => setSettings(prev => ({ ...prev, provider: id }))}
+                                className={`px-2 py-1.5 text-sm font-medium rounded-md transition-colors ${settings.provider === id ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-zinc-100 shadow-sm' : 'text-gray-600 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100'}`}
+                            >
+                                {PROVIDER_LABELS[id]}
+                            </button>
+                        ))}
                     </div>
                 </div>
 
+                {settings.provider === 'gemini' && (
+                    <div className="mt-4 flex flex-col gap-4">
+                        <div>
+                            <label htmlFor="api-key-input" className={labelClassName}>
+                                Gemini API Key
+                            </label>
+                            <p className={helpClassName}>
+                                Your API key is required to generate projects. Get your key from{' '}
+                                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
+                                    Google AI Studio
+                                </a>. It's stored securely and only used for your requests.
+                            </p>
+                            <SecretInput id="api-key-input" value={settings.gemini.apiKey} onChange={apiKey => updateProvider('gemini', { apiKey })} placeholder="Enter your API key" />
+                        </div>
+                        <div>
+                            <label htmlFor="gemini-model-input" className={labelClassName}>Model</label>
+                            <p className={helpClassName}>Leave empty to pick automatically between Gemini 2.5 Flash and Pro for each task.</p>
+                            <TextInput id="gemini-model-input" value={settings.gemini.model} onChange={model => updateProvider('gemini', { model })} placeholder="e.g., gemini-2.5-pro" />
+                        </div>
+                    </div>
+                )}
+
+                {settings.provider === 'openai' && (
+                    <div className="mt-4 flex flex-col gap-4">
+                        <div>
+                            <label htmlFor="openai-url-input" className={labelClassName}>Base URL</label>
+                            <p className={helpClassName}>Any server implementing the OpenAI Chat Completions API, such as OpenAI, llama.cpp's server, LM Studio or vLLM. Requests are sent from your browser, so the server must allow this site (CORS).</p>
+                            <TextInput id="openai-url-input" value={settings.openai.baseUrl} onChange={baseUrl => updateProvider('openai', { baseUrl })} placeholder="e.g., http://localhost:8080/v1" />
+                        </div>
+                        <div>
+                            <label htmlFor="openai-key-input" className={labelClassName}>API Key</label>
+                            <SecretInput id="openai-key-input" value={settings.openai.apiKey} onChange={apiKey => updateProvider('openai', { apiKey })} placeholder="Optional for local servers" />
+                        </div>
+                        <div>
+                            <label htmlFor="openai-model-input" className={labelClassName}>Model</label>
+                            <TextInput id="openai-model-input" value={settings.openai.model} onChange={model => updateProvider('openai', { model })} placeholder="e.g., gpt-4o or qwen2.5-coder" />
+                        </div>
+                    </div>
+                )}
+
+                {settings.provider === 'ollama' && (
+                    <div className="mt-4 flex flex-col gap-4">
+                        <div>
+                            <label htmlFor="ollama-url-input" className={labelClassName}>Server URL</label>
+                            <p className={helpClassName}>Your prompts and code never leave your network. Start Ollama with <code className="text-xs bg-gray-100 dark:bg-zinc-900 px-1 py-0.5 rounded">OLLAMA_ORIGINS</code> set to allow requests from this site.</p>
+                            <TextInput id="ollama-url-input" value={settings.ollama.baseUrl} onChange={baseUrl => updateProvider('ollama', { baseUrl })} placeholder="http://localhost:11434" />
+                        </div>
+                        <div>
+                            <label htmlFor="ollama-model-input" className={labelClassName}>Model</label>
+                            <TextInput id="ollama-model-input" value={settings.ollama.model} onChange={model => updateProvider('ollama', { model })} placeholder="e.g., qwen2.5-coder:14b" />
+                        </div>
+                    </div>
+                )}
+
                 <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end sm:gap-3">
                     {isSkippable && (
                         <button
@@ -95,10 +180,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
                     <button
                         type="button"
                         onClick={handleSave}
-                        disabled={isSaving || !apiKey.trim()}
+                        disabled={isSaving || !isProviderConfigured(settings)}
                         className="w-full sm:w-auto justify-center flex items-center bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 dark:hover:bg-zinc-300 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
                     >
-                        {isSaving ? <ButtonSpinner /> : 'Save Key'}
+                        {isSaving ? <ButtonSpinner /> : 'Save'}
                     </button>
                 </div>
 
@@ -110,4 +195,4 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
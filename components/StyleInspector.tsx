@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { VisualEditProperty, VisualEditTarget } from '../services/visualEdits';
+import { formatSourceRange } from '../services/sourceLocations';
+import { XIcon } from './icons/XIcon';
+
+interface StyleInspectorProps {
+    target: VisualEditTarget | null;
+    // The number of edited elements that have not been written to the project yet.
+    pendingCount: number;
+    onStyleChange: (property: VisualEditProperty, value: string) => void;
+    onSave: () => void;
+    onDiscard: () => void;
+    onClose: () => void;
+}
+
+// Computed colours come as `rgb()` or `rgba()`; the colour input only takes `#rrggbb`.
+const toHex = (color: string): string => {
+    const match = color.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+    if (!match) return /^#[0-9a-f]{6}$/i.test(color) ? color : '#000000';
+    return '#' + match.slice(1, 4).map(channel => Number(channel).toString(16).padStart(2, '0')).join('');
+};
+
+const isTransparent = (color: string): boolean => color === 'transparent' || /rgba\(.*,\s*0\)$/.test(color);
+
+const inputClass = "w-full px-2 py-1 text-xs rounded bg-zinc-900 border border-zinc-600 text-zinc-100 focus:outline-none focus:border-blue-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <label className="grid grid-cols-[5.5rem_1fr] items-center gap-2 text-xs text-zinc-300">
+        <span>{label}</span>
+        {children}
+    </label>
+);
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+    <Field label={label}>
+        <div className="flex items-center gap-2">
+            <input type="color" value={toHex(value)} onChange={e => onChange(e.target.value)} className="w-7 h-7 p-0 border-0 bg-transparent cursor-pointer" />
+            <input type="text" value={value} onChange={e => onChange(e.target.value)} className={inputClass} spellCheck={false} />
+        </div>
+    </Field>
+);
+
+export const StyleInspector: React.FC<StyleInspectorProps> = ({ target, pendingCount, onStyleChange, onSave, onDiscard, onClose }) => {
+    const [values, setValues] = useState<{ [property: string]: string }>({});
+
+    // Start from the element's computed styles whenever another element is selected.
+    useEffect(() => {
+        if (!target) return;
+        setValues({
+            ...target.styles,
+            'background-color': isTransparent(target.styles['background-color'] ?? '') ? 'transparent' : target.styles['background-color'],
+        });
+    }, [target]);
+
+    const change = (property: VisualEditProperty, value: string) => {
+        setValues(prev => ({ ...prev, [property]: value }));
+        onStyleChange(property, value);
+    };
+
+    return (
+        <div
+            className="absolute top-4 right-4 w-72 bg-zinc-800/95 backdrop-blur-sm text-white rounded-xl shadow-2xl z-20 p-3 space-y-3 animate-fade-in"
+            role="dialog"
+            aria-label="Style Inspector"
+        >
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold truncate">
+                    {target ? <>&lt;{target.tagName}&gt; <span className="font-normal text-zinc-400">{formatSourceRange(target.source)}</span></> : 'Visual edit'}
+                </p>
+                <button onClick={onClose} className="p-1 rounded-md hover:bg-zinc-700 flex-shrink-0" title="Close and save changes" aria-label="Close visual edit">
+                    <XIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            {target ? (
+                <div className="space-y-2">
+                    <ColorField label="Text colour" value={values.color ?? ''} onChange={value => change('color', value)} />
+                    <ColorField label="Background" value={values['background-color'] ?? ''} onChange={value => change('background-color', value)} />
+                    <Field label="Font size">
+                        <div className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                min={1}
+                                value={parseFloat(values['font-size'] ?? '') || ''}
+                                onChange={e => change('font-size', e.target.value ? `${e.target.value}px` : '')}
+                                className={inputClass}
+                            />
+                            <span className="text-zinc-400">px</span>
+                        </div>
+                    </Field>
+                    <Field label="Padding">
+                        <input type="text" value={values.padding ?? ''} onChange={e => change('padding', e.target.value)} className={inputClass} spellCheck={false} />
+                    </Field>
+                    <Field label="Margin">
+                        <input type="text" value={values.margin ?? ''} onChange={e => change('margin', e.target.value)} className={inputClass} spellCheck={false} />
+                    </Field>
+                    <p className="text-[11px] text-zinc-400">{target.canEditText && 'Double-click the element to edit its text. '}Styles are saved inline on the element.</p>
+                </div>
+            ) : (
+                <p className="text-xs text-zinc-400">Click an element to change its styles. Double-click text to edit it in place.</p>
+            )}
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-zinc-700">
+                <span className="text-xs text-zinc-400">{pendingCount === 0 ? 'No changes' : `${pendingCount} ${pendingCount === 1 ? 'element' : 'elements'} changed`}</span>
+                <div className="flex items-center gap-1">
+                    <button onClick={onDiscard} disabled={pendingCount === 0} className="text-xs font-medium px-2.5 py-1.5 rounded-md hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed">Discard</button>
+                    <button onClick={onSave} disabled={pendingCount === 0} className="text-xs font-medium px-2.5 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CloudIcon } from './icons/CloudIcon';
+import { CloudOffIcon } from './icons/CloudOffIcon';
+import { AlertTriangleIcon } from './icons/AlertTriangleIcon';
+import { ReloadIcon } from './icons/ReloadIcon';
+import type { SyncState, SyncStatus } from '../services/projectStore';
+
+interface SyncStatusIndicatorProps {
+    status: SyncStatus;
+    onRetry: () => void;
+    onResolveConflict: (projectId: string, keep: 'local' | 'remote') => void;
+}
+
+const stateLabels: { [state in SyncState]: string } = {
+    local: 'Saved in this browser',
+    synced: 'All changes synced',
+    pending: 'Saving...',
+    syncing: 'Syncing...',
+    offline: 'Offline',
+    error: 'Sync failed',
+    conflict: 'Sync conflict',
+};
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, onRetry, onResolveConflict }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const isProblem = status.state === 'offline' || status.state === 'error' || status.state === 'conflict';
+    const Icon = status.state === 'offline' ? CloudOffIcon : status.state === 'error' || status.state === 'conflict' ? AlertTriangleIcon : CloudIcon;
+    const label = status.state === 'offline' && status.pendingCount > 0
+        ? `Offline · ${status.pendingCount} unsynced`
+        : stateLabels[status.state];
+
+    return (
+        <div ref={wrapperRef} className="relative">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className={`flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md hover:bg-gray-200 dark:hover:bg-zinc-700 ${isProblem ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-zinc-400'}`}
+                aria-haspopup="true"
+                aria-expanded={isOpen}
+                aria-label={`Sync status: ${label}`}
+            >
+                <Icon className={`w-4 h-4 ${status.state === 'syncing' || status.state === 'pending' ? 'animate-pulse' : ''}`} />
+                <span className="hidden sm:inline">{label}</span>
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-72 origin-top-right bg-white dark:bg-zinc-800 rounded-md shadow-lg ring-1 ring-black dark:ring-white ring-opacity-5 dark:ring-opacity-10 z-20 animate-fade-in p-3 text-sm text-gray-700 dark:text-zinc-300">
+                    <p className="font-semibold text-gray-900 dark:text-zinc-100">{label}</p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-zinc-400">
+                        {status.state === 'local'
+                            ? 'Projects are stored only in this browser. No account or server is used.'
+                            : 'Changes are saved in this browser first and uploaded in the background, so you can keep working offline.'}
+                    </p>
+                    {status.message && (status.state === 'error' || status.state === 'offline') && (
+                        <p className="mt-2 text-xs text-red-600 dark:text-red-400 break-words">{status.message}</p>
+                    )}
+                    {(status.state === 'error' || status.state === 'offline') && (
+                        <button
+                            onClick={() => { onRetry(); setIsOpen(false); }}
+                            className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300"
+                        >
+                            <ReloadIcon className="w-4 h-4" />
+                            <span>Retry now</span>
+                        </button>
+                    )}
+                    {status.conflicts.length > 0 && (
+                        <div className="mt-3 flex flex-col gap-3">
+                            {status.conflicts.map(conflict => (
+                                <div key={conflict.projectId} className="border-t border-gray-200 dark:border-zinc-700 pt-3">
+                                    <p className="text-xs">
+                                        <span className="font-semibold">{conflict.name}</span> was changed on another device while this one had unsynced edits.
+                                    </p>
+                                    <div className="mt-2 flex gap-2">
+                                        <button
+                                            onClick={() => onResolveConflict(conflict.projectId, 'local')}
+                                            className="flex-1 px-2 py-1 text-xs font-medium rounded-md bg-gray-900 dark:bg-zinc-100 text-white dark:text-zinc-900 hover:bg-gray-700 dark:hover:bg-zinc-300"
+                                        >
+                                            Keep this version
+                                        </button>
+                                        <button
+                                            onClick={() => onResolveConflict(conflict.projectId, 'remote')}
+                                            className="flex-1 px-2 py-1 text-xs font-medium rounded-md border border-gray-300 dark:border-zinc-600 hover:bg-gray-100 dark:hover:bg-zinc-700"
+                                        >
+                                            Use server version
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
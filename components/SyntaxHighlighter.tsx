@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { loadMonaco } from './Editor';
+
+interface SyntaxHighlighterProps {
+    code: string;
+    // A code fence language such as `tsx`, `html` or `JavaScript`.
+    language?: string;
+}
+
+// Matches a fence language against Monaco's language ids, aliases and file extensions.
+const resolveLanguage = (language: string): string => {
+    const name = language.trim().toLowerCase();
+    if (!name) return 'plaintext';
+    const match = window.monaco.languages.getLanguages().find((l: { id: string; aliases?: string[]; extensions?: string[] }) =>
+        l.id === name || l.aliases?.some(alias => alias.toLowerCase() === name) || l.extensions?.includes(`.${name}`)
+    );
+    return match ? match.id : 'plaintext';
+};
+
+/**
+ * Read-only code coloured with the editor's tokenizers. Shows the plain code until Monaco has loaded;
+ * while the code changes (e.g. as an answer streams in) the previous colouring stays up until the new one is ready.
+ */
+export const SyntaxHighlighter: React.FC<SyntaxHighlighterProps> = ({ code, language = '' }) => {
+    const [html, setHtml] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadMonaco()
+            .then(() => window.monaco.editor.colorize(code, resolveLanguage(language), { tabSize: 4 }))
+            .then((result: string) => {
+                if (isCurrent) setHtml(result);
+            })
+            .catch((error: unknown) => console.error('Failed to highlight code:', error));
+        return () => { isCurrent = false; };
+    }, [code, language]);
+
+    return (
+        <pre className="p-4 overflow-x-auto font-mono text-sm text-zinc-200">
+            {html !== null
+                // colorize() escapes the code it wraps in spans, so its output is safe to insert.
+                ? <code dangerouslySetInnerHTML={{ __html: html }} />
+                : <code>{code}</code>}
+        </pre>
+    );
+};
@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Project } from '../App';
+import { File } from '../services/geminiService';
+import { diffVersions, diffLines, revertFile, revertHunk, DiffHunk, FileChange, FileChangeStatus } from '../services/versionDiff';
+import { DiffEditor } from './DiffEditor';
+import { BinaryFilePreview } from './BinaryFilePreview';
+import { getLanguageFromPath } from './CodeDisplay';
+import { XIcon } from './icons/XIcon';
+import { UndoIcon } from './icons/UndoIcon';
+
+interface VersionDiffModalProps {
+    codeHistory: Project['codeHistory'];
+    // The older side of the comparison, shown on the left and the version changes are reverted to.
+    baseIndex: number;
+    compareIndex: number;
+    onClose: () => void;
+    // Called with the current files after reverting part of them; the caller saves them as a new version.
+    onRevert: (files: File[], description: string) => void;
+}
+
+const statusStyles: { [status in FileChangeStatus]: { label: string; className: string } } = {
+    added: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+    removed: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+    modified: { label: 'M', className: 'text-amber-600 dark:text-amber-400' },
+};
+
+const describeHunk = (hunk: DiffHunk): string => {
+    if (hunk.newLines.length === 0) return `${hunk.oldLines.length} removed after line ${hunk.newStart - 1}`;
+    const end = hunk.newStart + hunk.newLines.length - 1;
+    const range = end > hunk.newStart ? `Lines ${hunk.newStart}–${end}` : `Line ${hunk.newStart}`;
+    return hunk.oldLines.length === 0 ? `${range} added` : `${range} changed`;
+};
+
+export const VersionDiffModal: React.FC<VersionDiffModalProps> = ({ codeHistory, baseIndex, compareIndex, onClose, onRevert }) => {
+    const { history, currentIndex } = codeHistory;
+    const baseEntry = history[baseIndex];
+    const compareEntry = history[compareIndex];
+    const changes = useMemo(
+        () => baseEntry && compareEntry ? diffVersions(baseEntry.files, compareEntry.files) : [],
+        [baseEntry, compareEntry]
+    );
+    const [selectedPath, setSelectedPath] = useState<string | null>(null);
+    const [revealLine, setRevealLine] = useState<number | undefined>(undefined);
+
+    const selectedChange: FileChange | undefined = changes.find(c => c.path === selectedPath) || changes[0];
+    const hunks = useMemo(
+        () => selectedChange?.status === 'modified' && !selectedChange.encoding ? diffLines(selectedChange.oldContent!, selectedChange.newContent!) : [],
+        [selectedChange]
+    );
+    // Hunks line up with the current files only when the right-hand side is the current version.
+    const canRevertHunks = compareIndex === currentIndex;
+
+    useEffect(() => {
+        setRevealLine(undefined);
+    }, [selectedChange?.path]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    if (!baseEntry || !compareEntry) return null;
+
+    const currentFiles = history[currentIndex].files;
+    const selectedCurrentContent = currentFiles.find(f => f.path === selectedChange?.path)?.content;
+    // A hunk can only be reverted while the current file still has its lines; it is out of date once the file is edited.
+    const isHunkOutOfDate = (hunk: DiffHunk) => selectedCurrentContent === undefined || revertHunk(selectedCurrentContent, hunk) === null;
+
+    const handleRevertFile = (change: FileChange) => {
+        onRevert(revertFile(currentFiles, change), `Reverted ${change.path} to Version ${baseIndex + 1}`);
+    };
+
+    const handleRevertHunk = (change: FileChange, hunk: DiffHunk) => {
+        const currentFile = currentFiles.find(f => f.path === change.path);
+        const content = currentFile ? revertHunk(currentFile.content, hunk) : null;
+        if (content === null) {
+            alert(`This change is out of date: ${change.path} has changed since. Compare the versions again to revert it.`);
+            return;
+        }
+        onRevert(
+            currentFiles.map(f => f.path === change.path ? { ...f, content } : f),
+            `Reverted a change in ${change.path} to Version ${baseIndex + 1}`
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="version-diff-title" onClick={onClose}>
+            <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <div className="flex-shrink-0 flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-zinc-700">
+                    <h3 id="version-diff-title" className="text-lg font-semibold text-gray-900 dark:text-zinc-100">
+                        Version {baseIndex + 1} <span className="text-gray-400 dark:text-zinc-500">→</span> Version {compareIndex + 1}
+                        {compareIndex === currentIndex && <span className="text-sm text-gray-600 dark:text-zinc-400 font-normal"> (Current)</span>}
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-md text-gray-500 dark:text-zinc-400 hover:bg-gray-200 dark:hover:bg-zinc-700" aria-label="Close comparison">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {changes.length === 0 ? (
+                    <div className="flex-grow flex items-center justify-center text-sm text-gray-500 dark:text-zinc-400">
+                        These versions have identical files.
+                    </div>
+                ) : (
+                    <div className="flex-grow flex min-h-0">
+                        <div className="w-64 flex-shrink-0 flex flex-col border-r border-gray-200 dark:border-zinc-700 overflow-y-auto">
+                            <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-zinc-400">
+                                {changes.length} {changes.length === 1 ? 'file' : 'files'} changed
+                            </p>
+                            {changes.map(change => {
+                                const isSelected = change.path === selectedChange?.path;
+                                return (
+                                    <div key={change.path}>
+                                        <div className={`group flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${isSelected ? 'bg-gray-200 dark:bg-zinc-700' : 'hover:bg-gray-100 dark:hover:bg-zinc-700/50'}`} onClick={() => setSelectedPath(change.path)}>
+                                            <span className={`font-mono text-xs font-bold ${statusStyles[change.status].className}`}>{statusStyles[change.status].label}</span>
+                                            <span className="flex-grow truncate text-gray-800 dark:text-zinc-200" title={change.path}>{change.path}</span>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleRevertFile(change); }}
+                                                className="p-1 rounded-md text-gray-500 dark:text-zinc-400 hover:bg-gray-300 dark:hover:bg-zinc-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                                title={`Revert this file to Version ${baseIndex + 1}`}
+                                                aria-label={`Revert ${change.path} to Version ${baseIndex + 1}`}
+                                            >
+                                                <UndoIcon className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                        {isSelected && hunks.length > 0 && (
+                                            <div className="pl-7 pr-2 pb-1">
+                                                {hunks.map((hunk, i) => (
+                                                    <div key={i} className="flex items-center gap-2 py-0.5 text-xs">
+                                                        <button onClick={() => setRevealLine(Math.max(hunk.newStart, 1))} className="flex-grow text-left truncate text-gray-600 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-100">
+                                                            {describeHunk(hunk)}
+                                                        </button>
+                                                        {canRevertHunks && (
+                                                            <button
+                                                                onClick={() => handleRevertHunk(change, hunk)}
+                                                                disabled={isHunkOutOfDate(hunk)}
+                                                                title={isHunkOutOfDate(hunk) ? 'Out of date: the file has changed since this comparison' : undefined}
+                                                                className="flex-shrink-0 px-1.5 py-0.5 rounded text-gray-700 dark:text-zinc-300 hover:bg-gray-200 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:hover:bg-transparent"
+                                                            >
+                                                                Revert
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            {!canRevertHunks && (
+                                <p className="mt-auto p-3 text-xs text-gray-500 dark:text-zinc-400">
+                                    Compare with the current version to revert individual changes. Whole files can be reverted from any comparison.
+                                </p>
+                            )}
+                        </div>
+                        <div className="flex-grow min-w-0">
+                            {selectedChange?.encoding ? (
+                                // Binary files have no lines to compare, so both versions are shown side by side.
+                                <div className="h-full flex">
+                                    {[selectedChange.oldContent, selectedChange.newContent].map((content, index) => (
+                                        <div key={index} className="relative flex-1 min-w-0 border-r last:border-r-0 border-zinc-700">
+                                            {content === undefined ? (
+                                                <div className="h-full flex items-center justify-center bg-zinc-900 text-sm text-zinc-500">{index === 0 ? 'Not in this version' : 'Deleted'}</div>
+                                            ) : (
+                                                <BinaryFilePreview file={{ path: selectedChange.path, content, encoding: selectedChange.encoding }} />
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : selectedChange && (
+                                <DiffEditor
+                                    original={selectedChange.oldContent ?? ''}
+                                    modified={selectedChange.newContent ?? ''}
+                                    language={getLanguageFromPath(selectedChange.path)}
+                                    revealLine={revealLine}
+                                />
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
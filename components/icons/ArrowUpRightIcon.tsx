@@ -0,0 +1,8 @@
+import React from 'react';
+
+export const ArrowUpRightIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M7 7h10v10" />
+        <path d="M7 17 17 7" />
+    </svg>
+);
\ No newline at end of file
@@ -0,0 +1,8 @@
+import React from 'react';
+
+export const TerminalIcon = (props: React.SVGProps<SVGSVGElement>) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="m4 17 6-6-6-6"/>
+        <path d="M12 19h8"/>
+    </svg>
+);
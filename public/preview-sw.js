@@ -0,0 +1,210 @@
+// Serves the files of live previews at real URLs under /preview/<session>/, so that relative paths,
+// ES modules, fetch() and CSS url() behave as they will once the app is deployed.
+// The app sends each session's files with a 'preview-update' message (see services/previewServer.ts).
+
+const PREVIEW_PREFIX = '/preview/';
+
+const MIME_TYPES = {
+    html: 'text/html',
+    htm: 'text/html',
+    css: 'text/css',
+    js: 'text/javascript',
+    mjs: 'text/javascript',
+    cjs: 'text/javascript',
+    jsx: 'text/javascript',
+    ts: 'text/javascript',
+    tsx: 'text/javascript',
+    json: 'application/json',
+    map: 'application/json',
+    webmanifest: 'application/manifest+json',
+    svg: 'image/svg+xml',
+    xml: 'application/xml',
+    txt: 'text/plain',
+    // Sass, Less and Markdown files are compiled to CSS and HTML pages before they reach the preview.
+    scss: 'text/css',
+    sass: 'text/css',
+    less: 'text/css',
+    md: 'text/html',
+    markdown: 'text/html',
+    csv: 'text/csv',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    ico: 'image/x-icon',
+    bmp: 'image/bmp',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    eot: 'application/vnd.ms-fontobject',
+    pdf: 'application/pdf',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    wasm: 'application/wasm',
+    zip: 'application/zip',
+};
+
+// sessionId -> { files: Map<path, content>, injection: { head, body } }
+const sessions = new Map();
+
+const storeSession = (sessionId, files, injection) => {
+    sessions.set(sessionId, { files: new Map(files.map(file => [file.path, file.content])), injection: injection || { head: '', body: '' } });
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+    const message = event.data || {};
+    if (message.type === 'preview-update') {
+        storeSession(message.sessionId, message.files, message.injection);
+    } else if (message.type === 'preview-dispose') {
+        sessions.delete(message.sessionId);
+    }
+    if (event.ports[0]) {
+        event.ports[0].postMessage({ type: 'ack' });
+    }
+});
+
+// The browser stops idle workers, which loses the sessions kept in memory. Ask the app's pages for a copy.
+const restoreSession = async (sessionId) => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    for (const client of windows) {
+        if (new URL(client.url).pathname.startsWith(PREVIEW_PREFIX)) continue;
+        const session = await new Promise((resolve) => {
+            const channel = new MessageChannel();
+            const timeout = setTimeout(() => resolve(null), 2000);
+            channel.port1.onmessage = (event) => {
+                clearTimeout(timeout);
+                resolve(event.data);
+            };
+            client.postMessage({ type: 'preview-session-request', sessionId }, [channel.port2]);
+        });
+        if (session) {
+            storeSession(sessionId, session.files, session.injection);
+            return sessions.get(sessionId);
+        }
+    }
+    return null;
+};
+
+const getSession = async (sessionId) => sessions.get(sessionId) || restoreSession(sessionId);
+
+const getMimeType = (path) => {
+    const extension = path.split('.').pop().toLowerCase();
+    return MIME_TYPES[extension] || 'application/octet-stream';
+};
+
+const findFile = (files, path) => {
+    const candidates = path === '' || path.endsWith('/')
+        ? [`${path}index.html`]
+        : [path, `${path}.html`, `${path}/index.html`];
+    const match = candidates.find(candidate => files.has(candidate));
+    return match === undefined ? null : { path: match, content: files.get(match) };
+};
+
+const escapeHtml = (text) => text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]);
+
+const notFoundResponse = (message) => new Response(`<!DOCTYPE html>
+<html>
+    <head>
+        <style>
+            :root { --bg-color: #f8f9fa; --text-color: #343a40; --container-bg: #ffffff; --code-bg: #e9ecef; }
+            @media (prefers-color-scheme: dark) {
+                :root { --bg-color: #18181b; --text-color: #e4e4e7; --container-bg: #27272a; --code-bg: #3f3f46; }
+            }
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: var(--bg-color); color: var(--text-color); display: flex; align-items: center; justify-content: center; height: 100vh; margin: 0; }
+            .container { text-align: center; padding: 2rem; background-color: var(--container-bg); border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+            h1 { font-size: 1.5rem; color: #d9480f; }
+            code { background-color: var(--code-bg); padding: 0.2em 0.4em; margin: 0; font-size: 85%; border-radius: 3px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <h1>Page Not Found</h1>
+            <p>${message}</p>
+        </div>
+    </body>
+</html>`, { status: 404, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } });
+
+// Head markup goes right after <head> so it runs before the page's own scripts; body markup goes before </body>.
+const injectIntoHtml = (html, injection) => {
+    let result = html;
+    if (injection.head) {
+        const head = result.match(/<head(\s[^>]*)?>/i) || result.match(/<html(\s[^>]*)?>/i);
+        result = head
+            ? result.slice(0, head.index + head[0].length) + injection.head + result.slice(head.index + head[0].length)
+            : injection.head + result;
+    }
+    if (injection.body) {
+        result = result.includes('</body>') ? result.replace('</body>', () => `${injection.body}</body>`) : result + injection.body;
+    }
+    return result;
+};
+
+const fileResponse = (file, injection) => {
+    const mimeType = getMimeType(file.path);
+    const headers = { 'Cache-Control': 'no-store' };
+
+    // The app sends binary files such as images and fonts as Blobs.
+    if (file.content instanceof Blob) {
+        return new Response(file.content, { headers: { ...headers, 'Content-Type': file.content.type || mimeType } });
+    }
+
+    const body = mimeType === 'text/html' ? injectIntoHtml(file.content, injection) : file.content;
+    return new Response(body, { headers: { ...headers, 'Content-Type': `${mimeType}; charset=utf-8` } });
+};
+
+const serveFile = async (sessionId, path) => {
+    const session = await getSession(sessionId);
+    if (!session) {
+        return notFoundResponse('This preview has expired. Reload the preview to continue.');
+    }
+    const file = findFile(session.files, path);
+    if (!file) {
+        return notFoundResponse(`Could not find the file <code>${escapeHtml(path || 'index.html')}</code> in your project.`);
+    }
+    return fileResponse(file, session.injection);
+};
+
+// Splits '/preview/<session>/<path>' into its parts.
+const parsePreviewPath = (pathname) => {
+    const rest = pathname.slice(PREVIEW_PREFIX.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) return { sessionId: rest, path: '' };
+    return { sessionId: rest.slice(0, slash), path: decodeURIComponent(rest.slice(slash + 1)) };
+};
+
+self.addEventListener('fetch', (event) => {
+    const url = new URL(event.request.url);
+    if (url.origin !== self.location.origin) return;
+
+    if (url.pathname.startsWith(PREVIEW_PREFIX)) {
+        const { sessionId, path } = parsePreviewPath(url.pathname);
+        event.respondWith(serveFile(sessionId, path));
+        return;
+    }
+
+    // Only preview pages are controlled by this worker, so any other same-origin request comes from a
+    // preview using a root-relative URL such as fetch('/data.json'). Serve it from that preview's project.
+    if (!event.clientId) return;
+    event.respondWith((async () => {
+        const client = await self.clients.get(event.clientId);
+        const clientPath = client ? new URL(client.url).pathname : '';
+        if (clientPath.startsWith(PREVIEW_PREFIX)) {
+            const { sessionId } = parsePreviewPath(clientPath);
+            const session = await getSession(sessionId);
+            const file = session && findFile(session.files, decodeURIComponent(url.pathname.slice(1)));
+            if (file) {
+                return fileResponse(file, session.injection);
+            }
+        }
+        return fetch(event.request);
+    })());
+});
@@ -0,0 +1,137 @@
+export type Point = { x: number; y: number };
+
+export type AnnotationTool = 'select' | 'pen' | 'rect' | 'arrow' | 'highlight' | 'text';
+
+interface BaseAnnotation {
+    id: string;
+    color: string;
+    // Stroke width in pixels; text is drawn at a font size derived from it (see `getFontSize`).
+    size: number;
+}
+
+export interface PathAnnotation extends BaseAnnotation {
+    type: 'path';
+    points: Point[];
+}
+
+// Rectangles, arrows and highlight boxes are defined by the two points they were dragged between.
+export interface ShapeAnnotation extends BaseAnnotation {
+    type: 'rect' | 'arrow' | 'highlight';
+    start: Point;
+    end: Point;
+}
+
+export interface TextAnnotation extends BaseAnnotation {
+    type: 'text';
+    content: string;
+    // The left end of the text's baseline.
+    position: Point;
+}
+
+/**
+ * A mark drawn over the preview. Coordinates are in pixels from the top left of the preview, and
+ * a project keeps a list of them for each version (see `Project['annotations']`).
+ */
+export type Annotation = PathAnnotation | ShapeAnnotation | TextAnnotation;
+
+export const ANNOTATION_SIZES = [2, 4, 8];
+
+// How far from a mark a click still selects it.
+const HIT_TOLERANCE = 6;
+
+export const getFontSize = (annotation: Pick<Annotation, 'size'>): number => 12 + annotation.size * 2;
+
+export const createAnnotationId = (): string => crypto.randomUUID();
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const getRect = ({ start, end }: ShapeAnnotation) => ({
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    right: Math.max(start.x, end.x),
+    bottom: Math.max(start.y, end.y),
+});
+
+/**
+ * Whether `point` is on the annotation. Rectangles are only hit on their outline so that marks inside
+ * them can still be picked; highlight boxes are filled and are hit anywhere inside.
+ * `measureText` returns the width of a text annotation as drawn.
+ */
+export const hitTest = (annotation: Annotation, point: Point, measureText: (annotation: TextAnnotation) => number): boolean => {
+    const tolerance = HIT_TOLERANCE + annotation.size / 2;
+    switch (annotation.type) {
+        case 'path':
+            return annotation.points.some((p, i) => i > 0 && distanceToSegment(point, annotation.points[i - 1], p) <= tolerance)
+                || (annotation.points.length === 1 && Math.hypot(point.x - annotation.points[0].x, point.y - annotation.points[0].y) <= tolerance);
+        case 'arrow':
+            return distanceToSegment(point, annotation.start, annotation.end) <= tolerance;
+        case 'highlight': {
+            const { left, top, right, bottom } = getRect(annotation);
+            return point.x >= left - tolerance && point.x <= right + tolerance && point.y >= top - tolerance && point.y <= bottom + tolerance;
+        }
+        case 'rect': {
+            const { left, top, right, bottom } = getRect(annotation);
+            const corners = [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }];
+            return corners.some((corner, i) => distanceToSegment(point, corner, corners[(i + 1) % 4]) <= tolerance);
+        }
+        case 'text': {
+            const fontSize = getFontSize(annotation);
+            const { x, y } = annotation.position;
+            return point.x >= x - HIT_TOLERANCE && point.x <= x + measureText(annotation) + HIT_TOLERANCE
+                && point.y >= y - fontSize - HIT_TOLERANCE && point.y <= y + HIT_TOLERANCE;
+        }
+    }
+};
+
+// The topmost annotation at `point`, i.e. the last one drawn.
+export const findAnnotationAt = (annotations: Annotation[], point: Point, measureText: (annotation: TextAnnotation) => number): Annotation | null => {
+    for (let i = annotations.length - 1; i >= 0; i--) {
+        if (hitTest(annotations[i], point, measureText)) return annotations[i];
+    }
+    return null;
+};
+
+export const moveAnnotation = <T extends Annotation>(annotation: T, dx: number, dy: number): T => {
+    const move = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+    switch (annotation.type) {
+        case 'path':
+            return { ...annotation, points: annotation.points.map(move) };
+        case 'text':
+            return { ...annotation, position: move(annotation.position) };
+        default:
+            return { ...annotation, start: move(annotation.start), end: move(annotation.end) };
+    }
+};
+
+// Points that can be dragged to reshape the annotation: both ends of a shape. Paths and text have none.
+export const getHandles = (annotation: Annotation): Point[] =>
+    annotation.type === 'rect' || annotation.type === 'arrow' || annotation.type === 'highlight'
+        ? [annotation.start, annotation.end]
+        : [];
+
+export const moveHandle = (annotation: Annotation, handleIndex: number, point: Point): Annotation => {
+    if (annotation.type !== 'rect' && annotation.type !== 'arrow' && annotation.type !== 'highlight') return annotation;
+    return handleIndex === 0 ? { ...annotation, start: point } : { ...annotation, end: point };
+};
+
+export const findHandleAt = (annotation: Annotation, point: Point): number => {
+    return getHandles(annotation).findIndex(handle => Math.hypot(point.x - handle.x, point.y - handle.y) <= HIT_TOLERANCE + 2);
+};
+
+// Shapes dragged out by less than this are treated as accidental clicks and dropped.
+export const isDegenerate = (annotation: Annotation): boolean => {
+    switch (annotation.type) {
+        case 'path':
+            return annotation.points.length < 2;
+        case 'text':
+            return !annotation.content.trim();
+        default:
+            return Math.hypot(annotation.end.x - annotation.start.x, annotation.end.y - annotation.start.y) < 4;
+    }
+};
@@ -0,0 +1,143 @@
+import type { File } from './geminiService';
+import { getBinaryMimeType, isBinaryFile, isBinaryPath, isFontPath, isImagePath, toDataUrl } from './binaryFiles';
+import { dirname } from './previewBundler';
+
+// Where uploaded assets go. New plain projects always have this folder.
+export const ASSETS_DIRECTORY = 'assets';
+
+// A place in a text file that refers to an asset.
+export interface AssetUsage {
+    path: string;
+    line: number;
+}
+
+export interface AssetInfo {
+    file: File;
+    usages: AssetUsage[];
+}
+
+const isSvgPath = (path: string): boolean => /\.svg$/i.test(path);
+
+// Assets are the project's images, fonts and media: every binary file, and SVG images, which are text.
+export const isAssetPath = (path: string): boolean => isBinaryPath(path) || isSvgPath(path);
+
+export const isAssetFile = (file: File): boolean => isBinaryFile(file) || isSvgPath(file.path);
+
+export const getAssetUrl = (file: File): string => isBinaryFile(file)
+    ? toDataUrl(file)
+    : `data:image/svg+xml;charset=utf-8,${encodeURIComponent(file.content)}`;
+
+export const isImageAsset = (file: File): boolean => isSvgPath(file.path) || isImagePath(file.path);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The path from the folder `from` to `to`, as a page or stylesheet in that folder would write it.
+const getRelativePath = (from: string, to: string): string => {
+    const fromParts = from ? from.split('/') : [];
+    const toParts = to.split('/');
+    let common = 0;
+    while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) common++;
+    return [...fromParts.slice(common).map(() => '..'), ...toParts.slice(common)].join('/');
+};
+
+/**
+ * Matches the ways a file can refer to an asset: relative to itself (`assets/logo.png`, `./logo.png`,
+ * `../assets/logo.png`) or from the site root (`/assets/logo.png`), as a whole attribute, url() or import value.
+ */
+const createReferencePattern = (assetPath: string, fromPath: string): RegExp => {
+    const relative = escapeRegExp(getRelativePath(dirname(fromPath), assetPath));
+    return new RegExp(`(^|["'(\\s=,])(${escapeRegExp(`/${assetPath}`)}|(?:\\./)?${relative})(?=$|["')\\s?#,])`, 'g');
+};
+
+export const findAssetUsages = (assetPath: string, files: File[]): AssetUsage[] => files
+    .filter(file => file.path !== assetPath && !isBinaryFile(file))
+    .flatMap(file => {
+        const pattern = createReferencePattern(assetPath, file.path);
+        return file.content.split('\n').flatMap((text, index) => {
+            pattern.lastIndex = 0;
+            return pattern.test(text) ? [{ path: file.path, line: index + 1 }] : [];
+        });
+    });
+
+// Every asset in the project with the places that use it, sorted by path.
+export const getAssets = (files: File[]): AssetInfo[] => files
+    .filter(isAssetFile)
+    .map(file => ({ file, usages: findAssetUsages(file.path, files) }))
+    .sort((a, b) => a.file.path.localeCompare(b.file.path));
+
+// A file name that is safe in URLs: `My Logo (1).PNG` becomes `my-logo-1.png`.
+const toAssetName = (name: string): string => {
+    const extension = name.includes('.') ? name.slice(name.lastIndexOf('.')).toLowerCase() : '';
+    const base = name.slice(0, name.length - extension.length).toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${base || 'asset'}${extension}`;
+};
+
+export const getAssetPath = (name: string): string => `${ASSETS_DIRECTORY}/${toAssetName(name)}`;
+
+// The path itself if no file has it, else the first numbered one that is free (`logo-2.png`).
+const getFreePath = (path: string, files: File[]): string => {
+    const extensionIndex = path.lastIndexOf('.') > path.lastIndexOf('/') ? path.lastIndexOf('.') : path.length;
+    let candidate = path;
+    for (let i = 2; files.some(file => file.path === candidate); i++) {
+        candidate = `${path.slice(0, extensionIndex)}-${i}${path.slice(extensionIndex)}`;
+    }
+    return candidate;
+};
+
+// Like `getAssetPath`, but numbered rather than replacing a file that already exists.
+export const getUniqueAssetPath = (name: string, files: File[]): string => getFreePath(getAssetPath(name), files);
+
+// Adds or replaces assets, dropping the placeholder that kept the empty assets folder.
+export const addAssets = (files: File[], assets: File[]): File[] => {
+    const paths = new Set(assets.map(asset => asset.path));
+    return [...files.filter(file => !paths.has(file.path) && file.path !== `${ASSETS_DIRECTORY}/.gitkeep`), ...assets];
+};
+
+/**
+ * Swaps an asset for a new file while keeping the pages that use it working. A replacement of another type
+ * (a PNG logo replaced by an SVG) takes the new extension, numbered if another file already has that path,
+ * and every reference to the old path is updated.
+ */
+export const replaceAsset = (files: File[], path: string, replacement: File): File[] => {
+    const extension = (p: string) => p.includes('.') ? p.slice(p.lastIndexOf('.')) : '';
+    const newPath = extension(replacement.path).toLowerCase() === extension(path).toLowerCase()
+        ? path
+        : getFreePath(`${path.slice(0, path.length - extension(path).length)}${extension(replacement.path).toLowerCase()}`, files);
+    const newFile = { ...replacement, path: newPath };
+    if (newPath === path) return files.map(file => file.path === path ? newFile : file);
+
+    const usedIn = new Set(findAssetUsages(path, files).map(usage => usage.path));
+    return files.map(file => {
+        if (file.path === path) return newFile;
+        if (!usedIn.has(file.path)) return file;
+        const oldRelative = getRelativePath(dirname(file.path), path);
+        const newRelative = getRelativePath(dirname(file.path), newPath);
+        const content = file.content.replace(createReferencePattern(path, file.path), (_, prefix: string, reference: string) =>
+            `${prefix}${reference.startsWith('/') ? `/${newPath}` : reference.replace(oldRelative, newRelative)}`);
+        return { ...file, content };
+    });
+};
+
+// What an asset is probably for, from its name and type, so the prompt can say how to use it.
+const getAssetRole = (path: string): string => {
+    const name = path.split('/').pop()!.toLowerCase();
+    if (isFontPath(path)) return 'as a font, loaded with @font-face';
+    if (/logo/.test(name)) return 'as the logo';
+    if (/favicon|\.ico$/.test(name)) return 'as the favicon';
+    if (/hero|banner|background|\bbg\b|cover/.test(name)) return 'as a background or hero image';
+    if (/avatar|portrait|profile|headshot/.test(name)) return 'as a profile photo';
+    const mimeType = isSvgPath(path) ? 'image/svg+xml' : getBinaryMimeType(path);
+    if (mimeType.startsWith('video/')) return 'as a video';
+    if (mimeType.startsWith('audio/')) return 'as audio';
+    if (mimeType === 'application/pdf') return 'as a document visitors can open or download';
+    return 'as an image where it fits the request';
+};
+
+/**
+ * Tells the AI about assets the user attached, by path. The files are already in the project, so the AI
+ * uses them directly instead of working from a description.
+ */
+export const createAssetPrompt = (assetPaths: string[]): string => assetPaths.length === 0 ? '' : `
+
+The following files were added to the project for this change; refer to them by these paths:
+${assetPaths.map(path => `- Use \`${path}\` ${getAssetRole(path)}.`).join('\n')}`;
@@ -0,0 +1,93 @@
+import type { File } from './geminiService';
+
+// The kinds of file kept as bytes rather than text, by extension. SVG is text and stays editable.
+const BINARY_MIME_TYPES: { [extension: string]: string } = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    ico: 'image/x-icon',
+    bmp: 'image/bmp',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    eot: 'application/vnd.ms-fontobject',
+    pdf: 'application/pdf',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    zip: 'application/zip',
+};
+
+const DATA_URL_PATTERN = /^data:[^;,]*;base64,/;
+
+const getExtension = (path: string): string => path.split('.').pop()?.toLowerCase() || '';
+
+export const isBinaryPath = (path: string): boolean => getExtension(path) in BINARY_MIME_TYPES;
+
+export const isBinaryFile = (file: File): boolean => file.encoding === 'base64';
+
+export const getBinaryMimeType = (path: string): string => BINARY_MIME_TYPES[getExtension(path)] ?? 'application/octet-stream';
+
+export const isImagePath = (path: string): boolean => getBinaryMimeType(path).startsWith('image/');
+
+export const isFontPath = (path: string): boolean => getBinaryMimeType(path).startsWith('font/') || getExtension(path) === 'eot';
+
+export const toDataUrl = (file: File): string => `data:${getBinaryMimeType(file.path)};base64,${file.content}`;
+
+// The number of bytes a base64 file holds, without decoding it.
+export const getBinarySize = (file: File): number => {
+    const padding = file.content.endsWith('==') ? 2 : file.content.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(file.content.length * 3 / 4) - padding);
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+// Reads a file from the user's computer into the project: bytes for binary kinds, text for everything else.
+export const readUploadedFile = (path: string, upload: Blob): Promise<File> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    if (isBinaryPath(path)) {
+        reader.onload = () => resolve({ path, content: (reader.result as string).replace(DATA_URL_PATTERN, ''), encoding: 'base64' });
+        reader.readAsDataURL(upload);
+    } else {
+        reader.onload = () => resolve({ path, content: reader.result as string });
+        reader.readAsText(upload);
+    }
+});
+
+/**
+ * The files as the AI sees them. Binary content is of no use to a language model and can be megabytes long,
+ * so it is replaced by a short description and the AI refers to the file by its path.
+ */
+export const describeFilesForAi = (files: File[]): File[] => files.map(file => isBinaryFile(file)
+    ? { path: file.path, encoding: 'base64', content: `(binary ${getBinaryMimeType(file.path)}, ${formatFileSize(getBinarySize(file))}; reference it by its path)` }
+    : file);
+
+/**
+ * Binary files cannot be written by the AI, so a full set of files it returns keeps the project's binary files
+ * as they were, whether the AI echoed them back or left them out.
+ */
+export const restoreBinaryFiles = (files: File[], baseFiles: File[]): File[] => {
+    const binaryFiles = baseFiles.filter(isBinaryFile);
+    const textFiles = files.filter(file => file.encoding !== 'base64' && !binaryFiles.some(binary => binary.path === file.path));
+    return [...textFiles, ...binaryFiles];
+};
@@ -0,0 +1,86 @@
+export type DeviceCategory = 'phone' | 'tablet' | 'desktop';
+
+export interface DevicePreset {
+    id: string;
+    name: string;
+    category: DeviceCategory;
+    // The CSS viewport in portrait (phones, tablets) or landscape (desktops) orientation.
+    width: number;
+    height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+    { id: 'iphone-se', name: 'iPhone SE', category: 'phone', width: 375, height: 667 },
+    { id: 'iphone-15', name: 'iPhone 15', category: 'phone', width: 393, height: 852 },
+    { id: 'iphone-15-pro-max', name: 'iPhone 15 Pro Max', category: 'phone', width: 430, height: 932 },
+    { id: 'pixel-8', name: 'Pixel 8', category: 'phone', width: 412, height: 915 },
+    { id: 'galaxy-s23', name: 'Galaxy S23', category: 'phone', width: 360, height: 780 },
+    { id: 'ipad-mini', name: 'iPad mini', category: 'tablet', width: 744, height: 1133 },
+    { id: 'ipad-air', name: 'iPad Air', category: 'tablet', width: 820, height: 1180 },
+    { id: 'ipad-pro-12', name: 'iPad Pro 12.9"', category: 'tablet', width: 1024, height: 1366 },
+    { id: 'galaxy-tab-s8', name: 'Galaxy Tab S8', category: 'tablet', width: 800, height: 1280 },
+    { id: 'laptop', name: 'Laptop', category: 'desktop', width: 1280, height: 800 },
+    { id: 'laptop-hd', name: 'Laptop HD', category: 'desktop', width: 1366, height: 768 },
+    { id: 'desktop', name: 'Desktop', category: 'desktop', width: 1440, height: 900 },
+    { id: 'desktop-full-hd', name: 'Full HD', category: 'desktop', width: 1920, height: 1080 },
+];
+
+// Fills the preview pane, as before devices could be chosen.
+export const RESPONSIVE_DEVICE_ID = 'responsive';
+export const CUSTOM_DEVICE_ID = 'custom';
+
+// What the preview is sized as: the responsive pane, a preset, or a custom size.
+export interface PreviewViewport {
+    deviceId: string;
+    // The size of a preset or custom device before rotation. Unused for the responsive pane.
+    width: number;
+    height: number;
+    isRotated: boolean;
+}
+
+export const DEFAULT_VIEWPORT: PreviewViewport = { deviceId: RESPONSIVE_DEVICE_ID, width: 0, height: 0, isRotated: false };
+
+// The devices shown side by side until the user picks others: a breakpoint each for phone, tablet and desktop.
+export const DEFAULT_COMPARED_DEVICE_IDS = ['iphone-15', 'ipad-air', 'laptop'];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 4000;
+
+export const getDevicePreset = (id: string): DevicePreset | undefined => DEVICE_PRESETS.find(device => device.id === id);
+
+export const createViewport = (preset: DevicePreset, isRotated: boolean): PreviewViewport => ({
+    deviceId: preset.id,
+    width: preset.width,
+    height: preset.height,
+    isRotated,
+});
+
+export const clampViewportSize = (size: number): number =>
+    Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, size || MIN_VIEWPORT_SIZE)));
+
+// The size the page is rendered at, or null for the responsive pane.
+export const getViewportSize = (viewport: PreviewViewport): { width: number; height: number } | null => {
+    if (viewport.deviceId === RESPONSIVE_DEVICE_ID) return null;
+    return viewport.isRotated
+        ? { width: viewport.height, height: viewport.width }
+        : { width: viewport.width, height: viewport.height };
+};
+
+export const getViewportLabel = (viewport: PreviewViewport): string => {
+    const size = getViewportSize(viewport);
+    if (!size) return 'Responsive';
+    const name = getDevicePreset(viewport.deviceId)?.name ?? 'Custom';
+    return `${name} (${size.width}×${size.height})`;
+};
+
+/**
+ * The scale at which content of the given sizes, laid out side by side with `gap` pixels between them,
+ * fits into the available space. Content is never enlarged.
+ */
+export const getFitScale = (sizes: Array<{ width: number; height: number }>, available: { width: number; height: number }, gap = 0): number => {
+    if (sizes.length === 0 || available.width <= 0 || available.height <= 0) return 1;
+    const totalWidth = sizes.reduce((sum, size) => sum + size.width, 0);
+    const maxHeight = Math.max(...sizes.map(size => size.height));
+    const widthScale = (available.width - gap * (sizes.length - 1)) / totalWidth;
+    return Math.max(0.05, Math.min(1, widthScale, available.height / maxHeight));
+};
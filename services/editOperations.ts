@@ -0,0 +1,116 @@
+import type { File } from './geminiService';
+
+export interface EditHunk {
+    search: string;
+    replace: string;
+}
+
+export type EditOperation =
+    | { type: 'create'; path: string; content: string }
+    | { type: 'overwrite'; path: string; content: string }
+    | { type: 'edit'; path: string; hunks: EditHunk[] }
+    | { type: 'delete'; path: string }
+    | { type: 'rename'; path: string; newPath: string };
+
+// Thrown when the model's operations do not fit the current project, e.g. a hunk whose search text is missing.
+export class EditOperationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EditOperationError';
+    }
+}
+
+const countOccurrences = (content: string, search: string): number => {
+    let count = 0;
+    let index = content.indexOf(search);
+    while (index !== -1) {
+        count++;
+        index = content.indexOf(search, index + search.length);
+    }
+    return count;
+};
+
+/**
+ * Validates a raw operation object received from the model.
+ * Returns null if it is malformed.
+ */
+export const parseEditOperation = (raw: any): EditOperation | null => {
+    if (!raw || typeof raw.path !== 'string' || !raw.path) return null;
+    switch (raw.type) {
+        case 'create':
+        case 'overwrite':
+            return typeof raw.content === 'string' ? { type: raw.type, path: raw.path, content: raw.content } : null;
+        case 'edit':
+            if (!Array.isArray(raw.hunks)) return null;
+            if (!raw.hunks.every((h: any) => typeof h?.search === 'string' && typeof h?.replace === 'string')) return null;
+            return { type: 'edit', path: raw.path, hunks: raw.hunks.map((h: any) => ({ search: h.search, replace: h.replace })) };
+        case 'delete':
+            return { type: 'delete', path: raw.path };
+        case 'rename':
+            return typeof raw.newPath === 'string' && raw.newPath ? { type: 'rename', path: raw.path, newPath: raw.newPath } : null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Applies a single operation and returns the new file list. Files not named by the
+ * operation are returned untouched. Throws an EditOperationError if it cannot be applied.
+ */
+export const applyEditOperation = (files: File[], operation: EditOperation): File[] => {
+    const existing = files.find(f => f.path === operation.path);
+
+    switch (operation.type) {
+        case 'create':
+            if (existing) {
+                throw new EditOperationError(`Cannot create "${operation.path}" because it already exists.`);
+            }
+            return [...files, { path: operation.path, content: operation.content }];
+
+        case 'overwrite':
+            if (!existing) {
+                throw new EditOperationError(`Cannot overwrite "${operation.path}" because it does not exist.`);
+            }
+            if (existing.encoding) {
+                throw new EditOperationError(`Cannot overwrite "${operation.path}" because it is a binary file.`);
+            }
+            return files.map(f => f.path === operation.path ? { ...f, content: operation.content } : f);
+
+        case 'edit': {
+            if (!existing) {
+                throw new EditOperationError(`Cannot edit "${operation.path}" because it does not exist.`);
+            }
+            if (existing.encoding) {
+                throw new EditOperationError(`Cannot edit "${operation.path}" because it is a binary file.`);
+            }
+            let content = existing.content;
+            operation.hunks.forEach((hunk, index) => {
+                const occurrences = hunk.search ? countOccurrences(content, hunk.search) : 0;
+                if (occurrences === 0) {
+                    throw new EditOperationError(`Change ${index + 1} to "${operation.path}" does not match the current file content.`);
+                }
+                if (occurrences > 1) {
+                    throw new EditOperationError(`Change ${index + 1} to "${operation.path}" matches ${occurrences} places in the file and is ambiguous.`);
+                }
+                // Use a function replacement so `$` sequences in the new text are kept literally.
+                content = content.replace(hunk.search, () => hunk.replace);
+            });
+            return files.map(f => f.path === operation.path ? { ...f, content } : f);
+        }
+
+        case 'delete':
+            if (!existing) {
+                throw new EditOperationError(`Cannot delete "${operation.path}" because it does not exist.`);
+            }
+            return files.filter(f => f.path !== operation.path);
+
+        case 'rename':
+            if (!existing) {
+                throw new EditOperationError(`Cannot rename "${operation.path}" because it does not exist.`);
+            }
+            if (files.some(f => f.path === operation.newPath)) {
+                throw new EditOperationError(`Cannot rename "${operation.path}" to "${operation.newPath}" because that file already exists.`);
+            }
+            return files.map(f => f.path === operation.path ? { ...f, path: operation.newPath } : f);
+    }
+};
@@ -0,0 +1,79 @@
+import { mapPreviewUrls } from './previewConsole';
+import { SourceRange, parseSourceLocation } from './sourceLocations';
+
+// A rule from one of the page's stylesheets that applies to a selected element.
+export interface MatchedCssRule {
+    selector: string;
+    declarations: string;
+    // The project path of the stylesheet, or a description such as `inline <style>`.
+    source: string;
+    // The @media or @supports condition the rule is nested in, if any.
+    condition?: string;
+}
+
+// An element picked in the preview, with what the model needs to change it precisely.
+export interface SelectedElement {
+    // Matches the element in the page as it is now; `source` is what to rely on across edits.
+    selector: string;
+    tagName: string;
+    html: string;
+    // In page coordinates, i.e. including the scroll offset.
+    bounds: { x: number; y: number; width: number; height: number };
+    // A fixed set of layout and typography properties as computed by the browser.
+    styles: { [property: string]: string };
+    rules: MatchedCssRule[];
+    // Where the element is written in the project's HTML. Missing for elements created by scripts.
+    source?: SourceRange;
+    // Set when the element was created by a script and `source` is that of its closest ancestor written in HTML.
+    isSourceOfAncestor?: boolean;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const toNumber = (value: unknown): number => typeof value === 'number' && isFinite(value) ? value : 0;
+
+const toRule = (raw: any, previewBaseUrl: string): MatchedCssRule | null => {
+    if (!raw || !isString(raw.selector) || !isString(raw.declarations)) return null;
+    const source = isString(raw.source) ? mapPreviewUrls(raw.source, previewBaseUrl).split(/[?#]/)[0] : 'unknown';
+    return {
+        selector: raw.selector,
+        declarations: raw.declarations,
+        source: source || 'index.html',
+        condition: isString(raw.condition) ? raw.condition : undefined,
+    };
+};
+
+const toElement = (raw: any, previewBaseUrl: string): SelectedElement | null => {
+    if (!raw || !isString(raw.selector) || !isString(raw.html)) return null;
+    const styles: SelectedElement['styles'] = {};
+    if (raw.styles && typeof raw.styles === 'object') {
+        Object.entries(raw.styles).forEach(([property, value]) => {
+            if (isString(value)) styles[property] = value;
+        });
+    }
+    return {
+        selector: raw.selector,
+        tagName: isString(raw.tagName) ? raw.tagName : '',
+        html: raw.html,
+        bounds: {
+            x: toNumber(raw.bounds?.x),
+            y: toNumber(raw.bounds?.y),
+            width: toNumber(raw.bounds?.width),
+            height: toNumber(raw.bounds?.height),
+        },
+        styles,
+        rules: Array.isArray(raw.rules)
+            ? raw.rules.map((rule: unknown) => toRule(rule, previewBaseUrl)).filter((rule: MatchedCssRule | null): rule is MatchedCssRule => rule !== null)
+            : [],
+        source: parseSourceLocation(raw.source) ?? undefined,
+        isSourceOfAncestor: raw.isSourceOfAncestor === true || undefined,
+    };
+};
+
+// Validates an `elementsSelected` message from the preview iframe and maps stylesheet URLs back to project paths.
+export const createSelectedElements = (payload: any, previewBaseUrl: string): SelectedElement[] => {
+    if (!payload || !Array.isArray(payload.elements)) return [];
+    return payload.elements
+        .map((raw: unknown) => toElement(raw, previewBaseUrl))
+        .filter((element: SelectedElement | null): element is SelectedElement => element !== null);
+};
@@ -1,25 +1,26 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-let ai: GoogleGenAI | null = null;
-
-export const initializeAi = (apiKey: string | undefined | null) => {
-    if (apiKey) {
-        try {
-            // Re-initialize the client with the new key
-            ai = new GoogleGenAI({ apiKey });
-        } catch (e) {
-            console.error("Failed to initialize GoogleGenAI with provided key:", e);
-            ai = null; // Set to null if initialization fails
-        }
-    } else {
-        // Clear the client if no key is provided
-        ai = null;
+import { Type } from "@google/genai";
+import { createGenerationStreamParser } from './generationStreamParser';
+import { applyEditOperation, EditOperationError, parseEditOperation } from './editOperations';
+import { ChatTurn, getActiveProvider, ImageInput, LlmProvider } from './llmProvider';
+import type { PreviewConsoleEntry } from './previewConsole';
+import type { SelectedElement } from './elementContext';
+import { DEFAULT_PROJECT_TARGET, getProjectTarget, ProjectTarget } from './projectTargets';
+import { DEFAULT_PROJECT_STYLING, getTokensPath, ProjectStyling } from './projectStyling';
+import { describeFilesForAi, formatFileSize, isBinaryPath, restoreBinaryFiles } from './binaryFiles';
+
+const requireProvider = (): LlmProvider => {
+    const provider = getActiveProvider();
+    if (!provider) {
+        throw new Error("No AI provider is configured. Please set one up in Settings.");
     }
+    return provider;
 };
 
 export interface File {
     path: string;
     content: string;
+    // Images, fonts and other binary files hold their bytes as base64 in `content`; see services/binaryFiles.ts.
+    encoding?: 'base64';
 }
 
 export interface Suggestion {
@@ -32,27 +33,65 @@ export interface GenerationResult {
     files: File[];
 }
 
-const handleGeminiError = (error: any, context: string): Error => {
+// 'operations' asks the model for targeted edits instead of re-sending every file. Only used when editing.
+export type EditMode = 'operations' | 'full';
+
+export interface GenerationOptions {
+    editMode?: EditMode;
+    // The stack the project is written for; the plain HTML, CSS and JS structure if not set.
+    target?: ProjectTarget;
+    // How the project is styled; plain CSS if not set.
+    styling?: ProjectStyling;
+    // Attachments that were added to the project as assets, with their paths. Images among them are still shown to the AI, but not described.
+    assetPaths?: Map<globalThis.File, string>;
+    // Called once the plan has been fully received, before any file content.
+    onPlan?: (plan: string) => void;
+    // Called each time a file has been fully received, or changed by an edit operation.
+    onFile?: (file: File, index: number) => void;
+}
+
+const handleAiError = (error: any, context: string): Error => {
     console.error(`Error in ${context}:`, error);
+    // Edits that could not be applied carry a precise reason, which is more useful than the generic message below.
+    if (error instanceof EditOperationError) {
+        return new Error(`The AI's changes could not be applied safely. ${error.message} No files were changed.`);
+    }
     // Make error checking more robust by looking at the message property if it exists.
     const errorString = (error?.message || error.toString()).toLowerCase();
 
     // Broaden the check for API key-related errors to provide better user feedback.
-    if (errorString.includes("api key") || errorString.includes("api_key") || errorString.includes("permission denied") || errorString.includes("authentication failed")) {
-        return new Error("Your Gemini API Key is invalid, missing required permissions, or not entered correctly. Please check it in Settings and try again.");
+    if (errorString.includes("api key") || errorString.includes("api_key") || errorString.includes("permission denied") || errorString.includes("authentication failed") || errorString.includes("responded with 401")) {
+        return new Error("Your API Key is invalid, missing required permissions, or not entered correctly. Please check your AI provider in Settings and try again.");
+    }
+
+    // Self-hosted servers are usually unreachable because they are offline or do not allow this site (CORS).
+    if (errorString.includes("failed to fetch") || errorString.includes("networkerror") || errorString.includes("load failed")) {
+        return new Error(`Could not reach the AI model server for ${context}. Check the server URL in Settings, that the server is running, and that it allows requests from this site (CORS).`);
+    }
+
+    if (errorString.includes("responded with")) {
+        return new Error(`The AI model server rejected the request for ${context}. ${error.message}`);
     }
     
     // Provide a more helpful generic error message.
     return new Error(`Failed to communicate with the AI model for ${context}. This could be a temporary network issue or a problem with the service.`);
 };
 
-const MULTI_FILE_GENERATION_INSTRUCTION = `You are an expert web developer. Your task is to generate a complete web application project structure with multiple files based on the user's prompt. You must output a single JSON object containing a "plan" string and an array of file objects.
+// The parts of the instructions that depend on the project's stack: requirements 4-6 for new projects and the stack reminder for edits.
+interface TargetInstructions {
+    structure: string;
+    editing: string;
+    // The styling rules for new projects and for edits when the project uses plain CSS.
+    css: { generation: string; editing: string };
+}
 
-**Requirements:**
-1.  **JSON Output:** Your entire response MUST be a single, valid JSON object in the format: \`{ "plan": "A summary of the app to be created.", "files": [ { "path": "path/to/file.ext", "content": "file content" } ] }\`. Do not include any markdown formatting.
-2.  **Plan First:** The 'plan' property must contain a brief, one-sentence summary of the web application you are about to create.
-3.  **Context from Attachments:** The user's prompt may be supplemented with context from attached files. For images, an AI-generated description is provided. You MUST use this contextual information to inform your design choices (e.g., color schemes, background images, content).
-4.  **Mandatory Project Structure:** You MUST create the following files for every new project:
+const BINARY_FILES_RULE = `Binary files such as images and fonts are listed with \`"encoding": "base64"\` and a short description instead of their content. Use them by referring to their path (e.g. \`<img src="assets/logo.png">\` or \`url('assets/font.woff2')\`), and never edit, re-create or write out their content.`;
+
+const FRAMEWORK_IMPORTS_RULE = `Import project files with relative paths and npm packages by their bare name (e.g. \`import confetti from 'canvas-confetti'\`). The preview loads packages from npm, so every package you import MUST be listed under "dependencies" in \`package.json\`. Do not use path aliases, \`import.meta.env\`, or Node.js APIs.`;
+
+const TARGET_INSTRUCTIONS: { [target in ProjectTarget]: TargetInstructions } = {
+    vanilla: {
+        structure: `4.  **Mandatory Project Structure:** You MUST create the following files for every new project:
     - \`index.html\`: The main HTML file.
     - \`style.css\`: The main stylesheet.
     - \`script.js\`: The main JavaScript file.
@@ -61,21 +100,140 @@ const MULTI_FILE_GENERATION_INSTRUCTION = `You are an expert web developer. Your
 6.  **Content Distribution:**
     - All HTML structure goes into \`index.html\`.
     - All CSS styling goes into \`style.css\`.
-    - All JavaScript functionality goes into \`script.js\`.
-7.  **Styling:** Do NOT use Tailwind CSS. All styles must be written in the \`style.css\` file.
+    - All JavaScript functionality goes into \`script.js\`.`,
+        editing: '',
+        css: {
+            generation: `Do NOT use Tailwind CSS. All styles must be written in the \`style.css\` file.`,
+            editing: `The project uses a separate 'style.css' file for styling. Do not add Tailwind CSS. Modify 'style.css' for style changes.`,
+        },
+    },
+    react: {
+        structure: `4.  **Mandatory Project Structure:** The project is a React app written in TypeScript with a standard Vite layout. You MUST create at least the following files:
+    - \`package.json\`: "dev" and "build" scripts, \`react\` and \`react-dom\` (^18.3.1) and every other imported package under "dependencies", and \`vite\`, \`@vitejs/plugin-react\`, \`typescript\`, \`@types/react\` and \`@types/react-dom\` under "devDependencies".
+    - \`vite.config.ts\`: The Vite configuration using \`@vitejs/plugin-react\`.
+    - \`tsconfig.json\`: The TypeScript configuration, with \`"jsx": "react-jsx"\`.
+    - \`index.html\`: Contains \`<div id="root"></div>\` and loads the app with \`<script type="module" src="/src/main.tsx"></script>\`.
+    - \`src/main.tsx\`: Renders \`<App />\` with \`createRoot\` from \`react-dom/client\` and imports \`./index.css\`.
+    - \`src/App.tsx\`: The root component.
+    - \`src/index.css\`: The global stylesheet.
+5.  **Components:** Write function components with hooks, one component per \`.tsx\` file under \`src/components/\`. JSX uses the automatic runtime, so do not import React just for JSX.
+6.  **Imports:** ${FRAMEWORK_IMPORTS_RULE}`,
+        editing: `The project is a React app in TypeScript with a Vite layout. Keep components in \`.tsx\` files under \`src/\`. ${FRAMEWORK_IMPORTS_RULE}`,
+        css: {
+            generation: `Do NOT use Tailwind CSS or CSS modules. Write plain CSS files and import them from the components that use them (e.g. \`import './Header.css'\`).`,
+            editing: `Keep styles in the plain CSS files the components import. Do not add Tailwind CSS or CSS modules.`,
+        },
+    },
+    vue: {
+        structure: `4.  **Mandatory Project Structure:** The project is a Vue 3 app with single-file components and a standard Vite layout. You MUST create at least the following files:
+    - \`package.json\`: "dev" and "build" scripts, \`vue\` (^3.5.0) and every other imported package under "dependencies", and \`vite\`, \`@vitejs/plugin-vue\` and \`typescript\` under "devDependencies".
+    - \`vite.config.ts\`: The Vite configuration using \`@vitejs/plugin-vue\`.
+    - \`index.html\`: Contains \`<div id="app"></div>\` and loads the app with \`<script type="module" src="/src/main.ts"></script>\`.
+    - \`src/main.ts\`: Mounts \`App.vue\` with \`createApp\` from \`vue\` and imports \`./style.css\`.
+    - \`src/App.vue\`: The root component.
+    - \`src/style.css\`: The global stylesheet.
+5.  **Components:** Write single-file components with \`<script setup lang="ts">\` and the Composition API, one per \`.vue\` file under \`src/components/\`. Import child components explicitly.
+6.  **Imports:** ${FRAMEWORK_IMPORTS_RULE}`,
+        editing: `The project is a Vue 3 app with single-file components (\`<script setup lang="ts">\`) and a Vite layout. ${FRAMEWORK_IMPORTS_RULE}`,
+        css: {
+            generation: `Do NOT use Tailwind CSS or CSS preprocessors. Put component styles in \`<style scoped>\` blocks and global styles in \`src/style.css\`.`,
+            editing: `Keep component styles in \`<style scoped>\` blocks and global styles in \`src/style.css\`. Do not add Tailwind CSS or CSS preprocessors.`,
+        },
+    },
+    svelte: {
+        structure: `4.  **Mandatory Project Structure:** The project is a Svelte 5 app with a standard Vite layout. You MUST create at least the following files:
+    - \`package.json\`: "dev" and "build" scripts, every imported package under "dependencies", and \`svelte\` (^5.0.0), \`vite\`, \`@sveltejs/vite-plugin-svelte\` and \`typescript\` under "devDependencies".
+    - \`vite.config.ts\`: The Vite configuration using \`@sveltejs/vite-plugin-svelte\`.
+    - \`index.html\`: Contains \`<div id="app"></div>\` and loads the app with \`<script type="module" src="/src/main.ts"></script>\`.
+    - \`src/main.ts\`: Mounts \`App.svelte\` with \`mount\` from \`svelte\` and imports \`./app.css\`.
+    - \`src/App.svelte\`: The root component.
+    - \`src/app.css\`: The global stylesheet.
+5.  **Components:** Write components with Svelte 5 runes (\`$state\`, \`$derived\`, \`$props\`, \`$effect\`) and \`<script lang="ts">\`, one per \`.svelte\` file under \`src/lib/\`. Use event attributes such as \`onclick\`, not \`on:click\`.
+6.  **Imports:** ${FRAMEWORK_IMPORTS_RULE}`,
+        editing: `The project is a Svelte 5 app using runes and \`<script lang="ts">\`, with a Vite layout. ${FRAMEWORK_IMPORTS_RULE}`,
+        css: {
+            generation: `Do NOT use Tailwind CSS or CSS preprocessors. Put component styles in \`<style>\` blocks and global styles in \`src/app.css\`.`,
+            editing: `Keep component styles in \`<style>\` blocks and global styles in \`src/app.css\`. Do not add Tailwind CSS or CSS preprocessors.`,
+        },
+    },
+};
+
+/**
+ * The styling rule for the project's styling choice. Plain CSS keeps each stack's own rules; the others are the
+ * same for every stack apart from where the global stylesheet lives and how the Tailwind build is set up.
+ */
+const getStylingRule = (styling: ProjectStyling, target: ProjectTarget, mode: 'generation' | 'editing'): string => {
+    const instructions = TARGET_INSTRUCTIONS[target];
+    const stylesheet = getProjectTarget(target).stylesheet;
+    const isVanilla = target === 'vanilla';
+    switch (styling) {
+        case 'tailwind': {
+            const build = isVanilla
+                ? `Link \`${stylesheet}\` from every page as usual; it is compiled when previewed and exported.`
+                : `List \`tailwindcss\` and \`@tailwindcss/vite\` (^4.1.0) under "devDependencies" and add the \`tailwindcss()\` plugin from \`@tailwindcss/vite\` to \`vite.config.ts\`.`;
+            return mode === 'generation'
+                ? `Use Tailwind CSS v4 utility classes for all styling. \`${stylesheet}\` MUST start with \`@import "tailwindcss";\`; customise colours and fonts in an \`@theme\` block in that file and put any other custom CSS after it. Do NOT load Tailwind from a CDN and do NOT create a \`tailwind.config.js\`. ${build}`
+                : `The project uses Tailwind CSS v4. Style with utility classes and put theme changes in the \`@theme\` block of \`${stylesheet}\`. Do not load Tailwind from a CDN or add a \`tailwind.config.js\`.`;
+        }
+        case 'bootstrap':
+            return mode === 'generation'
+                ? `Use Bootstrap 5.3 components, utility classes and its grid for all styling. Bootstrap's CSS and JavaScript bundle are added to every page for you, so do NOT add \`<link>\` or \`<script>\` tags for Bootstrap${isVanilla ? '' : ' and do NOT install or import the `bootstrap` package; use its data attributes (e.g. `data-bs-toggle`) for interactive components'}. Put custom styles and overrides in \`${stylesheet}\`.`
+                : `The project uses Bootstrap 5.3, which is added to every page for you. Use its components and utility classes, put custom styles in \`${stylesheet}\`, and do not add \`<link>\` or \`<script>\` tags for Bootstrap.`;
+        case 'tokens': {
+            const tokens = getTokensPath(target);
+            const loading = isVanilla
+                ? `Link it before \`${stylesheet}\` in every page.`
+                : `Import it at the top of \`${stylesheet}\` with \`@import './tokens.css';\`.`;
+            return mode === 'generation'
+                ? `Do NOT use Tailwind CSS. Define the design tokens (colours, fonts, font sizes, spacing, radii and shadows) as CSS custom properties on \`:root\` in \`${tokens}\`, keeping any tokens the user provides. ${loading} Every other style MUST use \`var(--...)\` for these values instead of literals.`
+                : `The project's design tokens are CSS custom properties in \`${tokens}\`. Use \`var(--...)\` for colours, fonts, spacing, radii and shadows, and add a token there instead of using a new literal value. Do not add Tailwind CSS.`;
+        }
+        default:
+            return instructions.css[mode];
+    }
+};
+
+const createGenerationInstruction = ({ structure }: TargetInstructions, stylingRule: string) => `You are an expert web developer. Your task is to generate a complete web application project structure with multiple files based on the user's prompt. You must output a single JSON object containing a "plan" string and an array of file objects.
+
+**Requirements:**
+1.  **JSON Output:** Your entire response MUST be a single, valid JSON object in the format: \`{ "plan": "A summary of the app to be created.", "files": [ { "path": "path/to/file.ext", "content": "file content" } ] }\`. Do not include any markdown formatting.
+2.  **Plan First:** The 'plan' property must contain a brief, one-sentence summary of the web application you are about to create.
+3.  **Context from Attachments:** The user's prompt may be supplemented with context from attached files. For images, an AI-generated description is provided. You MUST use this contextual information to inform your design choices (e.g., color schemes, background images, content).
+${structure}
+7.  **Styling:** ${stylingRule}
 8.  **File Paths:** Use forward slashes (/) for file paths.
 9.  **Completeness:** The generated files should be complete and ready to run. The user prompt should be implemented across these files.`;
 
-const EDITING_INSTRUCTION = `You are an expert web developer. Your task is to modify the provided web application files based on the user's request. You must output a single JSON object containing a "plan" string and the complete, updated array of all project files.
+// Joins the stack reminder and the styling rule for requirement 'Styling' of the editing instructions.
+const createEditingRule = ({ editing }: TargetInstructions, stylingRule: string) => [editing, stylingRule].filter(Boolean).join(' ');
+
+const createEditingInstruction = (editingRule: string) => `You are an expert web developer. Your task is to modify the provided web application files based on the user's request. You must output a single JSON object containing a "plan" string and the complete, updated array of all project files.
 
 **Requirements:**
 1.  **JSON Output:** Your entire response MUST be a single, valid JSON object in the format: \`{ "plan": "A step-by-step summary of the changes.", "files": [ { "path": "path/to/file.ext", "content": "file content" } ] }\`. Do not add any commentary or markdown formatting.
 2.  **Plan First:** The 'plan' property must contain a concise, step-by-step summary of the changes you are about to make based on the user's request. This plan will be shown to the user.
-3.  **Context:** You will be given the current file structure and content as a JSON string. The user's prompt may also be supplemented with text and image attachments. For images, an AI-generated description is provided. You MUST use all this contextual information to accurately implement the user's request.
+3.  **Context:** You will be given the current file structure and content as a JSON string. The user's prompt may also be supplemented with text and image attachments. For images, an AI-generated description is provided. You MUST use all this contextual information to accurately implement the user's request. ${BINARY_FILES_RULE}
 4.  **Element-Specific Edits:** The user may provide a specific element context (a CSS selector and its current HTML) to target their change. If this context is provided in the prompt, prioritize your modifications on that specific element and its related styles. You may still need to modify other files (like CSS or JS) to fully implement the change.
 5.  **Apply Changes:** Apply the user's requested changes to the appropriate files. You might need to add, delete, or modify files.
-6.  **Return All Files:** You MUST return the complete, updated list of all files in the project, not just the ones you changed.
-7.  **Styling:** The project uses a separate 'style.css' file for styling. Do not add Tailwind CSS. Modify 'style.css' for style changes.`;
+6.  **Return All Files:** You MUST return the complete, updated list of all files in the project, not just the ones you changed. The only exception is binary files: leave them out, and they are kept as they are.
+7.  **Styling:** ${editingRule}`;
+
+const createEditingOperationsInstruction = (editingRule: string) => `You are an expert web developer. Your task is to modify the provided web application files based on the user's request. You must output a single JSON object containing a "plan" string and an array of edit operations describing only the changes.
+
+**Requirements:**
+1.  **JSON Output:** Your entire response MUST be a single, valid JSON object in the format: \`{ "plan": "A step-by-step summary of the changes.", "operations": [ ... ] }\`. Do not add any commentary or markdown formatting.
+2.  **Plan First:** The 'plan' property must contain a concise, step-by-step summary of the changes you are about to make based on the user's request. This plan will be shown to the user.
+3.  **Context:** You will be given the current file structure and content as a JSON string. The user's prompt may also be supplemented with text and image attachments. For images, an AI-generated description is provided. You MUST use all this contextual information to accurately implement the user's request. ${BINARY_FILES_RULE}
+4.  **Element-Specific Edits:** The user may provide a specific element context (a CSS selector and its current HTML) to target their change. If this context is provided in the prompt, prioritize your modifications on that specific element and its related styles. You may still need to modify other files (like CSS or JS) to fully implement the change.
+5.  **Operations:** Each operation has a "type" and a "path". Supported operations:
+    - \`{ "type": "edit", "path": "style.css", "hunks": [ { "search": "exact existing text", "replace": "new text" } ] }\`: Preferred for changes to existing files.
+    - \`{ "type": "create", "path": "new/file.js", "content": "full content" }\`: Adds a new file. The path must not exist yet.
+    - \`{ "type": "overwrite", "path": "index.html", "content": "full content" }\`: Replaces an existing file. Only use this when most of the file changes.
+    - \`{ "type": "delete", "path": "old.js" }\`: Removes a file.
+    - \`{ "type": "rename", "path": "old.js", "newPath": "new.js" }\`: Moves a file without changing its content.
+6.  **Hunks:** Each "search" string MUST be copied exactly, character for character including whitespace, from the current file content, and MUST match exactly one place in the file. Include a few surrounding lines so the match is unique, but keep hunks small. Hunks in one operation are applied in order.
+7.  **Only Changes:** Do NOT include operations for files that do not change. Any file you do not mention is kept exactly as it is.
+8.  **Styling:** ${editingRule}`;
 
 const PROMPT_ENHANCEMENT_INSTRUCTION = `You are a prompt engineering expert. Your task is to rewrite the user's web development change request to be clearer, more detailed, and more effective for an AI agent to understand. Focus on actionable instructions. Respond only with the rewritten prompt, without any preamble or explanation.`;
 
@@ -123,6 +281,46 @@ const fileSchema = {
         },
     },
     required: ['plan', 'files'],
+    // The plan must be streamed before the files so it can be shown while they are being written.
+    propertyOrdering: ['plan', 'files'],
+};
+
+const operationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        plan: {
+            type: Type.STRING,
+            description: "A concise, step-by-step summary of the changes being made."
+        },
+        operations: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ['create', 'overwrite', 'edit', 'delete', 'rename'] },
+                    path: { type: Type.STRING },
+                    content: { type: Type.STRING },
+                    newPath: { type: Type.STRING },
+                    hunks: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                search: { type: Type.STRING },
+                                replace: { type: Type.STRING },
+                            },
+                            required: ['search', 'replace'],
+                            propertyOrdering: ['search', 'replace'],
+                        },
+                    },
+                },
+                required: ['type', 'path'],
+                propertyOrdering: ['type', 'path', 'newPath', 'content', 'hunks'],
+            },
+        },
+    },
+    required: ['plan', 'operations'],
+    propertyOrdering: ['plan', 'operations'],
 };
 
 const suggestionSchema = {
@@ -150,7 +348,7 @@ const suggestionSchema = {
     required: ['suggestions']
 };
 
-const processFile = async (file: globalThis.File): Promise<{ imagePart?: any; textContent?: string }> => {
+const processFile = async (file: globalThis.File): Promise<{ image?: ImageInput; textContent?: string }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onerror = reject;
@@ -159,15 +357,16 @@ const processFile = async (file: globalThis.File): Promise<{ imagePart?: any; te
             reader.onloadend = () => {
                 const base64Data = (reader.result as string).split(',')[1];
                 resolve({
-                    imagePart: {
-                        inlineData: {
-                            mimeType: file.type,
-                            data: base64Data,
-                        },
+                    image: {
+                        mimeType: file.type,
+                        data: base64Data,
                     },
                 });
             };
             reader.readAsDataURL(file);
+        } else if (isBinaryPath(file.name)) {
+            // Fonts, PDFs and media cannot be read as text; the AI only learns that they were attached.
+            resolve({ textContent: `\n\n--- Attached File: ${file.name} (${file.type || 'binary'}, ${formatFileSize(file.size)}); its content cannot be shown ---` });
         } else {
             // Treat other file types as text and extract their content.
             reader.onloadend = () => {
@@ -180,25 +379,17 @@ const processFile = async (file: globalThis.File): Promise<{ imagePart?: any; te
     });
 };
 
-const describeImage = async (imagePart: any): Promise<string> => {
-    if (!ai) {
-        throw new Error("Gemini API Key not configured. Please add it in Settings.");
-    }
+const describeImage = async (image: ImageInput): Promise<string> => {
+    const provider = requireProvider();
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { text: "Describe this image in detail for a web developer. What are the main subjects, colors, and overall mood? The developer will use this description as inspiration for designing a web page. For example, if it's a picture of a forest, the developer might use it as a background image or draw colors from it for a theme." },
-                    imagePart
-                ]
-            }
+        return await provider.describeImage({
+            prompt: "Describe this image in detail for a web developer. What are the main subjects, colors, and overall mood? The developer will use this description as inspiration for designing a web page. For example, if it's a picture of a forest, the developer might use it as a background image or draw colors from it for a theme.",
+            images: [image],
         });
-        return response.text.trim();
     } catch (error: any) {
         console.error("Error describing image:", error);
         const errorString = error.toString();
-        if (errorString.includes("API key not valid") || errorString.includes("permission denied") || errorString.includes("API_KEY_INVALID")) {
+        if (errorString.includes("API key not valid") || errorString.includes("permission denied") || errorString.includes("API_KEY_INVALID") || errorString.includes("responded with 401")) {
             return "Could not get an AI description: Invalid API Key.";
         }
         return "Could not get an AI description for this image.";
@@ -207,47 +398,34 @@ const describeImage = async (imagePart: any): Promise<string> => {
 
 
 export const enhancePrompt = async (prompt: string): Promise<string> => {
-    if (!ai) {
-        throw new Error("Gemini API Key not configured. Please add it in Settings.");
-    }
+    const provider = requireProvider();
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: PROMPT_ENHANCEMENT_INSTRUCTION,
-            }
+        return await provider.enhance({
+            systemInstruction: PROMPT_ENHANCEMENT_INSTRUCTION,
+            prompt,
         });
-        return response.text.trim();
     } catch (error) {
-        throw handleGeminiError(error, "prompt enhancement");
+        throw handleAiError(error, "prompt enhancement");
     }
 };
 
-export const generateWebApp = async (prompt: string, baseFiles?: File[], attachments: globalThis.File[] = []): Promise<GenerationResult> => {
-    if (!ai) {
-        throw new Error("Gemini API Key not configured. Please add it in Settings.");
-    }
+export const generateWebAppStream = async (
+    prompt: string,
+    baseFiles?: File[],
+    attachments: globalThis.File[] = [],
+    options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+    const provider = requireProvider();
     try {
         const isEditing = !!baseFiles && baseFiles.length > 0;
-        let modelName: string;
+        const useOperations = isEditing && (options.editMode ?? 'operations') === 'operations';
 
-        // Model Selection Logic: Use a faster model for simple edits to improve response time.
-        if (isEditing) {
-            // A simple heuristic for complexity is the prompt length.
-            // Short, text-only prompts are likely simple changes.
-            const PROMPT_COMPLEXITY_THRESHOLD = 200; // characters
-            if (prompt.length < PROMPT_COMPLEXITY_THRESHOLD && attachments.length === 0) {
-                modelName = 'gemini-2.5-flash';
-            } else {
-                modelName = 'gemini-2.5-pro';
-            }
-        } else {
-            // For new project generation, always use the more powerful model for a better foundation.
-            modelName = 'gemini-2.5-pro';
-        }
+        // A simple heuristic for complexity is the prompt length.
+        // Short, text-only edits are likely simple changes, which providers may route to a faster model.
+        const PROMPT_COMPLEXITY_THRESHOLD = 200; // characters
+        const isSimple = isEditing && prompt.length < PROMPT_COMPLEXITY_THRESHOLD && attachments.length === 0;
 
-        const parts: any[] = [];
+        const images: ImageInput[] = [];
         let combinedPrompt = prompt;
         let attachmentContextInfo = ""; // This will hold all descriptions and text content.
 
@@ -262,11 +440,16 @@ export const generateWebApp = async (prompt: string, baseFiles?: File[], attachm
                 if (processed.textContent) {
                     attachmentContextInfo += processed.textContent;
                 }
-                if (processed.imagePart) {
-                    parts.push(processed.imagePart);
+                if (processed.image) {
+                    images.push(processed.image);
+                    const assetPath = options.assetPaths?.get(attachments[index]);
+                    if (assetPath) {
+                        descriptionPromises.push(Promise.resolve(`\n\n--- Attached Image (${attachments[index].name}) is the project file ${assetPath} ---`));
+                        continue;
+                    }
                     // Push a promise that resolves to the description string
                     descriptionPromises.push(
-                        describeImage(processed.imagePart).then(description => 
+                        describeImage(processed.image).then(description => 
                             `\n\n--- Attached Image Context (${attachments[index].name}) ---\n${description}\n--- End of Image Context ---`
                         )
                     );
@@ -287,65 +470,139 @@ export const generateWebApp = async (prompt: string, baseFiles?: File[], attachm
         // Prepend the context to the prompt
         combinedPrompt = `${prompt}${attachmentContextInfo}`;
 
+        const target = options.target ?? DEFAULT_PROJECT_TARGET;
+        const styling = options.styling ?? DEFAULT_PROJECT_STYLING;
+        const targetInstructions = TARGET_INSTRUCTIONS[target];
         if (isEditing) {
-            systemInstruction = EDITING_INSTRUCTION;
-            textPrompt = `Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files: baseFiles }, null, 2)}\n\n${combinedPrompt}`;
+            const editingRule = createEditingRule(targetInstructions, getStylingRule(styling, target, 'editing'));
+            systemInstruction = useOperations ? createEditingOperationsInstruction(editingRule) : createEditingInstruction(editingRule);
+            textPrompt = `Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files: describeFilesForAi(baseFiles) }, null, 2)}\n\n${combinedPrompt}`;
         } else {
-            systemInstruction = MULTI_FILE_GENERATION_INSTRUCTION;
+            systemInstruction = createGenerationInstruction(targetInstructions, getStylingRule(styling, target, 'generation'));
             textPrompt = combinedPrompt;
         }
 
-        const textPart = { text: textPrompt };
-        parts.unshift(textPart); // The prompt now contains the descriptions
-        
-        const contents = { parts };
-
-        const response = await ai.models.generateContent({
-            model: modelName, // Using the dynamically selected model
-            contents: contents,
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: 'application/json',
-                responseSchema: fileSchema,
+        const request = {
+            systemInstruction,
+            prompt: textPrompt, // The prompt now contains the descriptions
+            images,
+            responseSchema: useOperations ? operationSchema : fileSchema,
+            isSimple,
+        };
+        const stream = isEditing ? provider.edit(request) : provider.generate(request);
+
+        // Surface the plan and each file as soon as they are complete in the stream.
+        // Edit operations are applied to a working copy as they arrive, so a hunk that fails to match aborts early.
+        const parser = createGenerationStreamParser();
+        let jsonText = '';
+        let fileCount = 0;
+        let workingFiles = baseFiles ?? [];
+        for await (const text of stream) {
+            jsonText += text;
+            for (const event of parser.push(text)) {
+                if (event.type === 'plan') {
+                    options.onPlan?.(event.plan);
+                } else if (event.key === 'files' && !useOperations) {
+                    if (typeof event.item?.path === 'string' && typeof event.item?.content === 'string' && event.item.encoding !== 'base64') {
+                        options.onFile?.({ path: event.item.path, content: event.item.content }, fileCount++);
+                    }
+                } else if (event.key === 'operations' && useOperations) {
+                    const operation = parseEditOperation(event.item);
+                    if (!operation) {
+                        throw new EditOperationError(`Received a malformed edit operation for "${event.item?.path ?? 'an unknown file'}".`);
+                    }
+                    workingFiles = applyEditOperation(workingFiles, operation);
+                    const changedPath = operation.type === 'rename' ? operation.newPath : operation.path;
+                    const changedFile = workingFiles.find(f => f.path === changedPath);
+                    if (changedFile) {
+                        options.onFile?.(changedFile, fileCount++);
+                    }
+                }
             }
-        });
+        }
 
-        const jsonText = response.text.trim();
-        const result = JSON.parse(jsonText);
+        const result = JSON.parse(jsonText.trim());
+        if (useOperations) {
+            if (result.plan && Array.isArray(result.operations)) {
+                return { plan: result.plan, files: workingFiles };
+            }
+            throw new Error("Invalid JSON structure received from AI.");
+        }
         if (result.plan && result.files && Array.isArray(result.files)) {
              // Ensure the assets folder file is present if the AI forgets
-            if (!isEditing && !result.files.some((f: File) => f.path.startsWith('assets/'))) {
+            if (!isEditing && target === 'vanilla' && !result.files.some((f: File) => f.path.startsWith('assets/'))) {
                 result.files.push({ path: 'assets/.gitkeep', content: '' });
             }
-            return result;
+            return isEditing ? { ...result, files: restoreBinaryFiles(result.files, baseFiles) } : result;
         }
         throw new Error("Invalid JSON structure received from AI.");
 
     } catch (error) {
-        throw handleGeminiError(error, "web app generation");
+        throw handleAiError(error, "web app generation");
     }
 };
 
+// Like `generateWebAppStream`, for callers that only need the result.
+export const generateWebApp = (prompt: string, baseFiles?: File[], attachments: globalThis.File[] = [], options: Omit<GenerationOptions, 'onPlan' | 'onFile'> = {}): Promise<GenerationResult> => {
+    return generateWebAppStream(prompt, baseFiles, attachments, options);
+};
+
+// Runtime errors beyond this are left out of the fix prompt; later errors are usually caused by the first ones.
+const MAX_ERRORS_IN_FIX_PROMPT = 10;
+const MAX_STACK_LENGTH = 1500;
+
+const ERROR_SOURCE_LABELS: { [source in PreviewConsoleEntry['source']]: string } = {
+    console: 'logged error',
+    error: 'uncaught error',
+    rejection: 'unhandled promise rejection',
+    network: 'failed request',
+};
+
+const buildErrorFixPrompt = (errors: PreviewConsoleEntry[], files: File[]): string => {
+    const uniqueErrors = errors.filter((error, index) => errors.findIndex(e => e.message === error.message) === index).slice(0, MAX_ERRORS_IN_FIX_PROMPT);
+
+    const descriptions = uniqueErrors.map((error, index) => {
+        const location = error.location ? ` at ${error.location.path}${error.location.line ? `:${error.location.line}` : ''}${error.location.column ? `:${error.location.column}` : ''}` : '';
+        const stack = error.stack && !error.message.includes(error.stack) ? `\nStack trace:\n${error.stack.slice(0, MAX_STACK_LENGTH)}` : '';
+        return `Error ${index + 1} (${ERROR_SOURCE_LABELS[error.source]})${location}:\n${error.message}${stack}`;
+    });
+
+    // Point the model at the files the errors actually come from.
+    const errorText = uniqueErrors.map(e => `${e.location?.path ?? ''}\n${e.message}\n${e.stack ?? ''}`).join('\n');
+    const referencedFiles = files.map(f => f.path).filter(path => errorText.includes(path));
+
+    return `The app produces the following errors when it runs in the browser preview:
+
+${descriptions.join('\n\n')}
+
+${referencedFiles.length > 0 ? `The errors point at these project files: ${referencedFiles.join(', ')}. ` : ''}Locations are project file paths with line and column numbers. An error is often reported where a value is used rather than where it goes wrong, so trace each error back to its root cause before changing anything.
+
+Fix the root cause of every error listed. Only change what is needed to make the errors go away, and keep the app's behaviour and design otherwise unchanged. A failed request for a file that is missing from the project should be fixed by correcting the path or by creating the file.`;
+};
+
+/**
+ * Sends runtime errors captured from the preview through the editing path, so the fix
+ * arrives like any other edit and can be applied as a new version.
+ */
+export const fixRuntimeErrors = (errors: PreviewConsoleEntry[], files: File[], options: GenerationOptions = {}): Promise<GenerationResult> => {
+    return generateWebAppStream(buildErrorFixPrompt(errors, files), files, [], options);
+};
+
 export const generateSuggestions = async (files: File[]): Promise<Suggestion[]> => {
-    if (!ai) {
+    const provider = getActiveProvider();
+    if (!provider) {
         // Silently fail for suggestions, as it's a non-critical feature.
-        console.log("Skipping suggestions: Gemini API Key not configured.");
+        console.log("Skipping suggestions: no AI provider configured.");
         return [];
     }
     try {
-        const textPrompt = `Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files }, null, 2)}\n\nPlease provide 5 improvement suggestions based on this code.`;
+        const textPrompt = `Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files: describeFilesForAi(files) }, null, 2)}\n\nPlease provide 5 improvement suggestions based on this code.`;
         
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: textPrompt,
-            config: {
-                systemInstruction: SUGGESTION_GENERATION_INSTRUCTION,
-                responseMimeType: 'application/json',
-                responseSchema: suggestionSchema,
-            }
+        const jsonText = await provider.suggest({
+            systemInstruction: SUGGESTION_GENERATION_INSTRUCTION,
+            prompt: textPrompt,
+            responseSchema: suggestionSchema,
         });
-
-        const jsonText = response.text.trim();
         const result = JSON.parse(jsonText);
 
         if (result.suggestions && Array.isArray(result.suggestions)) {
@@ -360,23 +617,105 @@ export const generateSuggestions = async (files: File[]): Promise<Suggestion[]>
     }
 };
 
-export const discussCode = async (prompt: string, files: File[]): Promise<string> => {
-    if (!ai) {
-        throw new Error("Gemini API Key not configured. Please add it in Settings.");
+// Earlier turns are replayed up to roughly this many tokens; the project files are sent separately with each question.
+const DISCUSSION_HISTORY_TOKEN_BUDGET = 8000;
+const CHARS_PER_TOKEN = 4;
+const MAX_OMITTED_QUESTION_LENGTH = 200;
+
+/**
+ * Keeps the most recent question-and-answer pairs that fit the token budget. Older turns are
+ * summarised as the list of questions asked, so the model still knows what was covered.
+ */
+const trimDiscussionHistory = (history: ChatTurn[]): { turns: ChatTurn[]; omittedQuestions: string[] } => {
+    let start = history.length;
+    let budget = DISCUSSION_HISTORY_TOKEN_BUDGET * CHARS_PER_TOKEN;
+    while (start > 0 && history[start - 1].content.length <= budget) {
+        budget -= history[start - 1].content.length;
+        start--;
     }
-    try {
-        const textPrompt = `Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files }, null, 2)}\n\nHere is my question: ${prompt}`;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: textPrompt,
-            config: {
-                systemInstruction: DISCUSS_INSTRUCTION,
-            }
-        });
+    // Start on a question, since the conversation must open with a user turn.
+    while (start < history.length && history[start].role !== 'user') start++;
+
+    const omittedQuestions = history.slice(0, start)
+        .filter(turn => turn.role === 'user')
+        .map(turn => turn.content.length > MAX_OMITTED_QUESTION_LENGTH ? `${turn.content.slice(0, MAX_OMITTED_QUESTION_LENGTH)}...` : turn.content);
+    return { turns: history.slice(start), omittedQuestions };
+};
 
-        return response.text.trim();
+/**
+ * Answers a question about the project as the next turn of the discussion in `history`.
+ * `onText` receives the answer so far while it streams in.
+ */
+export const discussCode = async (prompt: string, files: File[], history: ChatTurn[] = [], onText?: (answer: string) => void): Promise<string> => {
+    const provider = requireProvider();
+    const { turns, omittedQuestions } = trimDiscussionHistory(history);
+    try {
+        const earlierQuestions = omittedQuestions.length > 0
+            ? `Earlier in this conversation, in messages no longer shown, I asked:\n${omittedQuestions.map(q => `- ${q}`).join('\n')}\n\n`
+            : '';
+        const textPrompt = `${earlierQuestions}Here is the current project structure as a JSON object:\n\n${JSON.stringify({ files: describeFilesForAi(files) }, null, 2)}\n\nHere is my question: ${prompt}`;
+
+        let answer = '';
+        for await (const chunk of provider.discuss({
+            systemInstruction: DISCUSS_INSTRUCTION,
+            history: turns,
+            prompt: textPrompt,
+        })) {
+            answer += chunk;
+            onText?.(answer);
+        }
+        return answer.trim();
     } catch (error) {
-        throw handleGeminiError(error, "discussion");
+        throw handleAiError(error, "discussion");
     }
-};
\ No newline at end of file
+};
+
+// The instruction for `generateWebApp` when the user asks to apply what a discussion concluded.
+export const createEditPromptFromDiscussion = (question: string, answer: string): string => `Make the changes we concluded on in the following discussion about this project.
+
+My question:
+${question}
+
+Your answer:
+${answer}
+
+Apply the suggestions from the answer to the code. Where the answer offers several options, use the first one unless the question says otherwise.`;
+
+// The instruction for `generateWebApp` when the request comes with a sketch drawn over the preview.
+export const createAnnotatedEditPrompt = (prompt: string, imageName: string): string => `The attached image "${imageName}" is a screenshot of the app as it currently looks, with my annotations drawn on top of it: freehand marks such as arrows and circles, and short text notes.
+
+Use the annotations to find the parts of the page my request is about. They are not part of the design, so do not reproduce them.
+
+My request: ${prompt}`;
+
+const describeSelectedElement = (element: SelectedElement, index: number): string => {
+    const { x, y, width, height } = element.bounds;
+    const styles = Object.entries(element.styles).map(([property, value]) => `${property}: ${value}`).join('; ');
+    const rules = element.rules.length > 0
+        ? element.rules.map(rule => `- ${rule.source}${rule.condition ? ` (inside ${rule.condition})` : ''}: \`${rule.selector} { ${rule.declarations} }\``).join('\n')
+        : '- None found in the project\'s stylesheets.';
+    const source = element.source
+        ? element.isSourceOfAncestor
+            ? `Created by a script inside the element written at \`${element.source.path}\` lines ${element.source.startLine}-${element.source.endLine}; change the script or markup that produces it.`
+            : `Written at \`${element.source.path}\` lines ${element.source.startLine}-${element.source.endLine}.`
+        : 'Not found in the project\'s HTML; it is probably created by a script.';
+    return `Element ${index + 1}: <${element.tagName}>, ${width}×${height}px at ${x},${y} on the page, currently matched by \`${element.selector}\`
+Source: ${source}
+HTML:
+\`\`\`html
+${element.html}
+\`\`\`
+Computed styles: ${styles}
+CSS rules that apply to it:
+${rules}`;
+};
+
+// The instruction for `generateWebApp` when the user has selected elements in the preview to change.
+export const createElementEditPrompt = (prompt: string, elements: SelectedElement[]): string => {
+    const subject = elements.length === 1 ? 'a specific element' : `${elements.length} elements`;
+    return `The user has selected ${subject} on the page to modify. Use the source lines to find each element in the code; the selectors only describe the page as it renders now. The computed styles and sizes are how the page currently renders; the CSS rules show where those styles come from, so change them at their source.
+
+${elements.map(describeSelectedElement).join('\n\n')}
+
+With this context, apply the following change${elements.length > 1 ? ' to the selected elements (it may concern how they relate to each other, e.g. making them consistent)' : ''}: "${prompt}"`;
+};
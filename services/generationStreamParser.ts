@@ -0,0 +1,93 @@
+export type GenerationStreamEvent =
+    | { type: 'plan'; plan: string }
+    // An object inside one of the top-level arrays, e.g. a file in `files` or an edit in `operations`.
+    | { type: 'item'; key: string; item: any };
+
+/**
+ * Incrementally scans the `{ plan, files }` / `{ plan, operations }` JSON produced by the generation models.
+ * Chunks are pushed as they arrive from the stream, and an event is emitted as soon as
+ * the plan string or an individual array item has been fully received.
+ */
+export const createGenerationStreamParser = () => {
+    let buffer = '';
+    let position = 0;
+    // Tracks open objects/arrays. The top-level object sits at depth 1.
+    const stack: Array<'{' | '['> = [];
+    let inString = false;
+    let isEscaped = false;
+    let stringStart = -1;
+    let expectingKey = false;
+    let currentKey: string | null = null;
+    let itemStart = -1;
+
+    const isInTopLevelArray = () => stack.length === 2 && stack[1] === '[' && currentKey !== null;
+
+    const push = (chunk: string): GenerationStreamEvent[] => {
+        buffer += chunk;
+        const events: GenerationStreamEvent[] = [];
+
+        for (; position < buffer.length; position++) {
+            const char = buffer[position];
+
+            if (inString) {
+                if (isEscaped) {
+                    isEscaped = false;
+                } else if (char === '\\') {
+                    isEscaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                    // Only strings that belong directly to the top-level object are interesting here.
+                    if (stack.length === 1) {
+                        const value = JSON.parse(buffer.slice(stringStart, position + 1));
+                        if (expectingKey) {
+                            currentKey = value;
+                            expectingKey = false;
+                        } else if (currentKey === 'plan') {
+                            events.push({ type: 'plan', plan: value });
+                        }
+                    }
+                }
+                continue;
+            }
+
+            switch (char) {
+                case '"':
+                    inString = true;
+                    stringStart = position;
+                    break;
+                case '{':
+                    if (isInTopLevelArray()) {
+                        itemStart = position;
+                    }
+                    stack.push('{');
+                    if (stack.length === 1) {
+                        expectingKey = true;
+                    }
+                    break;
+                case '[':
+                    stack.push('[');
+                    break;
+                case '}':
+                    if (stack.length === 3 && itemStart >= 0) {
+                        const item = JSON.parse(buffer.slice(itemStart, position + 1));
+                        itemStart = -1;
+                        events.push({ type: 'item', key: currentKey!, item });
+                    }
+                    stack.pop();
+                    break;
+                case ']':
+                    stack.pop();
+                    break;
+                case ',':
+                    if (stack.length === 1) {
+                        expectingKey = true;
+                    }
+                    break;
+            }
+        }
+
+        return events;
+    };
+
+    return { push };
+};
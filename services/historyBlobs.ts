@@ -0,0 +1,111 @@
+import type { HistoryEntry, Project } from '../App';
+import type { File } from './geminiService';
+
+type CodeHistory = Project['codeHistory'];
+
+// A file in a stored version: its content lives in a blob named by the content's SHA-256 hash.
+export interface FileRef {
+    path: string;
+    hash: string;
+    encoding?: File['encoding'];
+}
+
+export interface PackedHistoryEntry extends Omit<HistoryEntry, 'files'> {
+    files: FileRef[];
+}
+
+/**
+ * Code history as it is persisted: versions reference file contents by hash, so a file that is
+ * unchanged between versions (or shared with a clone) is stored once. Histories saved before this
+ * format have no `format` field and keep the full file contents inline.
+ */
+export interface PackedCodeHistory extends Omit<CodeHistory, 'history'> {
+    format: 'blobs';
+    history: PackedHistoryEntry[];
+}
+
+export type StoredCodeHistory = PackedCodeHistory | CodeHistory;
+
+// File objects are usually shared between consecutive versions, so most are only hashed once.
+const hashCache = new WeakMap<File, string>();
+
+export const hashContent = async (content: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isPackedCodeHistory = (codeHistory: StoredCodeHistory): codeHistory is PackedCodeHistory =>
+    (codeHistory as PackedCodeHistory).format === 'blobs';
+
+// Every blob a stored history refers to. Histories in the old inline format refer to none.
+export const getBlobHashes = (codeHistory: StoredCodeHistory): Set<string> => {
+    const hashes = new Set<string>();
+    if (isPackedCodeHistory(codeHistory)) {
+        codeHistory.history.forEach(entry => entry.files.forEach(file => hashes.add(file.hash)));
+    }
+    return hashes;
+};
+
+// Hashes files and collects their contents in `blobs`. Files with the same content are only hashed once.
+const createFileHasher = (blobs: Map<string, string>) => {
+    const hashesByContent = new Map<string, Promise<string>>();
+    return async (file: File): Promise<string> => {
+        let hash = hashCache.get(file);
+        if (!hash) {
+            if (!hashesByContent.has(file.content)) hashesByContent.set(file.content, hashContent(file.content));
+            hash = await hashesByContent.get(file.content)!;
+            hashCache.set(file, hash);
+        }
+        blobs.set(hash, file.content);
+        return hash;
+    };
+};
+
+const packEntry = async ({ files, ...entry }: HistoryEntry, hashFile: (file: File) => Promise<string>): Promise<PackedHistoryEntry> => ({
+    ...entry,
+    files: await Promise.all(files.map(async (file): Promise<FileRef> => file.encoding
+        ? { path: file.path, hash: await hashFile(file), encoding: file.encoding }
+        : { path: file.path, hash: await hashFile(file) })),
+});
+
+export const packHistoryEntry = async (entry: HistoryEntry): Promise<{ packed: PackedHistoryEntry; blobs: Map<string, string> }> => {
+    const blobs = new Map<string, string>();
+    return { packed: await packEntry(entry, createFileHasher(blobs)), blobs };
+};
+
+// Splits a history into its packed form and the contents of every blob it references.
+export const packCodeHistory = async (codeHistory: StoredCodeHistory): Promise<{ packed: PackedCodeHistory; blobs: Map<string, string> }> => {
+    if (isPackedCodeHistory(codeHistory)) return { packed: codeHistory, blobs: new Map() };
+
+    const blobs = new Map<string, string>();
+    const hashFile = createFileHasher(blobs);
+    const history = await Promise.all(codeHistory.history.map(entry => packEntry(entry, hashFile)));
+    return { packed: { ...codeHistory, format: 'blobs', history }, blobs };
+};
+
+/**
+ * Rebuilds full file contents from the blobs. Versions that refer to the same blob share one
+ * File object, which keeps memory use close to the stored size.
+ */
+export const unpackCodeHistory = (codeHistory: StoredCodeHistory, blobs: Map<string, string>): CodeHistory => {
+    if (!isPackedCodeHistory(codeHistory)) return codeHistory;
+
+    const filesByRef = new Map<string, File>();
+    const history = codeHistory.history.map(({ files, ...entry }) => ({
+        ...entry,
+        files: files.map(({ path, hash, encoding }) => {
+            const key = `${hash}:${path}:${encoding ?? ''}`;
+            let file = filesByRef.get(key);
+            if (!file) {
+                const content = blobs.get(hash);
+                if (content === undefined) throw new Error(`The content of ${path} (${hash.slice(0, 8)}) is missing.`);
+                file = encoding ? { path, content, encoding } : { path, content };
+                filesByRef.set(key, file);
+                hashCache.set(file, hash);
+            }
+            return file;
+        }),
+    }));
+    const { format, ...head } = codeHistory;
+    return { ...head, history };
+};
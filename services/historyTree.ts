@@ -0,0 +1,113 @@
+import type { HistoryEntry, Project } from '../App';
+
+type CodeHistory = Project['codeHistory'];
+
+/**
+ * Version history is an append-only list of entries forming a tree through `parentIndex`.
+ * Editing after an undo starts a new branch instead of discarding the redo path, and
+ * `currentIndex` can point at any version on any branch.
+ *
+ * Entries never change once added; which version is current and which branch redo follows
+ * (the "head") is kept beside them, so it can be saved on its own.
+ */
+
+// The functions below only need the tree structure, so they also work on stored histories (see services/historyBlobs.ts).
+type TreeEntry = Pick<HistoryEntry, 'parentIndex'>;
+
+interface VersionTree<E extends TreeEntry = TreeEntry> {
+    history: E[];
+    currentIndex: number;
+    activeChildren?: CodeHistory['activeChildren'];
+}
+
+export type HistoryHead = Pick<CodeHistory, 'currentIndex' | 'activeChildren'>;
+
+// Histories saved before branching existed have no parent pointers and are a straight line.
+export const getParentIndex = (history: TreeEntry[], index: number): number | null => {
+    const entry = history[index];
+    if (!entry) return null;
+    if (entry.parentIndex !== undefined) return entry.parentIndex;
+    return index > 0 ? index - 1 : null;
+};
+
+// Oldest first.
+export const getChildIndices = (history: TreeEntry[], index: number): number[] => {
+    return history.map((_, i) => i).filter(i => getParentIndex(history, i) === index);
+};
+
+// The versions from the first one down to `index`.
+export const getAncestry = (history: TreeEntry[], index: number): number[] => {
+    const path: number[] = [];
+    for (let i: number | null = index; i !== null; i = getParentIndex(history, i)) {
+        path.unshift(i);
+    }
+    return path;
+};
+
+// The child that redo moves to: the one last visited, or else the newest.
+const getRedoIndex = (tree: VersionTree, index: number): number | null => {
+    const children = getChildIndices(tree.history, index);
+    if (children.length === 0) return null;
+    const preferred = tree.activeChildren?.[index];
+    return preferred !== undefined && children.includes(preferred) ? preferred : children[children.length - 1];
+};
+
+// Every version reached from the current one by repeatedly redoing, i.e. the rest of the active branch.
+export const getActiveBranch = (codeHistory: CodeHistory): number[] => {
+    const branch = getAncestry(codeHistory.history, codeHistory.currentIndex);
+    for (let next = getRedoIndex(codeHistory, codeHistory.currentIndex); next !== null; next = getRedoIndex(codeHistory, next)) {
+        branch.push(next);
+    }
+    return branch;
+};
+
+export const getHead = (tree: VersionTree): HistoryHead => ({
+    currentIndex: tree.currentIndex,
+    activeChildren: tree.activeChildren,
+});
+
+export const createCodeHistory = (entry: HistoryEntry): CodeHistory => ({
+    history: [{ ...entry, parentIndex: null }],
+    currentIndex: 0,
+});
+
+// Records each version on the way to `index` as its parent's active child, so redo follows this branch.
+const markActivePath = (tree: VersionTree, index: number): CodeHistory['activeChildren'] => {
+    const path = getAncestry(tree.history, index);
+    const activeChildren = { ...tree.activeChildren };
+    for (let i = 0; i < path.length - 1; i++) {
+        activeChildren[path[i]] = path[i + 1];
+    }
+    return activeChildren;
+};
+
+/**
+ * Adds a version and makes it current. Existing branches are kept. The new version is a child of
+ * the current one, unless the entry already names its parent (e.g. when replaying a saved change).
+ */
+export const addVersion = <T extends VersionTree<any>>(tree: T, entry: T['history'][number]): T => {
+    const parentIndex = entry.parentIndex !== undefined ? entry.parentIndex : (tree.history.length > 0 ? tree.currentIndex : null);
+    const updated = { ...tree, history: [...tree.history, { ...entry, parentIndex }], currentIndex: tree.history.length };
+    return { ...updated, activeChildren: markActivePath(updated, updated.currentIndex) };
+};
+
+// Makes any version current, e.g. to switch to an alternative branch.
+export const checkoutVersion = <T extends VersionTree<any>>(tree: T, index: number): T => {
+    if (!tree.history[index]) return tree;
+    return { ...tree, currentIndex: index, activeChildren: markActivePath(tree, index) };
+};
+
+export const canUndo = (codeHistory: CodeHistory): boolean => getParentIndex(codeHistory.history, codeHistory.currentIndex) !== null;
+
+export const canRedo = (codeHistory: CodeHistory): boolean => getRedoIndex(codeHistory, codeHistory.currentIndex) !== null;
+
+export const undo = (codeHistory: CodeHistory): CodeHistory => {
+    const parentIndex = getParentIndex(codeHistory.history, codeHistory.currentIndex);
+    // The path is already marked, so redo comes back here.
+    return parentIndex === null ? codeHistory : { ...codeHistory, currentIndex: parentIndex };
+};
+
+export const redo = (codeHistory: CodeHistory): CodeHistory => {
+    const childIndex = getRedoIndex(codeHistory, codeHistory.currentIndex);
+    return childIndex === null ? codeHistory : checkoutVersion(codeHistory, childIndex);
+};
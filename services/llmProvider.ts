@@ -0,0 +1,177 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createOllamaProvider } from './providers/ollamaProvider';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface ImageInput {
+    mimeType: string;
+    // Base64-encoded image bytes, without the data URL prefix.
+    data: string;
+}
+
+// An earlier message in a conversation.
+export interface ChatTurn {
+    role: 'user' | 'model';
+    content: string;
+}
+
+export interface ModelRequest {
+    systemInstruction?: string;
+    // Earlier turns of a conversation, oldest first, sent before `prompt`.
+    history?: ChatTurn[];
+    prompt: string;
+    images?: ImageInput[];
+    // A Gemini-style schema (see `Type`) when the response must be JSON.
+    responseSchema?: object;
+    // Hint that the request is a small change, so a faster model can be used where the provider has one.
+    isSimple?: boolean;
+}
+
+/**
+ * A model backend. The prompts, schemas and response handling live in geminiService;
+ * a provider only knows how to send a request for each kind of task to its model.
+ */
+export interface LlmProvider {
+    // Streams the raw JSON text for a new project.
+    generate: (request: ModelRequest) => AsyncIterable<string>;
+    // Streams the raw JSON text for a change to an existing project.
+    edit: (request: ModelRequest) => AsyncIterable<string>;
+    suggest: (request: ModelRequest) => Promise<string>;
+    // Streams a markdown answer in a conversation.
+    discuss: (request: ModelRequest) => AsyncIterable<string>;
+    enhance: (request: ModelRequest) => Promise<string>;
+    describeImage: (request: ModelRequest) => Promise<string>;
+}
+
+export interface ProviderSettings {
+    provider: ProviderId;
+    // An empty model means the provider's automatic per-task choice.
+    gemini: { apiKey: string; model: string };
+    openai: { baseUrl: string; apiKey: string; model: string };
+    ollama: { baseUrl: string; model: string };
+}
+
+export const PROVIDER_LABELS: { [id in ProviderId]: string } = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible',
+    ollama: 'Ollama',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    gemini: { apiKey: '', model: '' },
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKey: '', model: '' },
+    ollama: { baseUrl: 'http://localhost:11434', model: '' },
+};
+
+/**
+ * Reads provider settings from Supabase user metadata. The Gemini key keeps living in
+ * `gemini_api_key` so existing accounts continue to work; everything else is in `llm_settings`.
+ */
+export const readProviderSettings = (metadata: any): ProviderSettings => {
+    const stored = metadata?.llm_settings || {};
+    return {
+        provider: stored.provider || DEFAULT_PROVIDER_SETTINGS.provider,
+        gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, ...stored.gemini, apiKey: metadata?.gemini_api_key || '' },
+        openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...stored.openai },
+        ollama: { ...DEFAULT_PROVIDER_SETTINGS.ollama, ...stored.ollama },
+    };
+};
+
+// The inverse of `readProviderSettings`.
+export const toUserMetadata = (settings: ProviderSettings) => ({
+    gemini_api_key: settings.gemini.apiKey,
+    llm_settings: {
+        provider: settings.provider,
+        gemini: { model: settings.gemini.model },
+        openai: settings.openai,
+        ollama: settings.ollama,
+    },
+});
+
+export const isProviderConfigured = (settings: ProviderSettings): boolean => {
+    switch (settings.provider) {
+        case 'gemini': return !!settings.gemini.apiKey.trim();
+        case 'openai': return !!settings.openai.baseUrl.trim() && !!settings.openai.model.trim();
+        case 'ollama': return !!settings.ollama.baseUrl.trim() && !!settings.ollama.model.trim();
+    }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+export const configureProvider = (settings: ProviderSettings | null) => {
+    if (!settings || !isProviderConfigured(settings)) {
+        // Clear the provider if it is not fully configured
+        activeProvider = null;
+        return;
+    }
+    try {
+        switch (settings.provider) {
+            case 'gemini':
+                activeProvider = createGeminiProvider(settings.gemini.apiKey.trim(), settings.gemini.model.trim());
+                break;
+            case 'openai':
+                activeProvider = createOpenAiCompatibleProvider(settings.openai.baseUrl.trim(), settings.openai.apiKey.trim(), settings.openai.model.trim());
+                break;
+            case 'ollama':
+                activeProvider = createOllamaProvider(settings.ollama.baseUrl.trim(), settings.ollama.model.trim());
+                break;
+        }
+    } catch (e) {
+        console.error(`Failed to initialize the ${PROVIDER_LABELS[settings.provider]} provider:`, e);
+        activeProvider = null;
+    }
+};
+
+export const getActiveProvider = (): LlmProvider | null => activeProvider;
+
+/**
+ * Converts a Gemini-style schema (upper-case `Type` values, `propertyOrdering`) to plain JSON Schema
+ * for providers that accept standard schemas.
+ */
+export const toJsonSchema = (schema: any): any => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'propertyOrdering') continue;
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = Object.fromEntries(Object.entries(value).map(([name, property]) => [name, toJsonSchema(property)]));
+        } else {
+            result[key] = toJsonSchema(value);
+        }
+    }
+    return result;
+};
+
+// Yields complete lines from a streaming HTTP response body (SSE and NDJSON both use one record per line).
+export async function* readResponseLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) yield line.trim();
+        }
+    }
+    pending += decoder.decode();
+    if (pending.trim()) yield pending.trim();
+}
+
+export const ensureOk = async (response: Response, serverLabel: string): Promise<Response> => {
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`${serverLabel} responded with ${response.status}: ${body || response.statusText}`);
+    }
+    return response;
+};
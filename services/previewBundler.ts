@@ -0,0 +1,286 @@
+import type { Plugin, Message } from 'esbuild-wasm';
+import type { File } from './geminiService';
+import { getProjectTarget, ProjectTarget } from './projectTargets';
+
+// Bundles are written next to the project's files under this folder, one per module entry script.
+export const BUNDLE_DIRECTORY = '__preview__';
+const PACKAGE_CDN = 'https://esm.sh';
+const PROJECT_NAMESPACE = 'project';
+
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.vue', '.svelte', '.json'];
+const RESOLVE_SUFFIXES = [...RESOLVE_EXTENSIONS, ...RESOLVE_EXTENSIONS.slice(1).map(extension => `/index${extension}`)];
+
+const MODULE_SCRIPT_REGEX = /<script\b(?=[^>]*\btype=["']module["'])[^>]*\bsrc=["']([^"']+)["'][^>]*>\s*<\/script>/gi;
+
+let esbuildPromise: Promise<typeof import('esbuild-wasm')> | null = null;
+
+// esbuild's WebAssembly binary is ~10 MB, so it is only fetched once a framework project is previewed.
+export const loadEsbuild = (): Promise<typeof import('esbuild-wasm')> => {
+    if (!esbuildPromise) {
+        esbuildPromise = (async () => {
+            const esbuild = await import('esbuild-wasm');
+            await esbuild.initialize({ wasmURL: `https://unpkg.com/esbuild-wasm@${esbuild.version}/esbuild.wasm` });
+            return esbuild;
+        })();
+        esbuildPromise.catch(() => {
+            esbuildPromise = null;
+        });
+    }
+    return esbuildPromise;
+};
+
+export const normalizePath = (path: string): string => {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+};
+
+export const dirname = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+// `react-dom/client` -> `react-dom`, `@scope/pkg/sub` -> `@scope/pkg`.
+const getPackageName = (specifier: string): string => {
+    const parts = specifier.split('/');
+    return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+// A short, stable id for a component, used to scope its styles.
+const hashPath = (path: string): string => {
+    let hash = 0;
+    for (let i = 0; i < path.length; i++) {
+        hash = (hash * 31 + path.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+};
+
+// Imported stylesheets become modules that add a <style> tagged with their path, like linked stylesheets do.
+const createStyleModule = (css: string, path: string): string => `
+{
+    const style = document.createElement('style');
+    style.setAttribute('data-source', ${JSON.stringify(path)});
+    style.textContent = ${JSON.stringify(css)};
+    document.head.appendChild(style);
+}
+`;
+
+const compileVueComponent = async (source: string, path: string): Promise<string> => {
+    const { parse, compileScript, compileTemplate, compileStyle, rewriteDefault } = await import('@vue/compiler-sfc');
+    const { descriptor, errors } = parse(source, { filename: path });
+    if (errors.length > 0) throw errors[0];
+
+    const id = hashPath(path);
+    const hasScopedStyles = descriptor.styles.some(style => style.scoped);
+    const scopeId = hasScopedStyles ? `data-v-${id}` : undefined;
+    const isTs = (descriptor.scriptSetup || descriptor.script)?.lang === 'ts';
+
+    let code = 'const __sfc__ = {};';
+    if (descriptor.script || descriptor.scriptSetup) {
+        const script = compileScript(descriptor, {
+            id,
+            inlineTemplate: true,
+            templateOptions: { compilerOptions: { scopeId } },
+        });
+        code = rewriteDefault(script.content, '__sfc__', isTs ? ['typescript'] : []);
+    }
+    // With <script setup> the template is compiled into the setup function above.
+    if (descriptor.template && !descriptor.scriptSetup) {
+        const template = compileTemplate({
+            source: descriptor.template.content,
+            filename: path,
+            id,
+            scoped: hasScopedStyles,
+            compilerOptions: { scopeId, isTS: isTs },
+        });
+        if (template.errors.length > 0) throw template.errors[0];
+        code += `\n${template.code.replace(/\bexport function render\b/, 'function render')}\n__sfc__.render = render;`;
+    }
+    if (scopeId) code += `\n__sfc__.__scopeId = ${JSON.stringify(scopeId)};`;
+
+    for (const style of descriptor.styles) {
+        const result = compileStyle({ source: style.content, filename: path, id: `data-v-${id}`, scoped: style.scoped });
+        if (result.errors.length > 0) throw result.errors[0];
+        code += createStyleModule(result.code, path);
+    }
+    return `${code}\nexport default __sfc__;`;
+};
+
+const compileSvelteComponent = async (source: string, path: string): Promise<string> => {
+    const { compile } = await import('svelte/compiler');
+    return compile(source, { filename: path, css: 'injected', generate: 'client' }).js.code;
+};
+
+const getLoader = (path: string): 'ts' | 'tsx' | 'js' | 'jsx' | 'json' | 'text' | null => {
+    const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+    if (extension === 'ts' || extension === 'tsx' || extension === 'jsx' || extension === 'json') return extension;
+    if (extension === 'js' || extension === 'mjs') return 'js';
+    if (extension === 'txt' || extension === 'md') return 'text';
+    return null;
+};
+
+/**
+ * Resolves imports against the project's files instead of a file system. npm packages are left as bare imports
+ * for the page's import map and recorded in `packages`.
+ */
+const createProjectFilesPlugin = (files: File[], packages: Set<string>): Plugin => ({
+    name: 'project-files',
+    setup(build) {
+        const findFile = (path: string) => files.find(file => file.path === path);
+
+        build.onResolve({ filter: /.*/ }, args => {
+            if (args.kind === 'entry-point') return { path: args.path, namespace: PROJECT_NAMESPACE };
+            if (/^(https?:)?\/\//.test(args.path) || args.path.startsWith('data:')) return { path: args.path, external: true };
+            if (!args.path.startsWith('.') && !args.path.startsWith('/')) {
+                packages.add(args.path);
+                return { path: args.path, external: true };
+            }
+            const base = normalizePath(args.path.startsWith('/') ? args.path : `${dirname(args.importer)}/${args.path}`);
+            const match = RESOLVE_SUFFIXES.map(suffix => normalizePath(base + suffix)).find(findFile);
+            if (!match) return { errors: [{ text: `Could not find "${args.path}" imported from ${args.importer}` }] };
+            return { path: match, namespace: PROJECT_NAMESPACE };
+        });
+
+        build.onLoad({ filter: /.*/, namespace: PROJECT_NAMESPACE }, async args => {
+            const file = findFile(args.path)!;
+            const resolveDir = dirname(args.path);
+            try {
+                // Sass and Less files have already been compiled to CSS by the preview's transforms.
+                if (/\.(css|scss|sass|less)$/.test(args.path)) return { contents: createStyleModule(file.content, file.path), loader: 'js', resolveDir };
+                if (args.path.endsWith('.vue')) return { contents: await compileVueComponent(file.content, file.path), loader: 'ts', resolveDir };
+                if (args.path.endsWith('.svelte')) return { contents: await compileSvelteComponent(file.content, file.path), loader: 'js', resolveDir };
+            } catch (e) {
+                return { errors: [{ text: e instanceof Error ? e.message : String(e), location: { file: args.path } }] };
+            }
+            const loader = getLoader(args.path);
+            if (loader) return { contents: file.content, loader, resolveDir };
+            // Anything else (images, fonts, ...) is imported as the URL the preview serves it from.
+            return { contents: `export default new URL(${JSON.stringify(`../${file.path}`)}, import.meta.url).href;`, loader: 'js' };
+        });
+    },
+});
+
+const formatMessage = (message: Message | { text: string }): string => {
+    const location = 'location' in message && message.location;
+    const file = location ? location.file.replace(`${PROJECT_NAMESPACE}:`, '') : '';
+    return location && location.line ? `${file}:${location.line}:${location.column}: ${message.text}` : file ? `${file}: ${message.text}` : message.text;
+};
+
+// Stands in for a bundle that failed to build: reports the errors in the preview console and over the page.
+const createErrorModule = (messages: string[]): string => `
+const messages = ${JSON.stringify(messages)};
+messages.forEach(message => console.error(message));
+const overlay = document.createElement('pre');
+overlay.style.cssText = 'position:fixed;inset:0;margin:0;padding:24px;overflow:auto;z-index:2147483647;background:#1e1e1e;color:#ff8a80;font:13px/1.5 monospace;white-space:pre-wrap';
+overlay.textContent = 'The app could not be built:\\n\\n' + messages.join('\\n\\n');
+document.body.appendChild(overlay);
+`;
+
+/**
+ * Maps every imported package to esm.sh at the version the project asks for. Packages are built with the other
+ * mapped packages as externals, so the page and its dependencies share one copy of e.g. React.
+ */
+const createImportMap = (specifiers: Set<string>, versions: { [name: string]: string }): string => {
+    const names = [...new Set([...specifiers].map(getPackageName))];
+    const imports: { [specifier: string]: string } = {};
+    for (const name of names) {
+        const pinned = versions[name] ? `${name}@${versions[name]}` : name;
+        const externals = names.filter(other => other !== name);
+        const query = externals.length > 0 ? `?external=${externals.join(',')}` : '';
+        for (const specifier of specifiers) {
+            if (getPackageName(specifier) !== name) continue;
+            imports[specifier] = `${PACKAGE_CDN}/${pinned}${specifier.slice(name.length)}${query}`;
+        }
+        imports[`${name}/`] = `${PACKAGE_CDN}/${pinned}/`;
+    }
+    return `<script type="importmap">${JSON.stringify({ imports })}</script>`;
+};
+
+// The versions in the project's package.json, falling back to the target's defaults.
+const getPackageVersions = async (files: File[], target: ProjectTarget): Promise<{ [name: string]: string }> => {
+    const versions: { [name: string]: string } = { ...getProjectTarget(target).packages };
+    const packageJson = files.find(file => file.path === 'package.json');
+    if (packageJson) {
+        try {
+            const { dependencies, devDependencies } = JSON.parse(packageJson.content);
+            Object.assign(versions, devDependencies, dependencies);
+        } catch {
+            // An invalid package.json is shown in the editor; the defaults still let the preview run.
+        }
+    }
+    // Compiled components only run on the runtime of the compiler that built them.
+    if (target === 'svelte') {
+        versions.svelte = (await import('svelte/compiler')).VERSION;
+    }
+    return versions;
+};
+
+/**
+ * Compiles a framework project for the preview. Each `<script type="module" src>` in an HTML file that points at a
+ * project file (e.g. Vite's `/src/main.tsx`) is bundled into `__preview__/` with JSX, TypeScript, Vue and Svelte
+ * components compiled, and the page gets an import map for the npm packages it imports.
+ * Build errors are reported by the page itself rather than thrown, so the preview always has something to show.
+ */
+export const bundleProject = async (files: File[], target: ProjectTarget): Promise<File[]> => {
+    const htmlFiles = files.filter(file => /\.html?$/i.test(file.path));
+    const entries = new Map<string, string>();
+    for (const html of htmlFiles) {
+        for (const [, src] of html.content.matchAll(MODULE_SCRIPT_REGEX)) {
+            const path = normalizePath(src.startsWith('/') ? src : `${dirname(html.path)}/${src}`);
+            if (files.some(file => file.path === path)) {
+                entries.set(path, `${BUNDLE_DIRECTORY}/${path.replace(/\.[^./]+$/, '').replace(/\//g, '_')}.js`);
+            }
+        }
+    }
+    if (entries.size === 0) return files;
+
+    const packages = new Set<string>();
+    const bundles: File[] = [];
+    let esbuild: typeof import('esbuild-wasm') | null = null;
+    try {
+        esbuild = await loadEsbuild();
+    } catch (e) {
+        const message = `The preview bundler could not be loaded: ${e instanceof Error ? e.message : String(e)}`;
+        entries.forEach(bundlePath => bundles.push({ path: bundlePath, content: createErrorModule([message]) }));
+    }
+
+    if (esbuild) {
+        const plugin = createProjectFilesPlugin(files, packages);
+        for (const [entry, bundlePath] of entries) {
+            try {
+                const result = await esbuild.build({
+                    entryPoints: [entry],
+                    bundle: true,
+                    write: false,
+                    format: 'esm',
+                    target: 'es2020',
+                    jsx: 'automatic',
+                    logLevel: 'silent',
+                    plugins: [plugin],
+                });
+                bundles.push({ path: bundlePath, content: result.outputFiles[0].text });
+            } catch (e) {
+                const errors: Message[] = (e as { errors?: Message[] }).errors ?? [];
+                const messages = errors.length > 0 ? errors.map(formatMessage) : [e instanceof Error ? e.message : String(e)];
+                bundles.push({ path: bundlePath, content: createErrorModule(messages) });
+            }
+        }
+    }
+
+    // Added on the `<head>` line itself so the page's line numbers still match its source.
+    const importMap = packages.size > 0 ? createImportMap(packages, await getPackageVersions(files, target)) : '';
+    const rewritten = files.map(file => {
+        if (!htmlFiles.includes(file)) return file;
+        const depth = dirname(file.path) ? dirname(file.path).split('/').length : 0;
+        let content = file.content.replace(MODULE_SCRIPT_REGEX, (tag, src: string) => {
+            const bundlePath = entries.get(normalizePath(src.startsWith('/') ? src : `${dirname(file.path)}/${src}`));
+            return bundlePath ? tag.replace(src, '../'.repeat(depth) + bundlePath) : tag;
+        });
+        const head = content.match(/<head(\s[^>]*)?>/i);
+        content = head
+            ? content.slice(0, head.index! + head[0].length) + importMap + content.slice(head.index! + head[0].length)
+            : importMap + content;
+        return { ...file, content };
+    });
+    return [...rewritten, ...bundles];
+};
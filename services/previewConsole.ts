@@ -0,0 +1,61 @@
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface PreviewConsoleEntry {
+    id: number;
+    level: PreviewConsoleLevel;
+    // A console call, an uncaught error, an unhandled promise rejection or a failed request.
+    source: 'console' | 'error' | 'rejection' | 'network';
+    message: string;
+    stack?: string;
+    // Where the entry originated, as a project path where it could be mapped back to one.
+    location?: { path: string; line?: number; column?: number };
+    timestamp: number;
+}
+
+const LEVELS: PreviewConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+const SOURCES: PreviewConsoleEntry['source'][] = ['console', 'error', 'rejection', 'network'];
+const LOCATION_PATTERN = /^(.*?):(\d+)(?::(\d+))?$/;
+
+let nextEntryId = 1;
+
+/**
+ * Rewrites preview URLs such as `http://host/preview/<session>/js/app.js` to project paths (`js/app.js`),
+ * so that messages and stack traces refer to the files the user sees in the editor.
+ */
+export const mapPreviewUrls = (text: string, previewBaseUrl: string): string => {
+    return previewBaseUrl ? text.split(previewBaseUrl).join('') : text;
+};
+
+const parseLocation = (raw: unknown, previewBaseUrl: string): PreviewConsoleEntry['location'] => {
+    if (typeof raw !== 'string' || !raw) return undefined;
+    const match = raw.match(LOCATION_PATTERN);
+    const url = match ? match[1] : raw;
+    let path = url;
+    if (previewBaseUrl && url.startsWith(previewBaseUrl)) {
+        path = url.slice(previewBaseUrl.length).split(/[?#]/)[0] || 'index.html';
+        try {
+            path = decodeURIComponent(path);
+        } catch {
+            // Keep the encoded path.
+        }
+    }
+    return {
+        path,
+        line: match ? Number(match[2]) : undefined,
+        column: match?.[3] ? Number(match[3]) : undefined,
+    };
+};
+
+// Validates a `previewConsole` message from the preview iframe and maps its URLs back to the project.
+export const createConsoleEntry = (payload: any, previewBaseUrl: string): PreviewConsoleEntry | null => {
+    if (!payload || typeof payload.message !== 'string') return null;
+    return {
+        id: nextEntryId++,
+        level: LEVELS.includes(payload.level) ? payload.level : 'log',
+        source: SOURCES.includes(payload.source) ? payload.source : 'console',
+        message: mapPreviewUrls(payload.message, previewBaseUrl),
+        stack: typeof payload.stack === 'string' ? mapPreviewUrls(payload.stack, previewBaseUrl) : undefined,
+        location: parseLocation(payload.location, previewBaseUrl),
+        timestamp: Date.now(),
+    };
+};
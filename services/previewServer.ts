@@ -0,0 +1,124 @@
+import type { File } from './geminiService';
+import { base64ToBytes, getBinaryMimeType, isBinaryFile } from './binaryFiles';
+
+const SERVICE_WORKER_URL = '/preview-sw.js';
+export const PREVIEW_PATH_PREFIX = '/preview/';
+const WORKER_REPLY_TIMEOUT_MS = 2000;
+
+// Markup added to every HTML page the preview serves: `head` right after `<head>`, `body` before `</body>`.
+export interface PreviewInjection {
+    head: string;
+    body: string;
+}
+
+// Binary files reach the worker as Blobs, so their bytes are decoded once rather than on every request.
+interface ServedFile {
+    path: string;
+    content: string | Blob;
+}
+
+interface PreviewSessionState {
+    files: ServedFile[];
+    injection: PreviewInjection;
+}
+
+// The latest state of every open preview, kept so the worker can ask for it again after a restart.
+const sessions = new Map<string, PreviewSessionState>();
+
+// File objects are shared between versions, so an image is only decoded again when it changes.
+const blobCache = new WeakMap<File, Blob>();
+
+const toServedFile = (file: File): ServedFile => {
+    if (!isBinaryFile(file)) return file;
+    let blob = blobCache.get(file);
+    if (!blob) {
+        blob = new Blob([base64ToBytes(file.content)], { type: getBinaryMimeType(file.path) });
+        blobCache.set(file, blob);
+    }
+    return { path: file.path, content: blob };
+};
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+const handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'preview-session-request' && event.ports[0]) {
+        event.ports[0].postMessage(sessions.get(event.data.sessionId) || null);
+    }
+};
+
+const waitForActivation = (worker: ServiceWorker): Promise<void> => new Promise(resolve => {
+    if (worker.state === 'activated') {
+        resolve();
+        return;
+    }
+    worker.addEventListener('statechange', () => {
+        if (worker.state === 'activated') resolve();
+    });
+});
+
+/**
+ * Registers the preview service worker (public/preview-sw.js) once and waits for it to become active.
+ * Resolves to null where service workers are unavailable, e.g. in some private browsing modes.
+ */
+const getRegistration = (): Promise<ServiceWorkerRegistration | null> => {
+    if (!registrationPromise) {
+        registrationPromise = (async () => {
+            if (!('serviceWorker' in navigator)) return null;
+            try {
+                navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+                navigator.serviceWorker.startMessages();
+                const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: PREVIEW_PATH_PREFIX });
+                const worker = registration.active || registration.waiting || registration.installing;
+                if (!worker) return null;
+                await waitForActivation(worker);
+                return registration;
+            } catch (e) {
+                console.warn('The preview service worker could not be registered, falling back to inlined previews:', e);
+                return null;
+            }
+        })();
+    }
+    return registrationPromise;
+};
+
+export const isPreviewServerAvailable = async (): Promise<boolean> => !!(await getRegistration());
+
+const postToWorker = async (message: object): Promise<void> => {
+    const worker = (await getRegistration())?.active;
+    if (!worker) return;
+    await new Promise<void>(resolve => {
+        const channel = new MessageChannel();
+        const timeout = setTimeout(resolve, WORKER_REPLY_TIMEOUT_MS);
+        channel.port1.onmessage = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+        worker.postMessage(message, [channel.port2]);
+    });
+};
+
+/**
+ * A set of project files served by the preview worker at `/preview/<id>/<path>`.
+ * Each LivePreview owns one session and updates it whenever the files change.
+ */
+export const createPreviewSession = () => {
+    const id = crypto.randomUUID();
+    const basePath = `${PREVIEW_PATH_PREFIX}${id}/`;
+
+    return {
+        basePath,
+        urlFor: (path: string) => `${basePath}${path.split('/').map(encodeURIComponent).join('/')}`,
+        // Resolves once the worker has the new files, so the preview can be (re)loaded.
+        update: async (files: File[], injection: PreviewInjection) => {
+            const servedFiles = files.map(toServedFile);
+            sessions.set(id, { files: servedFiles, injection });
+            await postToWorker({ type: 'preview-update', sessionId: id, files: servedFiles, injection });
+        },
+        dispose: () => {
+            sessions.delete(id);
+            postToWorker({ type: 'preview-dispose', sessionId: id });
+        },
+    };
+};
+
+export type PreviewSession = ReturnType<typeof createPreviewSession>;
@@ -0,0 +1,199 @@
+import type { Importer } from 'sass';
+import type { File } from './geminiService';
+import { dirname, loadEsbuild, normalizePath } from './previewBundler';
+import { compileTailwindStylesheet, usesTailwind } from './projectStyling';
+import { needsBundling, ProjectTarget } from './projectTargets';
+
+// A file the preview could not compile, shown above the preview with a link to the line.
+export interface PreviewCompileError {
+    path: string;
+    message: string;
+    line?: number;
+    column?: number;
+}
+
+export class CompileError extends Error {
+    constructor(message: string, public line?: number, public column?: number, public path?: string) {
+        super(message);
+        this.name = 'CompileError';
+    }
+}
+
+/**
+ * Compiles one kind of source file for the preview. The compiled content is served at the file's own path, so pages
+ * keep referring to `app.ts` or `style.scss`; the preview server sends it with the MIME type of the compiled language.
+ */
+export interface PreviewTransform {
+    test: RegExp;
+    // Bundled targets compile their scripts themselves, so 'script' transforms only run for plain projects.
+    output: 'script' | 'style' | 'document';
+    transform: (file: File, files: File[]) => Promise<string>;
+}
+
+const SASS_SCHEME = 'project';
+
+const transformTypeScript = async (file: File): Promise<string> => {
+    const esbuild = await loadEsbuild();
+    try {
+        const result = await esbuild.transform(file.content, {
+            loader: file.path.endsWith('x') ? 'tsx' : 'ts',
+            sourcefile: file.path,
+            target: 'es2020',
+        });
+        return result.code;
+    } catch (e) {
+        const error = (e as { errors?: Array<{ text: string; location: { line: number; column: number } | null }> }).errors?.[0];
+        if (!error) throw e;
+        throw new CompileError(error.text, error.location?.line, error.location ? error.location.column + 1 : undefined);
+    }
+};
+
+// The files `@use 'name'` may refer to, following Sass's rules for partials and index files.
+const getSassCandidates = (path: string): string[] => {
+    if (/\.(scss|sass|css)$/.test(path)) return [path];
+    const directory = dirname(path);
+    const name = path.slice(directory.length).replace(/^\//, '');
+    const prefix = directory ? `${directory}/` : '';
+    return ['scss', 'sass', 'css'].flatMap(extension => [
+        `${prefix}${name}.${extension}`,
+        `${prefix}_${name}.${extension}`,
+        `${path}/index.${extension}`,
+        `${path}/_index.${extension}`,
+    ]);
+};
+
+const createSassImporter = (files: File[]): Importer<'async'> => ({
+    canonicalize: (url, context) => {
+        const base = context.containingUrl?.protocol === `${SASS_SCHEME}:` ? context.containingUrl.pathname : '/';
+        const resolved = url.startsWith(`${SASS_SCHEME}:`) ? new URL(url).pathname : new URL(url, `${SASS_SCHEME}:${base}`).pathname;
+        const match = getSassCandidates(normalizePath(resolved)).find(candidate => files.some(file => file.path === candidate));
+        return match ? new URL(`${SASS_SCHEME}:/${match}`) : null;
+    },
+    load: canonicalUrl => {
+        const path = canonicalUrl.pathname.replace(/^\//, '');
+        const file = files.find(f => f.path === path);
+        if (!file) return null;
+        return { contents: file.content, syntax: path.endsWith('.sass') ? 'indented' : path.endsWith('.css') ? 'css' : 'scss' };
+    },
+});
+
+const transformSass = async (file: File, files: File[]): Promise<string> => {
+    const sass = await import('sass');
+    try {
+        const result = await sass.compileStringAsync(file.content, {
+            syntax: file.path.endsWith('.sass') ? 'indented' : 'scss',
+            url: new URL(`${SASS_SCHEME}:/${file.path}`),
+            importer: createSassImporter(files),
+        });
+        return result.css;
+    } catch (e) {
+        if (!(e instanceof sass.Exception)) throw e;
+        const span = e.span;
+        // Errors in an imported partial are reported against the partial.
+        const path = span.url?.protocol === `${SASS_SCHEME}:` ? span.url.pathname.replace(/^\//, '') : undefined;
+        throw new CompileError(e.sassMessage, span.start.line + 1, span.start.column + 1, path);
+    }
+};
+
+const transformLess = async (file: File, files: File[]): Promise<string> => {
+    const less = (await import('less')).default;
+
+    // Resolves `@import` against the project's files instead of fetching them over the network.
+    class ProjectFileManager extends less.FileManager {
+        supports() {
+            return true;
+        }
+
+        loadFile(filename: string, currentDirectory: string) {
+            const path = normalizePath(`${currentDirectory}/${filename}`);
+            const match = files.find(f => f.path === path) ?? files.find(f => f.path === `${path}.less`);
+            return match
+                ? Promise.resolve({ filename: match.path, contents: match.content })
+                : Promise.reject({ type: 'File', message: `'${filename}' wasn't found` });
+        }
+    }
+
+    try {
+        const result = await less.render(file.content, {
+            filename: file.path,
+            plugins: [{ install: (_, pluginManager) => pluginManager.addFileManager(new ProjectFileManager()) }],
+        });
+        return result.css;
+    } catch (e) {
+        const error = e as Partial<Less.RenderError>;
+        if (typeof error.message !== 'string') throw e;
+        throw new CompileError(error.message, error.line ?? undefined, error.column !== undefined ? error.column + 1 : undefined, error.filename || undefined);
+    }
+};
+
+// Only stylesheets that import Tailwind are compiled; plain CSS is served as it is.
+const transformCss = async (file: File, files: File[]): Promise<string> =>
+    usesTailwind(file.content) ? compileTailwindStylesheet(file, files) : file.content;
+
+const escapeHtml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const transformMarkdown = async (file: File): Promise<string> => {
+    const { marked } = await import('marked');
+    const body = await marked.parse(file.content, { gfm: true });
+    const title = file.content.match(/^#\s+(.+)$/m)?.[1] ?? file.path.split('/').pop()!;
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+export const PREVIEW_TRANSFORMS: PreviewTransform[] = [
+    // Declaration files (`types.d.ts`) hold only types, so there is nothing to compile.
+    { test: /(?<!\.d)\.(ts|tsx|mts)$/i, output: 'script', transform: transformTypeScript },
+    // Partials (`_variables.scss`) are only compiled as part of the stylesheets that use them.
+    { test: /(^|\/)[^_/][^/]*\.(scss|sass)$/i, output: 'style', transform: transformSass },
+    { test: /\.less$/i, output: 'style', transform: transformLess },
+    { test: /\.css$/i, output: 'style', transform: transformCss },
+    { test: /\.(md|markdown)$/i, output: 'document', transform: transformMarkdown },
+];
+
+// What is served in place of a file that failed to compile, so the page reports it instead of failing silently.
+const createErrorOutput = (output: PreviewTransform['output'], error: PreviewCompileError): string => {
+    const location = error.line ? `${error.path}:${error.line}${error.column ? `:${error.column}` : ''}` : error.path;
+    const text = `${location}: ${error.message}`;
+    if (output === 'script') return `console.error(${JSON.stringify(text)});`;
+    if (output === 'style') return `/* ${text.replace(/\*\//g, '* /')} */`;
+    return `<!DOCTYPE html><html><head><title>Compile error</title></head><body><pre style="color:#c92a2a;white-space:pre-wrap">${escapeHtml(text)}</pre></body></html>`;
+};
+
+const toCompileError = (e: unknown, file: File): PreviewCompileError => e instanceof CompileError
+    ? { path: e.path ?? file.path, message: e.message, line: e.line, column: e.column }
+    : { path: file.path, message: e instanceof Error ? e.message : String(e) };
+
+/**
+ * Runs the files of a project through the preview's transforms. Files that fail to compile are replaced by an
+ * error stand-in and reported in `errors`; all other files are passed through unchanged.
+ */
+export const transformPreviewFiles = async (
+    files: File[],
+    target?: ProjectTarget,
+    transforms: PreviewTransform[] = PREVIEW_TRANSFORMS
+): Promise<{ files: File[]; errors: PreviewCompileError[] }> => {
+    const activeTransforms = transforms.filter(transform => transform.output !== 'script' || !needsBundling(target));
+    const results = await Promise.all(files.map(async (file): Promise<{ file: File; error?: PreviewCompileError }> => {
+        const transform = activeTransforms.find(t => t.test.test(file.path));
+        if (!transform) return { file };
+        try {
+            return { file: { ...file, content: await transform.transform(file, files) } };
+        } catch (e) {
+            const error = toCompileError(e, file);
+            return { file: { ...file, content: createErrorOutput(transform.output, error) }, error };
+        }
+    }));
+    return {
+        files: results.map(result => result.file),
+        errors: results.flatMap(result => result.error ? [result.error] : []),
+    };
+};
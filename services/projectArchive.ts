@@ -0,0 +1,59 @@
+import JSZip from 'jszip';
+import type { File } from './geminiService';
+import { isBinaryFile, isBinaryPath } from './binaryFiles';
+
+const IGNORED_PATH_PATTERN = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db)(\/|$)/;
+
+/**
+ * Builds a ZIP of the given files. Binary files are decoded so that the archive contains the real bytes.
+ */
+export const createProjectZip = async (files: File[]): Promise<Blob> => {
+    const zip = new JSZip();
+    files.forEach(file => {
+        if (isBinaryFile(file)) {
+            zip.file(file.path, file.content, { base64: true });
+        } else {
+            zip.file(file.path, file.content);
+        }
+    });
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+export const downloadProjectZip = async (files: File[], projectName: string): Promise<void> => {
+    const blob = await createProjectZip(files);
+    const fileName = `${projectName.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'project'}.zip`;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking straight away can cancel the download in some browsers, which start it only after click() returns.
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+/**
+ * Reads a ZIP archive into project files. If every entry shares a single top-level
+ * folder (as with most downloaded archives), that folder is stripped from the paths.
+ */
+export const readProjectZip = async (zipFile: Blob): Promise<File[]> => {
+    const zip = await JSZip.loadAsync(zipFile);
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && !IGNORED_PATH_PATTERN.test(entry.name));
+
+    const files = await Promise.all(entries.map(async (entry): Promise<File> => {
+        const path = entry.name.replace(/^\.?\//, '');
+        if (isBinaryPath(path)) {
+            return { path, content: await entry.async('base64'), encoding: 'base64' };
+        }
+        return { path, content: await entry.async('string') };
+    }));
+
+    const topLevelFolders = new Set(files.map(f => f.path.includes('/') ? f.path.split('/')[0] : ''));
+    if (topLevelFolders.size === 1 && !topLevelFolders.has('')) {
+        const [folder] = topLevelFolders;
+        files.forEach(f => { f.path = f.path.slice(folder.length + 1); });
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+};
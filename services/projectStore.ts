@@ -0,0 +1,747 @@
+import { supabase, isBackendEnabled } from './supabaseClient';
+import type { HistoryEntry, Project } from '../App';
+import { getBlobHashes, isPackedCodeHistory, packCodeHistory, packHistoryEntry, unpackCodeHistory, PackedCodeHistory, PackedHistoryEntry, StoredCodeHistory } from './historyBlobs';
+import { addVersion, getHead, HistoryHead } from './historyTree';
+import type { Annotation } from './annotations';
+import { DEFAULT_PROJECT_TARGET } from './projectTargets';
+import { DEFAULT_PROJECT_STYLING } from './projectStyling';
+
+export type SyncState = 'local' | 'synced' | 'pending' | 'syncing' | 'offline' | 'error' | 'conflict';
+
+export interface SyncStatus {
+    state: SyncState;
+    // Projects with changes that have not reached Supabase yet.
+    pendingCount: number;
+    // Projects whose code history changed both here and on the server since they were last synced.
+    conflicts: Array<{ projectId: string; name: string }>;
+    message?: string;
+}
+
+// A project as kept in storage, with its file contents moved out into blobs (see services/historyBlobs.ts).
+type StoredProjectData = Omit<Project, 'codeHistory'> & { codeHistory: StoredCodeHistory };
+
+interface StoredProject {
+    id: string;
+    userId: string;
+    project: StoredProjectData;
+    // Fingerprint of the code history as last seen on the server, or null if it has never been uploaded.
+    syncedRevision: string | null;
+    // Blobs of this project that the server already has, so that only new ones are uploaded.
+    syncedBlobs?: string[];
+    // Whether the server has this project in the blob format, so that changes can be sent one operation at a time.
+    isRemotePacked?: boolean;
+    // The server's copy, kept when a conflicting change is found so the user can choose between them.
+    remoteConflict?: StoredProjectData;
+}
+
+interface StoredBlob {
+    hash: string;
+    content: string;
+}
+
+type DiscussionMessage = NonNullable<Project['discussionHistory']>[number];
+
+// A change waiting to be sent to Supabase. Everything except `save` is a small targeted write.
+type PendingOperation =
+    | { kind: 'save' }
+    | { kind: 'delete' }
+    | { kind: 'rename'; name: string }
+    | { kind: 'moveHead'; head: HistoryHead }
+    | { kind: 'appendVersion'; entry: PackedHistoryEntry; index: number }
+    | { kind: 'appendMessages'; messages: DiscussionMessage[] }
+    | { kind: 'setAnnotations'; versionIndex: number; annotations: Annotation[] };
+
+interface PendingChange {
+    id: string;
+    projectId: string;
+    userId: string;
+    operation: PendingOperation;
+    queuedAt: number;
+}
+
+interface Table<T> {
+    get: (key: string) => Promise<T | undefined>;
+    getAll: () => Promise<T[]>;
+    keys: () => Promise<string[]>;
+    put: (value: T) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'thevibecoders';
+const DB_VERSION = 1;
+const SYNC_DELAY_MS = 1000;
+const RETRY_INTERVAL_MS = 30000;
+// Blobs per Supabase request, keeping both request bodies and `in` filters a reasonable size.
+const BLOB_BATCH_SIZE = 50;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null when IndexedDB is unavailable (e.g. some private browsing modes); tables then fall back to memory.
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!databasePromise) {
+        databasePromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore('projects', { keyPath: 'id' });
+                db.createObjectStore('blobs', { keyPath: 'hash' });
+                db.createObjectStore('pendingOperations', { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('IndexedDB is unavailable, projects will only be kept in memory:', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+const createTable = <T extends object>(storeName: string, keyPath: keyof T): Table<T> => {
+    const memory = new Map<string, T>();
+    const run = async <R>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<R>, fallback: () => R): Promise<R> => {
+        const db = await openDatabase();
+        if (!db) return fallback();
+        return promisifyRequest(request(db.transaction(storeName, mode).objectStore(storeName)));
+    };
+
+    return {
+        get: (key) => run('readonly', store => store.get(key), () => memory.get(key)),
+        getAll: () => run('readonly', store => store.getAll(), () => Array.from(memory.values())),
+        keys: () => run('readonly', store => store.getAllKeys() as IDBRequest<string[]>, () => Array.from(memory.keys())),
+        put: async (value) => {
+            await run<unknown>('readwrite', store => store.put(value), () => memory.set(String(value[keyPath]), value));
+        },
+        delete: async (key) => {
+            await run<unknown>('readwrite', store => store.delete(key), () => memory.delete(key));
+        },
+    };
+};
+
+const projectTable = createTable<StoredProject>('projects', 'id');
+const pendingChangeTable = createTable<PendingChange>('pendingOperations', 'id');
+const blobTable = createTable<StoredBlob>('blobs', 'hash');
+
+let storageLock: Promise<unknown> = Promise.resolve();
+
+// Writes that add or remove blobs run one at a time, so a blob is never collected between being stored and being referenced.
+const withStorageLock = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = storageLock.then(task);
+    storageLock = result.catch(() => undefined);
+    return result;
+};
+
+const loadBlobs = async (hashes: Iterable<string>): Promise<Map<string, string>> => {
+    const blobs = new Map<string, string>();
+    for (const hash of hashes) {
+        const blob = await blobTable.get(hash);
+        if (blob) blobs.set(hash, blob.content);
+    }
+    return blobs;
+};
+
+const storeBlobs = async (blobs: Map<string, string>) => {
+    if (blobs.size === 0) return;
+    const existing = new Set(await blobTable.keys());
+    for (const [hash, content] of blobs) {
+        if (!existing.has(hash)) await blobTable.put({ hash, content });
+    }
+};
+
+// Stores a project record together with any of its blobs that are not in this browser yet.
+const putRecord = (record: StoredProject, blobs: Map<string, string>) => withStorageLock(async () => {
+    await storeBlobs(blobs);
+    await projectTable.put(record);
+});
+
+/**
+ * Reads, changes and writes back a stored project without other writes in between. `update` gets the
+ * history in packed form, converting records from before blobs were used, and may return null to leave it.
+ */
+const updateRecord = (
+    projectId: string,
+    update: (record: StoredProject, codeHistory: PackedCodeHistory) => StoredProject | null,
+    newBlobs: Map<string, string> = new Map(),
+) => withStorageLock(async () => {
+    const record = await projectTable.get(projectId);
+    if (!record) return null;
+    const { packed, blobs } = await packCodeHistory(record.project.codeHistory);
+    const updated = update(record, packed);
+    if (!updated) return null;
+    await storeBlobs(new Map([...blobs, ...newBlobs]));
+    await projectTable.put(updated);
+    return updated;
+});
+
+const putProject = async (record: Omit<StoredProject, 'project'>, project: Project | StoredProjectData) => {
+    const { packed, blobs } = await packCodeHistory(project.codeHistory);
+    const stored = { ...record, project: { ...project, codeHistory: packed } };
+    await putRecord(stored, blobs);
+    return stored;
+};
+
+const removeUnusedBlobs = () => withStorageLock(async () => {
+    const used = new Set<string>();
+    for (const record of await projectTable.getAll()) {
+        getBlobHashes(record.project.codeHistory).forEach(hash => used.add(hash));
+        if (record.remoteConflict) getBlobHashes(record.remoteConflict.codeHistory).forEach(hash => used.add(hash));
+    }
+    for (const hash of await blobTable.keys()) {
+        if (!used.has(hash)) await blobTable.delete(hash);
+    }
+});
+
+const toProject = async (data: StoredProjectData): Promise<Project> => ({
+    ...data,
+    codeHistory: unpackCodeHistory(data.codeHistory, await loadBlobs(getBlobHashes(data.codeHistory))),
+});
+
+let lastQueuedAt = 0;
+
+// Strictly increasing, so operations queued within the same millisecond keep their order.
+const nextQueueTime = () => {
+    lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1);
+    return lastQueuedAt;
+};
+
+// JSON with sorted keys, since Postgres `jsonb` does not preserve key order.
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().filter(key => value[key] !== undefined).map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+// A short FNV-1a hash identifying a version of a project's code history, computed on its stored form.
+const fingerprint = (codeHistory: StoredCodeHistory): string => {
+    const text = stableStringify(codeHistory);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+// Map snake_case to camelCase
+const rowToProject = (row: any): StoredProjectData => ({
+    id: row.id,
+    name: row.name,
+    initialPrompt: row.initial_prompt,
+    codeHistory: row.code_history,
+    discussionHistory: row.discussion_history,
+    annotations: row.annotations ?? undefined,
+    target: row.target ?? undefined,
+    styling: row.styling ?? undefined,
+    userId: row.user_id,
+    createdAt: row.created_at,
+});
+
+const projectToRow = (project: StoredProjectData) => ({
+    id: project.id,
+    name: project.name,
+    initial_prompt: project.initialPrompt,
+    code_history: project.codeHistory,
+    discussion_history: project.discussionHistory || [],
+    annotations: project.annotations || {},
+    target: project.target || DEFAULT_PROJECT_TARGET,
+    styling: project.styling || DEFAULT_PROJECT_STYLING,
+    user_id: project.userId,
+    created_at: project.createdAt,
+});
+
+// Uploads blobs before the project row that references them, so other devices never see a version without its files.
+const uploadBlobs = async (projectId: string, hashes: string[], blobs: Map<string, string>) => {
+    for (let i = 0; i < hashes.length; i += BLOB_BATCH_SIZE) {
+        const rows = hashes.slice(i, i + BLOB_BATCH_SIZE).map(hash => {
+            const content = blobs.get(hash);
+            if (content === undefined) throw new Error(`A file of project ${projectId} is missing from local storage.`);
+            return { project_id: projectId, hash, content };
+        });
+        const { error } = await supabase.from('project_blobs').upsert(rows, { onConflict: 'project_id,hash', ignoreDuplicates: true });
+        if (error) throw error;
+    }
+};
+
+// Fetches the blobs of a server project that this browser does not have yet.
+const downloadBlobs = async (project: StoredProjectData): Promise<Map<string, string>> => {
+    const stored = new Set(await blobTable.keys());
+    const missing = Array.from(getBlobHashes(project.codeHistory)).filter(hash => !stored.has(hash));
+    const blobs = new Map<string, string>();
+    for (let i = 0; i < missing.length; i += BLOB_BATCH_SIZE) {
+        const { data, error } = await supabase.from('project_blobs')
+            .select('hash, content')
+            .eq('project_id', project.id)
+            .in('hash', missing.slice(i, i + BLOB_BATCH_SIZE));
+        if (error) throw error;
+        data.forEach(blob => blobs.set(blob.hash, blob.content));
+    }
+    if (blobs.size < missing.length) {
+        throw new Error(`Some files of "${project.name}" are not on the server yet.`);
+    }
+    return blobs;
+};
+
+/**
+ * Local-first project storage for one user. IndexedDB is the source of truth: every change is
+ * written there first and queued, and the queue is pushed to Supabase in the background.
+ * Without a backend (see `isBackendEnabled`) the queue is skipped entirely.
+ */
+export const createProjectStore = (userId: string) => {
+    const listeners = new Set<(status: SyncStatus) => void>();
+    let status: SyncStatus = { state: isBackendEnabled ? 'synced' : 'local', pendingCount: 0, conflicts: [] };
+    let syncTimeout: number | null = null;
+    let activeSync: Promise<void> | null = null;
+    let isSyncRequested = false;
+
+    const getRecords = async () => (await projectTable.getAll()).filter(r => r.userId === userId);
+    const getPendingChanges = async () => (await pendingChangeTable.getAll())
+        .filter(c => c.userId === userId)
+        .sort((a, b) => a.queuedAt - b.queuedAt);
+    // The change being sent right now. Later changes can rely on an earlier queued save only if it has not been read yet.
+    let pushingChangeId: string | null = null;
+
+    // Projects left out of the last load because their history refers to blobs that are missing.
+    let damagedProjects: Array<{ projectId: string; name: string }> = [];
+
+    // A damaged project is left out and reported rather than keeping every other project from loading.
+    const listProjects = async (): Promise<Project[]> => {
+        const records = await getRecords();
+        const blobs = new Map((await blobTable.getAll()).map(blob => [blob.hash, blob.content]));
+        const projects: Project[] = [];
+        damagedProjects = [];
+        for (const r of records) {
+            try {
+                projects.push({ ...r.project, codeHistory: unpackCodeHistory(r.project.codeHistory, blobs) });
+            } catch (error) {
+                console.error(`Could not open project ${r.id}:`, error);
+                damagedProjects.push({ projectId: r.id, name: r.project.name });
+            }
+        }
+        return projects.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    };
+
+    const publishStatus = async (failure?: 'offline' | 'error', message?: string) => {
+        const records = await getRecords();
+        const pendingProjects = new Set((await getPendingChanges()).map(c => c.projectId));
+        const conflicts = records.filter(r => r.remoteConflict).map(r => ({ projectId: r.id, name: r.project.name }));
+
+        let state: SyncState;
+        if (!isBackendEnabled) state = 'local';
+        else if (failure) state = failure;
+        else if (conflicts.length > 0) state = 'conflict';
+        else state = pendingProjects.size > 0 ? 'pending' : 'synced';
+
+        status = { state, pendingCount: pendingProjects.size, conflicts, message };
+        listeners.forEach(listener => listener(status));
+    };
+
+    const dropPendingChanges = async (projectId: string) => {
+        for (const change of await getPendingChanges()) {
+            if (change.projectId === projectId) await pendingChangeTable.delete(change.id);
+        }
+    };
+
+    // Keeps the server's copy beside the local one until the user picks which to keep.
+    const markConflict = async (record: StoredProject, row: any) => {
+        const remote = rowToProject(row);
+        const blobs = await downloadBlobs(remote);
+        await updateRecord(record.id, latest => ({ ...latest, remoteConflict: remote }), blobs);
+    };
+
+    // Replaces the server's copy of a project with the local one.
+    const pushProject = async (record: StoredProject) => {
+        // Records saved before history was stored as blobs are packed here; their contents are still inline.
+        const { packed, blobs: inlineBlobs } = await packCodeHistory(record.project.codeHistory);
+        const project = { ...record.project, codeHistory: packed };
+        const localRevision = fingerprint(packed);
+        if (record.syncedRevision) {
+            const { data, error } = await supabase.from('projects').select('*').eq('id', record.id).maybeSingle();
+            if (error) throw error;
+            if (data) {
+                const remoteRevision = fingerprint(data.code_history);
+                if (remoteRevision !== record.syncedRevision && remoteRevision !== localRevision) {
+                    await markConflict(record, data);
+                    return false;
+                }
+            }
+        }
+
+        const syncedBlobs = new Set(record.syncedBlobs);
+        const hashes = Array.from(getBlobHashes(packed));
+        const newHashes = hashes.filter(hash => !syncedBlobs.has(hash));
+        await uploadBlobs(record.id, newHashes, inlineBlobs.size > 0 ? inlineBlobs : await loadBlobs(newHashes));
+        const { error } = await supabase.from('projects').upsert(projectToRow(project));
+        if (error) throw error;
+
+        hashes.forEach(hash => syncedBlobs.add(hash));
+        await updateRecord(record.id, latest => ({ ...latest, syncedRevision: localRevision, syncedBlobs: Array.from(syncedBlobs), isRemotePacked: true }));
+        return true;
+    };
+
+    // Sends one targeted change. Returns false if the server's copy turned out to have diverged.
+    const pushOperation = async (record: StoredProject, operation: PendingOperation): Promise<boolean> => {
+        switch (operation.kind) {
+            case 'rename': {
+                const { error } = await supabase.from('projects').update({ name: operation.name }).eq('id', record.id);
+                if (error) throw error;
+                return true;
+            }
+            case 'moveHead': {
+                const { error } = await supabase.rpc('set_project_head', { project_id: record.id, head: operation.head });
+                if (error) throw error;
+                return true;
+            }
+            case 'appendMessages': {
+                const { error } = await supabase.rpc('append_project_messages', { project_id: record.id, messages: operation.messages });
+                if (error) throw error;
+                return true;
+            }
+            case 'setAnnotations': {
+                const { error } = await supabase.rpc('set_version_annotations', {
+                    project_id: record.id,
+                    version_index: operation.versionIndex,
+                    annotations: operation.annotations,
+                });
+                if (error) throw error;
+                return true;
+            }
+            case 'appendVersion': {
+                const syncedBlobs = new Set(record.syncedBlobs);
+                const newHashes = Array.from(new Set(operation.entry.files.map(file => file.hash))).filter(hash => !syncedBlobs.has(hash));
+                await uploadBlobs(record.id, newHashes, await loadBlobs(newHashes));
+                await updateRecord(record.id, latest => ({ ...latest, syncedBlobs: Array.from(new Set([...(latest.syncedBlobs || []), ...newHashes])) }));
+
+                // Only appended if the server has exactly the versions before it, so another device's versions are never renumbered.
+                const { data: isAppended, error } = await supabase.rpc('append_project_version', {
+                    project_id: record.id,
+                    entry: operation.entry,
+                    version_index: operation.index,
+                });
+                if (error) throw error;
+                if (isAppended) return true;
+
+                const { data, error: fetchError } = await supabase.from('projects').select('*').eq('id', record.id).maybeSingle();
+                if (fetchError) throw fetchError;
+                if (data) await markConflict(record, data);
+                return false;
+            }
+            default:
+                return pushProject(record);
+        }
+    };
+
+    const pushChange = async (change: PendingChange) => {
+        if (change.operation.kind === 'delete') {
+            const { error } = await supabase.from('projects').delete().eq('id', change.projectId);
+            if (error) throw error;
+            const { error: blobError } = await supabase.from('project_blobs').delete().eq('project_id', change.projectId);
+            if (blobError) throw blobError;
+            await pendingChangeTable.delete(change.id);
+            return;
+        }
+
+        const record = await projectTable.get(change.projectId);
+        if (!record) {
+            await pendingChangeTable.delete(change.id);
+            return;
+        }
+        // A conflicting project waits until the user has chosen which version to keep.
+        if (record.remoteConflict) return;
+
+        if (!(await pushOperation(record, change.operation))) return;
+        await pendingChangeTable.delete(change.id);
+
+        // With nothing left to send, the server has the same history as this browser.
+        if (change.operation.kind !== 'save' && !(await getPendingChanges()).some(c => c.projectId === record.id)) {
+            await updateRecord(record.id, (latest, codeHistory) => ({ ...latest, syncedRevision: fingerprint(codeHistory) }));
+        }
+    };
+
+    const runSync = async () => {
+        const pending = await getPendingChanges();
+        if (pending.length === 0) {
+            await publishStatus();
+            return;
+        }
+        if (!navigator.onLine) {
+            await publishStatus('offline');
+            return;
+        }
+
+        status = { ...status, state: 'syncing' };
+        listeners.forEach(listener => listener(status));
+        try {
+            for (const change of pending) {
+                // Skip changes superseded while earlier ones were being sent.
+                if (!(await pendingChangeTable.get(change.id))) continue;
+                pushingChangeId = change.id;
+                await pushChange(change);
+            }
+            await publishStatus();
+        } catch (e: any) {
+            console.error('Failed to sync projects:', e);
+            await publishStatus(navigator.onLine ? 'error' : 'offline', e.message);
+        } finally {
+            pushingChangeId = null;
+        }
+    };
+
+    const sync = (): Promise<void> => {
+        if (!isBackendEnabled) return Promise.resolve();
+        if (activeSync) {
+            isSyncRequested = true;
+            return activeSync;
+        }
+        activeSync = (async () => {
+            do {
+                isSyncRequested = false;
+                await runSync();
+            } while (isSyncRequested);
+        })().finally(() => {
+            activeSync = null;
+        });
+        return activeSync;
+    };
+
+    const scheduleSync = () => {
+        if (syncTimeout) clearTimeout(syncTimeout);
+        syncTimeout = window.setTimeout(() => {
+            syncTimeout = null;
+            sync();
+        }, SYNC_DELAY_MS);
+    };
+
+    /**
+     * Queues a change for the server, dropping queued ones it makes redundant: a save or delete replaces
+     * everything before it, a rename or head move replaces earlier ones of the same kind, and new
+     * annotations for a version replace that version's earlier ones.
+     */
+    const queueOperation = async (projectId: string, operation: PendingOperation) => {
+        if (!isBackendEnabled) return;
+        const pending = (await getPendingChanges()).filter(c => c.projectId === projectId);
+        const isTargeted = operation.kind !== 'save' && operation.kind !== 'delete';
+
+        if (isTargeted) {
+            // A save that has not been sent yet will upload this change along with everything else.
+            if (pending.some(c => c.operation.kind === 'save' && c.id !== pushingChangeId)) return;
+            // The server needs a full copy first if it only has the project in the old format.
+            const record = await projectTable.get(projectId);
+            if (!record?.isRemotePacked) operation = { kind: 'save' };
+        }
+        for (const change of pending) {
+            const isReplaced = operation.kind === 'save' || operation.kind === 'delete'
+                || (change.operation.kind === operation.kind && (operation.kind === 'rename' || operation.kind === 'moveHead'))
+                || (change.operation.kind === 'setAnnotations' && operation.kind === 'setAnnotations' && change.operation.versionIndex === operation.versionIndex);
+            if (isReplaced && change.id !== pushingChangeId) await pendingChangeTable.delete(change.id);
+        }
+        await pendingChangeTable.put({ id: crypto.randomUUID(), projectId, userId, operation, queuedAt: nextQueueTime() });
+        await publishStatus();
+        scheduleSync();
+    };
+
+    const handleOnline = () => sync();
+    const retryInterval = window.setInterval(() => {
+        if (status.state === 'offline' || status.state === 'error') sync();
+    }, RETRY_INTERVAL_MS);
+    window.addEventListener('online', handleOnline);
+
+    return {
+        // Projects as currently stored in this browser.
+        load: listProjects,
+        getDamagedProjects: () => damagedProjects,
+
+        /**
+         * Merges the server's projects into local storage and returns the result.
+         * Local changes that are still queued are kept; a project changed on both sides is marked as a conflict.
+         */
+        pull: async (): Promise<Project[]> => {
+            if (!isBackendEnabled) return listProjects();
+
+            const { data, error } = await supabase.from('projects').select('*').order('created_at', { ascending: false });
+            if (error) throw error;
+
+            const pending = await getPendingChanges();
+            const pendingProjects = new Set(pending.map(c => c.projectId));
+            const deletedProjects = new Set(pending.filter(c => c.operation.kind === 'delete').map(c => c.projectId));
+            const records = new Map((await getRecords()).map(r => [r.id, r]));
+            for (const row of data) {
+                const remote = rowToProject(row);
+                const local = records.get(remote.id);
+                records.delete(remote.id);
+                if (deletedProjects.has(remote.id)) continue;
+
+                const remoteRevision = fingerprint(remote.codeHistory);
+                const isNewer = !local || !pendingProjects.has(remote.id);
+                const isConflict = !isNewer && !local.remoteConflict && local.syncedRevision && local.syncedRevision !== remoteRevision && fingerprint(local.project.codeHistory) !== remoteRevision;
+                if (!isNewer && !isConflict) continue;
+
+                let blobs: Map<string, string>;
+                try {
+                    blobs = await downloadBlobs(remote);
+                } catch (e) {
+                    // Keep what this browser has; the next pull tries again.
+                    console.warn(`Could not download "${remote.name}":`, e);
+                    continue;
+                }
+                if (isNewer) {
+                    await putRecord({
+                        id: remote.id,
+                        userId,
+                        project: remote,
+                        syncedRevision: remoteRevision,
+                        syncedBlobs: Array.from(getBlobHashes(remote.codeHistory)),
+                        isRemotePacked: isPackedCodeHistory(remote.codeHistory),
+                    }, blobs);
+                } else {
+                    await putRecord({ ...local, remoteConflict: remote }, blobs);
+                }
+            }
+            // Anything left that was uploaded before, and has no local changes, was deleted on the server.
+            let hasDeletions = false;
+            for (const local of records.values()) {
+                if (local.syncedRevision && !pendingProjects.has(local.id)) {
+                    await projectTable.delete(local.id);
+                    hasDeletions = true;
+                }
+            }
+            if (hasDeletions) await removeUnusedBlobs();
+
+            await publishStatus();
+            if (pendingProjects.size > 0) scheduleSync();
+            return listProjects();
+        },
+
+        create: async (fields: Pick<Project, 'name' | 'initialPrompt' | 'codeHistory' | 'discussionHistory' | 'target' | 'styling'>): Promise<Project> => {
+            const project: Project = {
+                ...fields,
+                id: crypto.randomUUID(),
+                userId,
+                createdAt: new Date().toISOString(),
+            };
+            await putProject({ id: project.id, userId, syncedRevision: null }, project);
+            await queueOperation(project.id, { kind: 'save' });
+            return project;
+        },
+
+        // The operations below each change one part of a stored project and queue just that change for the server.
+
+        rename: async (projectId: string, name: string) => {
+            const updated = await updateRecord(projectId, record => ({ ...record, project: { ...record.project, name } }));
+            if (updated) await queueOperation(projectId, { kind: 'rename', name });
+        },
+
+        // Adds a version made from `entry.parentIndex` (or the current version) and makes it current.
+        appendVersion: async (projectId: string, entry: HistoryEntry) => {
+            const { packed: packedEntry, blobs } = await packHistoryEntry(entry);
+            const updated = await updateRecord(projectId, (record, codeHistory) => ({
+                ...record,
+                project: { ...record.project, codeHistory: addVersion(codeHistory, packedEntry) },
+            }), blobs);
+            if (!updated) return;
+            const codeHistory = updated.project.codeHistory as PackedCodeHistory;
+            await queueOperation(projectId, { kind: 'appendVersion', entry: codeHistory.history[codeHistory.currentIndex], index: codeHistory.currentIndex });
+            await queueOperation(projectId, { kind: 'moveHead', head: getHead(codeHistory) });
+        },
+
+        // Changes which version is current and which branches redo follows, e.g. for undo, redo and checkout.
+        moveHead: async (projectId: string, { currentIndex, activeChildren = {} }: HistoryHead) => {
+            // Always written out in full, so the server's copy ends up identical.
+            const head = { currentIndex, activeChildren };
+            const updated = await updateRecord(projectId, (record, codeHistory) => head.currentIndex < codeHistory.history.length
+                ? { ...record, project: { ...record.project, codeHistory: { ...codeHistory, ...head } } }
+                : null);
+            if (updated) await queueOperation(projectId, { kind: 'moveHead', head });
+        },
+
+        appendMessages: async (projectId: string, messages: DiscussionMessage[]) => {
+            const updated = await updateRecord(projectId, record => ({
+                ...record,
+                project: { ...record.project, discussionHistory: [...(record.project.discussionHistory || []), ...messages] },
+            }));
+            if (updated) await queueOperation(projectId, { kind: 'appendMessages', messages });
+        },
+
+        // Replaces the annotations drawn on one version.
+        setAnnotations: async (projectId: string, versionIndex: number, annotations: Annotation[]) => {
+            const updated = await updateRecord(projectId, record => ({
+                ...record,
+                project: { ...record.project, annotations: { ...record.project.annotations, [versionIndex]: annotations } },
+            }));
+            if (updated) await queueOperation(projectId, { kind: 'setAnnotations', versionIndex, annotations });
+        },
+
+        remove: async (projectId: string) => {
+            const existing = await projectTable.get(projectId);
+            await projectTable.delete(projectId);
+            await removeUnusedBlobs();
+            if (existing?.syncedRevision) {
+                await queueOperation(projectId, { kind: 'delete' });
+            } else {
+                // Never uploaded, so there is nothing to delete on the server.
+                await dropPendingChanges(projectId);
+                await publishStatus();
+            }
+        },
+
+        // Keeps one side of a conflict and returns the project as it is now stored.
+        resolveConflict: async (projectId: string, keep: 'local' | 'remote'): Promise<Project | undefined> => {
+            const record = await projectTable.get(projectId);
+            if (!record) return undefined;
+            if (!record.remoteConflict) return toProject(record.project);
+
+            const remote = record.remoteConflict;
+            const remoteRevision = fingerprint(remote.codeHistory);
+            const remoteBlobs = Array.from(getBlobHashes(remote.codeHistory));
+            if (keep === 'remote') {
+                await projectTable.put({
+                    id: projectId,
+                    userId,
+                    project: remote,
+                    syncedRevision: remoteRevision,
+                    syncedBlobs: remoteBlobs,
+                    isRemotePacked: isPackedCodeHistory(remote.codeHistory),
+                });
+                await dropPendingChanges(projectId);
+                await removeUnusedBlobs();
+                await publishStatus();
+                return toProject(remote);
+            }
+            // Treat the server's version as seen, so the next upload replaces it.
+            const syncedBlobs = Array.from(new Set([...(record.syncedBlobs || []), ...remoteBlobs]));
+            await projectTable.put({ ...record, remoteConflict: undefined, syncedRevision: remoteRevision, syncedBlobs });
+            await removeUnusedBlobs();
+            await queueOperation(projectId, { kind: 'save' });
+            return toProject(record.project);
+        },
+
+        sync,
+
+        subscribe: (listener: (status: SyncStatus) => void) => {
+            listeners.add(listener);
+            listener(status);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        dispose: () => {
+            if (syncTimeout) clearTimeout(syncTimeout);
+            clearInterval(retryInterval);
+            window.removeEventListener('online', handleOnline);
+            listeners.clear();
+        },
+    };
+};
+
+export type ProjectStore = ReturnType<typeof createProjectStore>;
@@ -0,0 +1,149 @@
+import type { File } from './geminiService';
+import { dirname, normalizePath } from './previewBundler';
+import { isBinaryFile } from './binaryFiles';
+import { getProjectTarget, ProjectTarget } from './projectTargets';
+
+// How a project is styled. Projects saved before this choice existed use plain CSS.
+export type ProjectStyling = 'css' | 'tailwind' | 'bootstrap' | 'tokens';
+
+export interface ProjectStylingInfo {
+    id: ProjectStyling;
+    label: string;
+    description: string;
+}
+
+export const PROJECT_STYLINGS: ProjectStylingInfo[] = [
+    { id: 'css', label: 'Plain CSS', description: 'Hand-written stylesheets.' },
+    { id: 'tailwind', label: 'Tailwind CSS', description: 'Utility classes, compiled with Tailwind v4.' },
+    { id: 'bootstrap', label: 'Bootstrap', description: 'Bootstrap 5 components, utilities and grid.' },
+    { id: 'tokens', label: 'Design tokens', description: 'A stylesheet of CSS variables that every style uses.' },
+];
+
+export const DEFAULT_PROJECT_STYLING: ProjectStyling = 'css';
+
+export const getProjectStyling = (styling?: ProjectStyling): ProjectStylingInfo =>
+    PROJECT_STYLINGS.find(info => info.id === styling) ?? PROJECT_STYLINGS[0];
+
+// Where the design tokens live: next to the global stylesheet of the project's stack.
+export const getTokensPath = (target?: ProjectTarget): string => {
+    const directory = dirname(getProjectTarget(target).stylesheet);
+    return directory ? `${directory}/tokens.css` : 'tokens.css';
+};
+
+const BOOTSTRAP_CDN = 'https://cdn.jsdelivr.net/npm/bootstrap@5.3.3/dist';
+const BOOTSTRAP_HTML = `<link rel="stylesheet" href="${BOOTSTRAP_CDN}/css/bootstrap.min.css"><script src="${BOOTSTRAP_CDN}/js/bootstrap.bundle.min.js" defer></script>`;
+
+/**
+ * Markup the preview adds to the head of every page for the project's styling. Tailwind needs none: its
+ * stylesheets are compiled like in a build (see `compileTailwindStylesheet`).
+ */
+export const getStylingRuntime = (styling?: ProjectStyling): string => styling === 'bootstrap' ? BOOTSTRAP_HTML : '';
+
+// The package's own stylesheets, which `@import "tailwindcss"` pulls in. The major version matches the compiler's.
+const TAILWIND_CDN = 'https://unpkg.com/tailwindcss@4';
+const TAILWIND_IMPORT_REGEX = /@import\s+(?:url\(\s*)?["']tailwindcss(?:\/[^"']*)?["']/;
+
+export const usesTailwind = (css: string): boolean => TAILWIND_IMPORT_REGEX.test(css);
+
+const tailwindStylesheets = new Map<string, Promise<string>>();
+
+const fetchTailwindStylesheet = (name: string): Promise<string> => {
+    if (!tailwindStylesheets.has(name)) {
+        const request = fetch(`${TAILWIND_CDN}/${name}`).then(response => {
+            if (!response.ok) throw new Error(`Could not load tailwindcss/${name} (${response.status}).`);
+            return response.text();
+        });
+        request.catch(() => tailwindStylesheets.delete(name));
+        tailwindStylesheets.set(name, request);
+    }
+    return tailwindStylesheets.get(name)!;
+};
+
+// Class names can appear anywhere in markup and scripts, so every token that could be one is a candidate; Tailwind ignores the rest.
+const extractCandidates = (files: File[]): string[] => {
+    const candidates = new Set<string>();
+    for (const file of files) {
+        if (/\.(css|scss|sass|less)$/i.test(file.path) || isBinaryFile(file)) continue;
+        for (const token of file.content.split(/[\s"'`<>{}=;\\]+/)) {
+            if (token) candidates.add(token);
+        }
+    }
+    return Array.from(candidates);
+};
+
+/**
+ * Compiles a stylesheet that imports Tailwind into plain CSS, generating the utilities used anywhere in the project.
+ * This is what Tailwind's own build does, so the preview and exported static sites get the same CSS.
+ */
+export const compileTailwindStylesheet = async (file: File, files: File[]): Promise<string> => {
+    const { compile } = await import('tailwindcss');
+    const compiler = await compile(file.content, {
+        base: dirname(file.path),
+        loadStylesheet: async (id, base) => {
+            if (id === 'tailwindcss' || id.startsWith('tailwindcss/')) {
+                const name = id === 'tailwindcss' ? 'index.css' : `${id.slice('tailwindcss/'.length).replace(/\.css$/, '')}.css`;
+                return { path: `tailwindcss/${name}`, base: '', content: await fetchTailwindStylesheet(name) };
+            }
+            const path = normalizePath(`${base}/${id}`);
+            const match = files.find(f => f.path === path);
+            if (!match) throw new Error(`Could not find "${id}" imported from ${file.path}`);
+            return { path, base: dirname(path), content: match.content };
+        },
+        loadModule: async id => {
+            throw new Error(`Tailwind plugins and JavaScript config files are not supported ("${id}"). Use @theme in CSS instead.`);
+        },
+    });
+    return compiler.build(extractCandidates(files));
+};
+
+// Recognises Tailwind in an imported project; other stylings cannot be told apart from plain CSS reliably.
+export const detectProjectStyling = (files: File[]): ProjectStyling =>
+    files.some(file => file.path.endsWith('.css') && usesTailwind(file.content)) ? 'tailwind' : DEFAULT_PROJECT_STYLING;
+
+// Makes the project use the given design-token stylesheet, replacing any the AI wrote.
+export const applyDesignTokens = (files: File[], tokens: string, target?: ProjectTarget): File[] => {
+    const path = getTokensPath(target);
+    return [...files.filter(file => file.path !== path), { path, content: tokens }];
+};
+
+const addDevDependencies = (files: File[], packages: { [name: string]: string }): File[] => files.map(file => {
+    if (file.path !== 'package.json') return file;
+    try {
+        const json = JSON.parse(file.content);
+        json.devDependencies = { ...packages, ...json.devDependencies };
+        return { ...file, content: `${JSON.stringify(json, null, 2)}\n` };
+    } catch {
+        return file;
+    }
+});
+
+/**
+ * Turns the project into the files to download, so the export runs without the preview:
+ * - Bootstrap is linked from its CDN in every page, as the preview does.
+ * - Plain Tailwind projects get their stylesheets compiled, since they have no build step of their own.
+ * - Framework Tailwind projects keep their sources, and are given the Tailwind packages and PostCSS setup Vite
+ *   needs if the AI did not add the Vite plugin itself.
+ */
+export const prepareExportFiles = async (files: File[], styling?: ProjectStyling, target?: ProjectTarget): Promise<File[]> => {
+    if (styling === 'bootstrap') {
+        return files.map(file => {
+            if (!/\.html?$/i.test(file.path) || file.content.includes('bootstrap')) return file;
+            const content = file.content.replace(/<head(\s[^>]*)?>/i, head => `${head}\n    ${BOOTSTRAP_HTML}`);
+            return { ...file, content };
+        });
+    }
+    if (styling !== 'tailwind') return files;
+
+    if (getProjectTarget(target).id === 'vanilla') {
+        return Promise.all(files.map(async file => file.path.endsWith('.css') && usesTailwind(file.content)
+            ? { ...file, content: await compileTailwindStylesheet(file, files) }
+            : file));
+    }
+    const viteConfig = files.find(file => /^vite\.config\.[cm]?[jt]s$/.test(file.path));
+    if (viteConfig?.content.includes('@tailwindcss/vite')) {
+        return addDevDependencies(files, { 'tailwindcss': '^4.1.0', '@tailwindcss/vite': '^4.1.0' });
+    }
+    const withPackages = addDevDependencies(files, { 'tailwindcss': '^4.1.0', '@tailwindcss/postcss': '^4.1.0' });
+    if (files.some(file => /^postcss\.config\.[cm]?js$/.test(file.path))) return withPackages;
+    return [...withPackages, { path: 'postcss.config.mjs', content: `export default {\n  plugins: {\n    '@tailwindcss/postcss': {},\n  },\n};\n` }];
+};
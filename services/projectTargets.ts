@@ -0,0 +1,43 @@
+// The stack a project is generated for. Projects saved before targets existed are 'vanilla'.
+export type ProjectTarget = 'vanilla' | 'react' | 'vue' | 'svelte';
+
+export interface ProjectTargetInfo {
+    id: ProjectTarget;
+    label: string;
+    description: string;
+    // The global stylesheet every page or the entry module loads.
+    stylesheet: string;
+    /**
+     * The framework's runtime packages and the versions the preview loads when the project's package.json
+     * does not list them. Svelte's runtime must match the compiler, so its version is set by the bundler.
+     */
+    packages: { [name: string]: string };
+}
+
+export const PROJECT_TARGETS: ProjectTargetInfo[] = [
+    { id: 'vanilla', label: 'HTML, CSS & JS', description: 'Plain files that run as they are, with no build step.', stylesheet: 'style.css', packages: {} },
+    { id: 'react', label: 'React', description: 'A Vite-style React app in TypeScript (TSX).', stylesheet: 'src/index.css', packages: { 'react': '^18.3.1', 'react-dom': '^18.3.1' } },
+    { id: 'vue', label: 'Vue', description: 'A Vite-style Vue 3 app with single-file components.', stylesheet: 'src/style.css', packages: { 'vue': '^3.5.0' } },
+    { id: 'svelte', label: 'Svelte', description: 'A Vite-style Svelte 5 app with .svelte components.', stylesheet: 'src/app.css', packages: { 'svelte': '^5.0.0' } },
+];
+
+export const DEFAULT_PROJECT_TARGET: ProjectTarget = 'vanilla';
+
+export const getProjectTarget = (target?: ProjectTarget): ProjectTargetInfo =>
+    PROJECT_TARGETS.find(info => info.id === target) ?? PROJECT_TARGETS[0];
+
+// Framework projects are compiled in the browser before the preview can show them.
+export const needsBundling = (target?: ProjectTarget): boolean => getProjectTarget(target).id !== 'vanilla';
+
+// Recognises the framework of an imported project from its package.json.
+export const detectProjectTarget = (files: Array<{ path: string; content: string }>): ProjectTarget => {
+    const packageJson = files.find(file => file.path === 'package.json');
+    if (!packageJson) return DEFAULT_PROJECT_TARGET;
+    try {
+        const { dependencies, devDependencies } = JSON.parse(packageJson.content);
+        const packages = { ...devDependencies, ...dependencies };
+        return PROJECT_TARGETS.find(info => info.id !== 'vanilla' && Object.keys(info.packages).every(name => name in packages))?.id ?? DEFAULT_PROJECT_TARGET;
+    } catch {
+        return DEFAULT_PROJECT_TARGET;
+    }
+};
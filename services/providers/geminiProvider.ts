@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LlmProvider, ModelRequest } from '../llmProvider';
+
+const FAST_MODEL = 'gemini-2.5-flash';
+const PRO_MODEL = 'gemini-2.5-pro';
+
+export const createGeminiProvider = (apiKey: string, modelOverride?: string): LlmProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    // Without an override, pick the faster model for lightweight tasks and the more powerful one for code.
+    const pickModel = (defaultModel: string) => modelOverride || defaultModel;
+
+    const buildParams = (model: string, request: ModelRequest) => ({
+        model,
+        contents: [
+            ...(request.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.content }] })),
+            {
+                role: 'user',
+                parts: [
+                    { text: request.prompt },
+                    ...(request.images || []).map(image => ({ inlineData: image })),
+                ],
+            },
+        ],
+        config: {
+            systemInstruction: request.systemInstruction,
+            ...(request.responseSchema ? { responseMimeType: 'application/json', responseSchema: request.responseSchema } : {}),
+        },
+    });
+
+    async function* stream(model: string, request: ModelRequest): AsyncGenerator<string> {
+        const response = await ai.models.generateContentStream(buildParams(model, request));
+        for await (const chunk of response) {
+            yield chunk.text || '';
+        }
+    }
+
+    const complete = async (model: string, request: ModelRequest): Promise<string> => {
+        const response = await ai.models.generateContent(buildParams(model, request));
+        return (response.text || '').trim();
+    };
+
+    return {
+        // New projects always use the more powerful model for a better foundation.
+        generate: (request) => stream(pickModel(PRO_MODEL), request),
+        edit: (request) => stream(pickModel(request.isSimple ? FAST_MODEL : PRO_MODEL), request),
+        suggest: (request) => complete(pickModel(FAST_MODEL), request),
+        discuss: (request) => stream(pickModel(PRO_MODEL), request),
+        enhance: (request) => complete(pickModel(FAST_MODEL), request),
+        describeImage: (request) => complete(pickModel(FAST_MODEL), request),
+    };
+};
@@ -0,0 +1,58 @@
+import { ensureOk, readResponseLines, toJsonSchema } from '../llmProvider';
+import type { LlmProvider, ModelRequest } from '../llmProvider';
+
+/**
+ * Talks to a local Ollama server through its native chat API, which supports
+ * structured output from a JSON schema.
+ */
+export const createOllamaProvider = (baseUrl: string, model: string): LlmProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/chat`;
+
+    const post = async (request: ModelRequest, stream: boolean): Promise<Response> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model,
+                stream,
+                messages: [
+                    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+                    ...(request.history || []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.content })),
+                    {
+                        role: 'user',
+                        content: request.prompt,
+                        ...(request.images?.length ? { images: request.images.map(image => image.data) } : {}),
+                    },
+                ],
+                ...(request.responseSchema ? { format: toJsonSchema(request.responseSchema) } : {}),
+            }),
+        });
+        return ensureOk(response, 'The Ollama server');
+    };
+
+    async function* stream(request: ModelRequest): AsyncGenerator<string> {
+        const response = await post(request, true);
+        // Ollama streams one JSON object per line.
+        for await (const line of readResponseLines(response)) {
+            const event = JSON.parse(line);
+            if (event.error) throw new Error(`The Ollama server reported an error: ${event.error}`);
+            yield event.message?.content || '';
+            if (event.done) return;
+        }
+    }
+
+    const complete = async (request: ModelRequest): Promise<string> => {
+        const response = await post(request, false);
+        const result = await response.json();
+        return (result.message?.content || '').trim();
+    };
+
+    return {
+        generate: stream,
+        edit: stream,
+        suggest: complete,
+        discuss: stream,
+        enhance: complete,
+        describeImage: complete,
+    };
+};
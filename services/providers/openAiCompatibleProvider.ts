@@ -0,0 +1,68 @@
+import { ensureOk, readResponseLines } from '../llmProvider';
+import type { LlmProvider, ModelRequest } from '../llmProvider';
+
+/**
+ * Talks to any server implementing the OpenAI Chat Completions API, including
+ * OpenAI itself, llama.cpp's `llama-server`, LM Studio and vLLM.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string, model: string): LlmProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const buildBody = (request: ModelRequest, stream: boolean) => ({
+        model,
+        stream,
+        messages: [
+            ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+            ...(request.history || []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.content })),
+            {
+                role: 'user',
+                content: request.images?.length
+                    ? [
+                        { type: 'text', text: request.prompt },
+                        ...request.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+                    ]
+                    : request.prompt,
+            },
+        ],
+        // `json_object` is the most widely supported JSON mode; the system instructions describe the exact shape.
+        ...(request.responseSchema ? { response_format: { type: 'json_object' } } : {}),
+    });
+
+    const post = async (request: ModelRequest, stream: boolean): Promise<Response> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(buildBody(request, stream)),
+        });
+        return ensureOk(response, 'The model server');
+    };
+
+    async function* stream(request: ModelRequest): AsyncGenerator<string> {
+        const response = await post(request, true);
+        for await (const line of readResponseLines(response)) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice('data:'.length).trim();
+            if (data === '[DONE]') return;
+            const event = JSON.parse(data);
+            yield event.choices?.[0]?.delta?.content || '';
+        }
+    }
+
+    const complete = async (request: ModelRequest): Promise<string> => {
+        const response = await post(request, false);
+        const result = await response.json();
+        return (result.choices?.[0]?.message?.content || '').trim();
+    };
+
+    return {
+        generate: stream,
+        edit: stream,
+        suggest: complete,
+        discuss: stream,
+        enhance: complete,
+        describeImage: complete,
+    };
+};
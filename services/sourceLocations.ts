@@ -0,0 +1,194 @@
+/**
+ * The attribute the preview adds to every element written in a project HTML file, e.g. `index.html:12-20#7`
+ * for the eighth element in the file, which spans lines 12 to 20.
+ */
+export const SOURCE_LOCATION_ATTRIBUTE = 'data-source-loc';
+
+// A range of lines in a project file, 1-based and inclusive.
+export interface SourceRange {
+    path: string;
+    startLine: number;
+    endLine: number;
+    // For an element in an HTML file, its position among the file's elements in document order.
+    elementIndex?: number;
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Elements whose content is text up to their end tag, so tags inside them are not elements.
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'noscript']);
+
+const BLOCKS_CLOSING_P = ['address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'];
+
+// Elements whose end tag may be left out, and the start tags that close them when it is.
+const CLOSED_BY: { [name: string]: Set<string> } = {
+    p: new Set(BLOCKS_CLOSING_P),
+    li: new Set(['li']),
+    dt: new Set(['dt', 'dd']),
+    dd: new Set(['dt', 'dd']),
+    option: new Set(['option', 'optgroup']),
+    tr: new Set(['tr', 'tbody', 'tfoot']),
+    td: new Set(['td', 'th', 'tr', 'tbody', 'tfoot']),
+    th: new Set(['td', 'th', 'tr', 'tbody', 'tfoot']),
+    thead: new Set(['tbody', 'tfoot']),
+    tbody: new Set(['tbody', 'tfoot']),
+};
+
+export interface ParsedElement {
+    name: string;
+    start: number;
+    // Where the attribute goes: right after the tag name.
+    insertAt: number;
+    // The end of the start tag and the start of the end tag; equal for elements without content.
+    contentStart: number;
+    contentEnd: number;
+    end: number;
+}
+
+const TAG_NAME = /^[a-zA-Z][^\s/>]*/;
+
+// The offset just past the `>` that ends the tag starting at `start`, skipping `>` inside quoted attribute values.
+const findTagEnd = (html: string, start: number): number => {
+    let quote: string | null = null;
+    for (let i = start; i < html.length; i++) {
+        const char = html[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '>') {
+            return i + 1;
+        }
+    }
+    return html.length;
+};
+
+/**
+ * Finds the elements of an HTML document and the offsets they span, from the start of their start tag to
+ * the end of their end tag. Like browsers, it closes elements whose end tag was left out, though only for
+ * the common cases (`<li>`, `<p>`, table cells and the like); anything else left open ends where its parent does.
+ */
+export const parseElements = (html: string): ParsedElement[] => {
+    const elements: ParsedElement[] = [];
+    const open: ParsedElement[] = [];
+
+    const close = (element: ParsedElement, contentEnd: number, end: number) => {
+        element.contentEnd = contentEnd;
+        element.end = end;
+    };
+    const closeOpen = (fromIndex: number, end: number) => {
+        open.splice(fromIndex).forEach(element => close(element, end, end));
+    };
+
+    let i = 0;
+    while (i < html.length) {
+        const next = html.indexOf('<', i);
+        if (next === -1) break;
+        i = next;
+        if (html.startsWith('<!--', i)) {
+            const close = html.indexOf('-->', i + 4);
+            i = close === -1 ? html.length : close + 3;
+            continue;
+        }
+        if (html[i + 1] === '!' || html[i + 1] === '?') {
+            i = findTagEnd(html, i);
+            continue;
+        }
+        if (html[i + 1] === '/') {
+            const name = html.slice(i + 2).match(TAG_NAME)?.[0].toLowerCase();
+            const tagEnd = findTagEnd(html, i);
+            if (name) {
+                const index = open.map(element => element.name).lastIndexOf(name);
+                if (index !== -1) {
+                    closeOpen(index + 1, i);
+                    close(open.pop()!, i, tagEnd);
+                }
+            }
+            i = tagEnd;
+            continue;
+        }
+        const match = html.slice(i + 1, i + 101).match(TAG_NAME);
+        if (!match) {
+            i++;
+            continue;
+        }
+        const name = match[0].toLowerCase();
+        const tagEnd = findTagEnd(html, i);
+        while (open.length > 0 && CLOSED_BY[open[open.length - 1].name]?.has(name)) {
+            close(open.pop()!, i, i);
+        }
+        const element: ParsedElement = { name, start: i, insertAt: i + 1 + match[0].length, contentStart: tagEnd, contentEnd: tagEnd, end: tagEnd };
+        elements.push(element);
+        i = tagEnd;
+
+        if (VOID_ELEMENTS.has(name) || html[tagEnd - 2] === '/') continue;
+        if (RAW_TEXT_ELEMENTS.has(name)) {
+            const closeTag = html.slice(tagEnd).search(new RegExp(`</${name}[\\s/>]`, 'i'));
+            if (closeTag === -1) {
+                close(element, html.length, html.length);
+                i = html.length;
+            } else {
+                i = tagEnd + closeTag;
+                open.push(element);
+            }
+            continue;
+        }
+        open.push(element);
+    }
+    closeOpen(0, html.length);
+    return elements;
+};
+
+const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Adds a `data-source-loc` attribute to every element in an HTML file with the lines it spans and its index, so
+ * an element picked in the preview can be traced back to its markup. Only attributes are added: line numbers in the page
+ * stay the same as in the file.
+ */
+export const tagSourceLocations = (html: string, path: string): string => {
+    const lineStarts = [0];
+    for (let i = 0; i < html.length; i++) {
+        if (html[i] === '\n') lineStarts.push(i + 1);
+    }
+    const lineAt = (offset: number): number => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) low = middle;
+            else high = middle - 1;
+        }
+        return low + 1;
+    };
+
+    let result = '';
+    let copied = 0;
+    parseElements(html).forEach((element, index) => {
+        // Elements closed by the next start tag would otherwise run on to its line.
+        let last = element.end - 1;
+        while (last > element.start && /\s/.test(html[last])) last--;
+        const startLine = lineAt(element.start);
+        const endLine = lineAt(last);
+        result += html.slice(copied, element.insertAt) + ` ${SOURCE_LOCATION_ATTRIBUTE}="${escapeAttribute(`${path}:${startLine}-${endLine}#${index}`)}"`;
+        copied = element.insertAt;
+    });
+    return result + html.slice(copied);
+};
+
+const SOURCE_LOCATION_PATTERN = /^(.+):(\d+)-(\d+)(?:#(\d+))?$/;
+
+export const parseSourceLocation = (value: unknown): SourceRange | null => {
+    if (typeof value !== 'string') return null;
+    const match = value.match(SOURCE_LOCATION_PATTERN);
+    if (!match) return null;
+    return {
+        path: match[1],
+        startLine: Number(match[2]),
+        endLine: Number(match[3]),
+        elementIndex: match[4] === undefined ? undefined : Number(match[4]),
+    };
+};
+
+export const formatSourceRange = ({ path, startLine, endLine }: SourceRange): string =>
+    startLine === endLine ? `${path}:${startLine}` : `${path}:${startLine}-${endLine}`;
@@ -0,0 +1,129 @@
+import type { File } from './geminiService';
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+// How one file differs between two versions. Content is missing on the side where the file does not exist.
+export interface FileChange {
+    path: string;
+    status: FileChangeStatus;
+    oldContent?: string;
+    newContent?: string;
+    // Set for binary files, which are compared but have no lines to diff.
+    encoding?: File['encoding'];
+}
+
+// A run of consecutive changed lines. Line numbers are 1-based; an empty side starts after the line before it.
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: string[];
+    newStart: number;
+    newLines: string[];
+}
+
+// Above this many line comparisons the changed region is reported as a single hunk instead.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Sorted by path, which is also the order the diff viewer lists them in.
+export const diffVersions = (oldFiles: File[], newFiles: File[]): FileChange[] => {
+    const oldByPath = new Map(oldFiles.map(f => [f.path, f]));
+    const newByPath = new Map(newFiles.map(f => [f.path, f]));
+    const paths = Array.from(new Set([...oldByPath.keys(), ...newByPath.keys()])).sort();
+
+    const changes: FileChange[] = [];
+    paths.forEach(path => {
+        const oldFile = oldByPath.get(path);
+        const newFile = newByPath.get(path);
+        const encoding = (newFile ?? oldFile)?.encoding;
+        const change: FileChange | null = !oldFile
+            ? { path, status: 'added', newContent: newFile!.content }
+            : !newFile
+                ? { path, status: 'removed', oldContent: oldFile.content }
+                : oldFile.content !== newFile.content
+                    ? { path, status: 'modified', oldContent: oldFile.content, newContent: newFile.content }
+                    : null;
+        if (change) changes.push(encoding ? { ...change, encoding } : change);
+    });
+    return changes;
+};
+
+const splitLines = (content: string): string[] => content.split('\n');
+
+/**
+ * Line-based diff using a longest common subsequence table. The unchanged start and end of the
+ * files are skipped first, which keeps the table small for the typical edit.
+ */
+export const diffLines = (oldContent: string, newContent: string): DiffHunk[] => {
+    const oldLines = splitLines(oldContent);
+    const newLines = splitLines(newContent);
+
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) suffix++;
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    if (a.length === 0 && b.length === 0) return [];
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ oldStart: prefix + 1, oldLines: a, newStart: prefix + 1, newLines: b }];
+    }
+
+    // lcs[i][j] is the length of the common subsequence of a[i..] and b[j..].
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            current = null;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: prefix + i + 1, oldLines: [], newStart: prefix + j + 1, newLines: [] };
+            hunks.push(current);
+        }
+        if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            current.oldLines.push(a[i++]);
+        } else {
+            current.newLines.push(b[j++]);
+        }
+    }
+    return hunks;
+};
+
+/**
+ * Puts the old side of a hunk back into `content`, which must be the new side of the diff the hunk
+ * came from. Returns null if the lines no longer match, e.g. because the file was edited since.
+ */
+export const revertHunk = (content: string, hunk: DiffHunk): string | null => {
+    const lines = splitLines(content);
+    const start = hunk.newStart - 1;
+    const matches = hunk.newLines.every((line, offset) => lines[start + offset] === line);
+    if (!matches || start > lines.length) return null;
+    lines.splice(start, hunk.newLines.length, ...hunk.oldLines);
+    return lines.join('\n');
+};
+
+// Restores a file to its state on the old side of `change`, removing it if it did not exist there.
+export const revertFile = (files: File[], change: FileChange): File[] => {
+    if (change.oldContent === undefined) {
+        return files.filter(f => f.path !== change.path);
+    }
+    const oldContent = change.oldContent;
+    if (!files.some(f => f.path === change.path)) {
+        return [...files, change.encoding ? { path: change.path, content: oldContent, encoding: change.encoding } : { path: change.path, content: oldContent }];
+    }
+    return files.map(f => f.path === change.path ? { ...f, content: oldContent } : f);
+};
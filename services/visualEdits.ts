@@ -0,0 +1,128 @@
+import type { File } from './geminiService';
+import { SourceRange, parseElements, parseSourceLocation } from './sourceLocations';
+
+// The properties the style inspector edits, in the order it shows them.
+export const VISUAL_EDIT_PROPERTIES = ['color', 'background-color', 'font-size', 'padding', 'margin'] as const;
+
+export type VisualEditProperty = typeof VISUAL_EDIT_PROPERTIES[number];
+
+// The element clicked in the preview's visual edit mode.
+export interface VisualEditTarget {
+    source: SourceRange;
+    tagName: string;
+    // The current computed value of each of `VISUAL_EDIT_PROPERTIES`.
+    styles: { [property: string]: string };
+    // Whether the element holds only text and inline markup, so it can be edited in place.
+    canEditText: boolean;
+}
+
+/**
+ * A change made in the preview that is waiting to be written back to the project: the new content of an
+ * element edited in place, inline styles set with the inspector, or both.
+ */
+export interface VisualEdit {
+    source: SourceRange;
+    html?: string;
+    styles?: { [property: string]: string };
+}
+
+// Validates a `visualEditSelect` payload from the preview iframe. Only elements that can be written back are accepted.
+export const createVisualEditTarget = (payload: any): VisualEditTarget | null => {
+    const source = parseSourceLocation(payload?.source);
+    if (!source || source.elementIndex === undefined || typeof payload.tagName !== 'string') return null;
+    const styles: VisualEditTarget['styles'] = {};
+    VISUAL_EDIT_PROPERTIES.forEach(property => {
+        const value = payload.styles?.[property];
+        if (typeof value === 'string') styles[property] = value;
+    });
+    return { source, tagName: payload.tagName, styles, canEditText: payload.canEditText === true };
+};
+
+// Validates a `visualEditText` payload from the preview iframe.
+export const createTextEdit = (payload: any): VisualEdit | null => {
+    const source = parseSourceLocation(payload?.source);
+    if (!source || source.elementIndex === undefined || typeof payload.html !== 'string') return null;
+    return { source, html: payload.html };
+};
+
+const isSameElement = (a: SourceRange, b: SourceRange) => a.path === b.path && a.elementIndex === b.elementIndex;
+
+// Adds an edit to the pending ones, combining it with an earlier edit of the same element.
+export const mergeVisualEdit = (edits: VisualEdit[], edit: VisualEdit): VisualEdit[] => {
+    const existing = edits.find(e => isSameElement(e.source, edit.source));
+    if (!existing) return [...edits, edit];
+    const merged: VisualEdit = {
+        source: existing.source,
+        html: edit.html ?? existing.html,
+        styles: existing.styles || edit.styles ? { ...existing.styles, ...edit.styles } : undefined,
+    };
+    return edits.map(e => e === existing ? merged : e);
+};
+
+const STYLE_ATTRIBUTE = /(\sstyle\s*=\s*)("([^"]*)"|'([^']*)')/i;
+
+const decodeAttribute = (value: string): string => value.replace(/&quot;/g, '"').replace(/&#39;/g, '\'').replace(/&amp;/g, '&');
+
+const encodeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Sets declarations in a `style` attribute value, keeping the others in order. Empty values remove the property.
+const updateDeclarations = (declarations: string, styles: { [property: string]: string }): string => {
+    const entries: Array<[string, string]> = declarations.split(';')
+        .map(declaration => declaration.trim())
+        .filter(Boolean)
+        .map(declaration => {
+            const colon = declaration.indexOf(':');
+            return colon === -1 ? [declaration, ''] : [declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim()];
+        });
+    Object.entries(styles).forEach(([property, value]) => {
+        const index = entries.findIndex(([name]) => name === property);
+        if (index !== -1) entries.splice(index, 1);
+        if (value.trim()) entries.push([property, value.trim()]);
+    });
+    return entries.map(([name, value]) => value ? `${name}: ${value}` : name).join('; ');
+};
+
+const setInlineStyles = (startTag: string, styles: { [property: string]: string }): string => {
+    const match = startTag.match(STYLE_ATTRIBUTE);
+    if (match) {
+        const current = decodeAttribute(match[3] ?? match[4] ?? '');
+        const updated = updateDeclarations(current, styles);
+        return startTag.slice(0, match.index!)
+            + (updated ? `${match[1]}"${encodeAttribute(updated)}"` : '')
+            + startTag.slice(match.index! + match[0].length);
+    }
+    const updated = updateDeclarations('', styles);
+    if (!updated) return startTag;
+    const closing = startTag.endsWith('/>') ? startTag.length - 2 : startTag.length - 1;
+    return `${startTag.slice(0, closing).trimEnd()} style="${encodeAttribute(updated)}"${startTag.slice(closing)}`;
+};
+
+const applyEdit = (html: string, edit: VisualEdit): string => {
+    const element = parseElements(html)[edit.source.elementIndex!];
+    if (!element) return html;
+    let result = html;
+    // The content is replaced first: the start tag before it keeps its offsets.
+    if (edit.html !== undefined) {
+        result = result.slice(0, element.contentStart) + edit.html + result.slice(element.contentEnd);
+    }
+    if (edit.styles) {
+        const startTag = result.slice(element.start, element.contentStart);
+        result = result.slice(0, element.start) + setInlineStyles(startTag, edit.styles) + result.slice(element.contentStart);
+    }
+    return result;
+};
+
+/**
+ * Writes pending edits into the project's HTML files. Styles are set inline on the element. Within a file,
+ * edits are applied from the last element to the first, so that changing one element's content cannot
+ * shift the index of an element still to be edited.
+ */
+export const applyVisualEdits = (files: File[], edits: VisualEdit[]): File[] => {
+    return files.map(file => {
+        const fileEdits = edits
+            .filter(edit => edit.source.path === file.path && edit.source.elementIndex !== undefined)
+            .sort((a, b) => b.source.elementIndex! - a.source.elementIndex!);
+        if (fileEdits.length === 0) return file;
+        return { ...file, content: fileEdits.reduce(applyEdit, file.content) };
+    });
+};